@@ -0,0 +1,236 @@
+/**
+ * Offline evaluation of the query planner against golden fixtures.
+ *
+ * Each fixture is a question with the plan properties it must produce (sources,
+ * date ranges, participants, ...). Planner replies are recorded once per prompt
+ * version and replayed afterwards, so prompt edits can be scored without a model.
+ */
+
+import { createHash } from 'node:crypto';
+import { planQuery, type Message, type PlannerCompletion, type UnifiedQueryPlan } from '../lib/openai.js';
+import { getUnifiedQueryPlanPrompt } from '../lib/prompts.js';
+import { getAnalysisKey } from '../providers/registry.js';
+import type { SearchProvider } from '../providers/types.js';
+
+// Reference time for fixtures that don't set one: Wednesday 2026-01-14, 10:00 UTC
+export const EVAL_NOW = '2026-01-14T10:00:00Z';
+
+/**
+ * One expectation on the plan. `path` is a dotted path into `{ analysis, plans }`,
+ * e.g. "plans.calendar.dateRange.start". String comparisons are case-insensitive.
+ */
+export type PlanCheck =
+  | { path: string; equals: string | number | boolean | null }
+  // Regular expression, tested against a string value or the JSON of any other value
+  | { path: string; matches: string }
+  // An array element containing the text, or a string containing it
+  | { path: string; includes: string }
+  // null, undefined or an empty array / string
+  | { path: string; absent: true };
+
+export interface PlannerFixture {
+  id: string;
+  query: string;
+  // Earlier turns, for follow-up questions
+  history?: Message[];
+  // Provider ids offered to the planner (default: all registered)
+  providers?: string[];
+  timeZone?: string;
+  // ISO instant the question is asked at (default EVAL_NOW)
+  now?: string;
+  expect: {
+    // Provider id -> whether it should be searched
+    sources?: Record<string, boolean>;
+    checks?: PlanCheck[];
+  };
+}
+
+// Planner replies keyed by the hash of the messages that produced them
+export type PlannerRecordings = Record<string, string>;
+
+export interface FixtureResult {
+  id: string;
+  passedChecks: number;
+  totalChecks: number;
+  score: number;
+  failures: string[];
+  // Set when the planner could not be run (no recording, invalid reply)
+  error?: string;
+}
+
+export interface PlannerEvalReport {
+  promptVersion: string;
+  model: string;
+  runAt: string;
+  summary: {
+    fixtures: number;
+    passedFixtures: number;
+    errors: number;
+    passedChecks: number;
+    totalChecks: number;
+    // Mean of the per-fixture scores, 0..1
+    score: number;
+  };
+  results: FixtureResult[];
+}
+
+const hash = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Short id of the planner prompt template for a set of providers. Rendered with fixed
+ * dates, so it only changes when the prompt text or a provider's prompt section does.
+ */
+export function plannerPromptVersion(providers: SearchProvider[]): string {
+  return hash(getUnifiedQueryPlanPrompt('2000-01-01', providers, '2000-01-01 (Saturday), 00:00 in UTC')).slice(0, 12);
+}
+
+/**
+ * Completion that answers from recordings only; unrecorded messages fail the fixture.
+ */
+export function replayCompletion(recordings: PlannerRecordings): PlannerCompletion {
+  return async messages => {
+    const reply = recordings[hash(JSON.stringify(messages))];
+    if (reply === undefined) {
+      throw new Error('No recorded planner reply for this prompt; run the eval with --record');
+    }
+    return reply;
+  };
+}
+
+/**
+ * Completion that calls `inner` and stores each reply in `recordings`.
+ */
+export function recordingCompletion(inner: PlannerCompletion, recordings: PlannerRecordings): PlannerCompletion {
+  return async messages => {
+    const reply = await inner(messages);
+    if (reply) recordings[hash(JSON.stringify(messages))] = reply;
+    return reply;
+  };
+}
+
+function valueAt(plan: UnifiedQueryPlan, path: string): unknown {
+  let value: unknown = plan;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+const describe = (value: unknown) => (value === undefined ? 'undefined' : JSON.stringify(value));
+
+/**
+ * Failure message for a check, or null when it passes
+ */
+export function evaluateCheck(plan: UnifiedQueryPlan, check: PlanCheck): string | null {
+  const value = valueAt(plan, check.path);
+
+  if ('equals' in check) {
+    const equal = typeof value === 'string' && typeof check.equals === 'string'
+      ? value.toLowerCase() === check.equals.toLowerCase()
+      : value === check.equals;
+    return equal ? null : `${check.path}: expected ${describe(check.equals)}, got ${describe(value)}`;
+  }
+
+  if ('matches' in check) {
+    const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+    return new RegExp(check.matches, 'i').test(text)
+      ? null
+      : `${check.path}: expected to match /${check.matches}/, got ${describe(value)}`;
+  }
+
+  if ('includes' in check) {
+    const needle = check.includes.toLowerCase();
+    const found = Array.isArray(value)
+      ? value.some(item => String(item).toLowerCase().includes(needle))
+      : typeof value === 'string' && value.toLowerCase().includes(needle);
+    return found ? null : `${check.path}: expected to include "${check.includes}", got ${describe(value)}`;
+  }
+
+  const empty = value === null || value === undefined
+    || ((Array.isArray(value) || typeof value === 'string') && value.length === 0);
+  return empty ? null : `${check.path}: expected no value, got ${describe(value)}`;
+}
+
+/**
+ * Score a plan against a fixture: one check per expected source, plus the
+ * fixture's own checks. A source expected to be searched must also have a plan.
+ */
+export function scorePlan(
+  fixture: PlannerFixture,
+  plan: UnifiedQueryPlan,
+  providers: SearchProvider[]
+): Omit<FixtureResult, 'id'> {
+  const failures: string[] = [];
+  let totalChecks = 0;
+
+  for (const [id, expected] of Object.entries(fixture.expect.sources ?? {})) {
+    totalChecks++;
+    const provider = providers.find(p => p.id === id);
+    const searched = !!provider && plan.analysis[getAnalysisKey(provider)] === true && plan.plans[id] != null;
+    if (searched !== expected) {
+      failures.push(`${id}: expected ${expected ? 'searched' : 'not searched'}`);
+    }
+  }
+
+  for (const check of fixture.expect.checks ?? []) {
+    totalChecks++;
+    const failure = evaluateCheck(plan, check);
+    if (failure) failures.push(failure);
+  }
+
+  const passedChecks = totalChecks - failures.length;
+  return { passedChecks, totalChecks, score: totalChecks > 0 ? passedChecks / totalChecks : 1, failures };
+}
+
+export interface RunPlannerEvalOptions {
+  fixtures: PlannerFixture[];
+  // All registered providers; fixtures pick a subset by id
+  providers: SearchProvider[];
+  complete: PlannerCompletion;
+  model: string;
+}
+
+/**
+ * Plan every fixture (one at a time, to keep recordings deterministic) and score the results.
+ */
+export async function runPlannerEval({ fixtures, providers, complete, model }: RunPlannerEvalOptions): Promise<PlannerEvalReport> {
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const offered = fixture.providers
+      ? providers.filter(p => fixture.providers!.includes(p.id))
+      : providers;
+    const totalChecks = Object.keys(fixture.expect.sources ?? {}).length + (fixture.expect.checks?.length ?? 0);
+
+    try {
+      const plan = await planQuery(fixture.query, fixture.history ?? [], offered, {
+        timeZone: fixture.timeZone,
+        now: new Date(fixture.now ?? EVAL_NOW),
+        complete,
+      });
+      results.push({ id: fixture.id, ...scorePlan(fixture, plan, offered) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ id: fixture.id, passedChecks: 0, totalChecks, score: 0, failures: [], error: message });
+    }
+  }
+
+  const passedChecks = results.reduce((sum, r) => sum + r.passedChecks, 0);
+  const totalChecks = results.reduce((sum, r) => sum + r.totalChecks, 0);
+
+  return {
+    promptVersion: plannerPromptVersion(providers),
+    model,
+    runAt: new Date().toISOString(),
+    summary: {
+      fixtures: results.length,
+      passedFixtures: results.filter(r => !r.error && r.failures.length === 0).length,
+      errors: results.filter(r => r.error).length,
+      passedChecks,
+      totalChecks,
+      score: results.length > 0 ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0,
+    },
+    results,
+  };
+}
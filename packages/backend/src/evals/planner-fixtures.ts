@@ -0,0 +1,154 @@
+import type { PlannerFixture } from './planner-eval.js';
+
+// Golden questions for the planner. Relative dates are asked at EVAL_NOW
+// (Wednesday 2026-01-14, 10:00 UTC) unless the fixture sets `now`.
+export const PLANNER_FIXTURES: PlannerFixture[] = [
+  {
+    id: 'gmail-person-topic-last-week',
+    query: 'Did Priya send the pricing proposal last week?',
+    providers: ['gmail', 'calendar', 'whatsapp'],
+    expect: {
+      sources: { gmail: true, whatsapp: false },
+      checks: [
+        { path: 'plans.gmail.gmailQuery', matches: 'priya' },
+        { path: 'plans.gmail.gmailQuery', matches: 'pric|proposal|quote' },
+        { path: 'plans.gmail', matches: 'newer_than:\\d+d|after:2026/01/0\\d|"days":\\s*7' },
+      ],
+    },
+  },
+  {
+    id: 'gmail-count-this-month',
+    query: 'How many emails did I get from Stripe this month?',
+    providers: ['gmail', 'calendar', 'whatsapp'],
+    expect: {
+      sources: { gmail: true, calendar: false, whatsapp: false },
+      checks: [
+        { path: 'plans.gmail.intent', equals: 'count' },
+        { path: 'plans.gmail.gmailQuery', matches: 'stripe' },
+      ],
+    },
+  },
+  {
+    id: 'gmail-attachments-negation',
+    query: 'Emails from john@acme.com with attachments, but not newsletters',
+    providers: ['gmail'],
+    expect: {
+      sources: { gmail: true },
+      checks: [
+        { path: 'plans.gmail.gmailQuery', matches: 'from:\\(?john@acme\\.com' },
+        { path: 'plans.gmail.gmailQuery', matches: 'has:attachment' },
+        { path: 'plans.gmail.gmailQuery', matches: '(-|NOT )\\(?\\w*newsletter' },
+      ],
+    },
+  },
+  {
+    id: 'gmail-follow-up-person',
+    query: 'what about Arjun?',
+    providers: ['gmail'],
+    history: [
+      { role: 'user', content: 'Did Priya reply about the Q3 budget?' },
+      { role: 'assistant', content: 'Yes, Priya replied on Monday approving the **Q3 budget** [1].' },
+    ],
+    expect: {
+      sources: { gmail: true },
+      checks: [
+        { path: 'plans.gmail.gmailQuery', matches: 'arjun' },
+        { path: 'plans.gmail.gmailQuery', matches: 'budget' },
+      ],
+    },
+  },
+  {
+    id: 'outlook-sent-folder',
+    query: 'Find the contract I sent to Acme from my Outlook',
+    providers: ['outlook'],
+    expect: {
+      sources: { outlook: true },
+      checks: [
+        { path: 'plans.outlook.folder', equals: 'sentitems' },
+        { path: 'plans.outlook.outlookQuery', matches: 'acme' },
+        { path: 'plans.outlook.outlookQuery', matches: 'contract|agreement' },
+      ],
+    },
+  },
+  {
+    id: 'calendar-tomorrow',
+    query: 'What meetings do I have tomorrow?',
+    expect: {
+      sources: { calendar: true, gmail: false, whatsapp: false },
+      checks: [
+        { path: 'plans.calendar.dateRange.start', equals: '2026-01-15' },
+        { path: 'plans.calendar.dateRange.end', equals: '2026-01-15' },
+      ],
+    },
+  },
+  {
+    id: 'calendar-today-after-local-midnight',
+    query: "What's on my calendar today?",
+    timeZone: 'Asia/Kolkata',
+    // 00:30 on Thursday 2026-01-15 in India, still Wednesday in UTC
+    now: '2026-01-14T19:00:00Z',
+    expect: {
+      sources: { calendar: true },
+      checks: [
+        { path: 'plans.calendar.dateRange.start', equals: '2026-01-15' },
+        { path: 'plans.calendar.dateRange.end', equals: '2026-01-15' },
+      ],
+    },
+  },
+  {
+    id: 'calendar-free-time',
+    query: 'When am I free Thursday afternoon for an hour?',
+    expect: {
+      sources: { calendar: true, gmail: false },
+      checks: [
+        { path: 'plans.calendar.intent', equals: 'free_time' },
+        { path: 'plans.calendar.dateRange.start', equals: '2026-01-15' },
+        { path: 'plans.calendar.durationMinutes', equals: 60 },
+        { path: 'plans.calendar.timeOfDay.start', equals: '12:00' },
+      ],
+    },
+  },
+  {
+    id: 'calendar-last-meeting-with-person',
+    query: 'When did I last meet Priya?',
+    providers: ['calendar', 'whatsapp'],
+    expect: {
+      sources: { calendar: true },
+      checks: [
+        { path: 'plans.calendar.attendees', includes: 'priya' },
+        { path: 'plans.calendar.intent', matches: 'events' },
+      ],
+    },
+  },
+  {
+    id: 'whatsapp-sender-topic',
+    query: 'What did Rahul say on WhatsApp about the venue?',
+    expect: {
+      sources: { whatsapp: true, gmail: false, calendar: false },
+      checks: [
+        { path: 'plans.whatsapp.sender', matches: 'rahul' },
+        { path: 'plans.whatsapp.keywords', includes: 'venue' },
+      ],
+    },
+  },
+  {
+    id: 'whatsapp-group-this-week',
+    query: 'Summarize the design team WhatsApp group this week',
+    providers: ['gmail', 'whatsapp'],
+    expect: {
+      sources: { whatsapp: true, gmail: false },
+      checks: [
+        { path: 'plans.whatsapp.chatName', matches: 'design' },
+        // "This week" on a Wednesday: since Monday or the last 7 days
+        { path: 'plans.whatsapp.dateRange.days', matches: '^[3-7]$' },
+      ],
+    },
+  },
+  {
+    id: 'no-sources-general-knowledge',
+    query: 'What is the capital of France?',
+    expect: {
+      sources: { gmail: false, outlook: false, calendar: false, whatsapp: false },
+    },
+  },
+];
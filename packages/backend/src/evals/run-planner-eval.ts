@@ -0,0 +1,124 @@
+/**
+ * Planner eval runner.
+ *
+ *   pnpm --filter @dotor/backend eval:planner                 replay recorded replies (offline)
+ *   pnpm --filter @dotor/backend eval:planner -- --record     call the model and record its replies
+ *   ... -- --min-score 0.9                                    exit non-zero below this score
+ *
+ * Recordings and reports are stored per prompt version under packages/backend/evals/planner/,
+ * so a prompt edit shows up as a new version to record and compare against earlier ones.
+ * Recordings are committed; reports are local (gitignored).
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { PlannerEvalReport, PlannerRecordings } from './planner-eval.js';
+
+const EVAL_DIR = path.resolve(import.meta.dirname, '../../evals/planner');
+
+interface RecordingFile {
+  model: string;
+  recordedAt: string;
+  replies: PlannerRecordings;
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(value, null, 2) + '\n');
+}
+
+function printReport(report: PlannerEvalReport): void {
+  console.log(`\nPlanner eval: prompt ${report.promptVersion}, model ${report.model}\n`);
+
+  for (const result of report.results) {
+    const status = result.error ? '⚠️ ' : result.failures.length === 0 ? '✅' : '❌';
+    console.log(`${status} ${result.id} (${result.passedChecks}/${result.totalChecks})`);
+    if (result.error) console.log(`     ${result.error}`);
+    for (const failure of result.failures) console.log(`     - ${failure}`);
+  }
+
+  const { summary } = report;
+  console.log(`\nScore: ${(summary.score * 100).toFixed(1)}%`
+    + ` | fixtures ${summary.passedFixtures}/${summary.fixtures}`
+    + ` | checks ${summary.passedChecks}/${summary.totalChecks}`
+    + (summary.errors > 0 ? ` | ${summary.errors} not run` : ''));
+}
+
+async function printHistory(current: string): Promise<void> {
+  const files = await readdir(path.join(EVAL_DIR, 'reports')).catch(() => [] as string[]);
+  const reports = (await Promise.all(
+    files.filter(f => f.endsWith('.json')).map(f => readJson<PlannerEvalReport>(path.join(EVAL_DIR, 'reports', f)))
+  )).filter((r): r is PlannerEvalReport => r !== null);
+  if (reports.length < 2) return;
+
+  console.log('\nPrompt versions:');
+  for (const report of reports.sort((a, b) => a.runAt.localeCompare(b.runAt))) {
+    const marker = report.promptVersion === current ? ' <- current' : '';
+    console.log(`  ${report.promptVersion}  ${(report.summary.score * 100).toFixed(1)}%  ${report.model}  ${report.runAt}${marker}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const record = args.includes('--record');
+  const minScoreArg = args[args.indexOf('--min-score') + 1];
+  const minScore = args.includes('--min-score') && minScoreArg ? Number(minScoreArg) : null;
+
+  if (record && !process.env.OPENROUTER_API_KEY) {
+    console.error('OPENROUTER_API_KEY is required to record planner replies');
+    process.exit(1);
+  }
+  // The OpenAI client is created at import time and needs a key, even though replays never call it
+  process.env.OPENROUTER_API_KEY ??= 'replay-only';
+
+  // Imported after the key is set
+  const { DEFAULT_MODEL, openRouterPlannerCompletion } = await import('../lib/openai.js');
+  const { getProviders } = await import('../providers/index.js');
+  const { plannerPromptVersion, recordingCompletion, replayCompletion, runPlannerEval } = await import('./planner-eval.js');
+  const { PLANNER_FIXTURES } = await import('./planner-fixtures.js');
+
+  const providers = getProviders();
+  const version = plannerPromptVersion(providers);
+  const recordingsFile = path.join(EVAL_DIR, 'recordings', `${version}.json`);
+  const recorded = await readJson<RecordingFile>(recordingsFile);
+
+  if (!record && !recorded) {
+    console.error(`No recordings for prompt version ${version}. Run with --record to create them.`);
+    process.exit(1);
+  }
+
+  const replies: PlannerRecordings = record ? {} : recorded!.replies;
+  const model = record ? DEFAULT_MODEL : recorded!.model;
+  const report = await runPlannerEval({
+    fixtures: PLANNER_FIXTURES,
+    providers,
+    complete: record ? recordingCompletion(openRouterPlannerCompletion, replies) : replayCompletion(replies),
+    model,
+  });
+
+  if (record) {
+    await writeJson(recordingsFile, { model, recordedAt: report.runAt, replies } satisfies RecordingFile);
+  }
+  await writeJson(path.join(EVAL_DIR, 'reports', `${version}.json`), report);
+
+  printReport(report);
+  await printHistory(version);
+
+  if (minScore !== null && report.summary.score < minScore) {
+    console.error(`\nScore below --min-score ${minScore}`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
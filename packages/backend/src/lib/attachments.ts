@@ -0,0 +1,259 @@
+import { inflateRawSync, inflateSync } from 'node:zlib';
+import type { AttachmentInfo } from '../types/search.js';
+
+// Larger attachments are listed but never downloaded
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Extracted text kept per attachment
+const MAX_ATTACHMENT_CHARS = 8000;
+
+// Attachments downloaded and read per search (per account)
+const MAX_ATTACHMENTS_READ = 3;
+
+// Decompressed bytes allowed per attachment (DOCX document.xml, or all PDF streams together);
+// past this the attachment isn't extracted, so a small compressed bomb can't exhaust memory
+const MAX_INFLATED_BYTES = 8 * 1024 * 1024;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type AttachmentKind = 'text' | 'pdf' | 'docx';
+
+function attachmentKind(mimeType: string, filename: string): AttachmentKind | null {
+  const name = filename.toLowerCase();
+  if (mimeType === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (mimeType === DOCX_MIME_TYPE || name.endsWith('.docx')) return 'docx';
+  if (mimeType.startsWith('text/') || /\.(txt|csv|md|json|ics)$/.test(name)) return 'text';
+  return null;
+}
+
+/**
+ * Whether text can be extracted from this attachment (text, PDF or DOCX within the size limit).
+ */
+export function isExtractable(attachment: AttachmentInfo): boolean {
+  return attachment.size <= MAX_ATTACHMENT_BYTES && attachmentKind(attachment.mimeType, attachment.filename) !== null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read one file out of a ZIP archive (stored or deflated entries) via the central directory.
+ * Returns null for a malformed archive (offsets outside the file) or an unsupported entry;
+ * throws a RangeError when the entry inflates past MAX_INFLATED_BYTES.
+ */
+function readZipEntry(zip: Buffer, entryName: string): Buffer | null {
+  // Whether `length` bytes at `offset` lie inside the archive
+  const fits = (offset: number, length: number) => offset >= 0 && offset + length <= zip.length;
+
+  // End of central directory record: last 22 bytes plus an optional comment of up to 64 KB
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const entries = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entries; i++) {
+    if (!fits(offset, 46) || zip.readUInt32LE(offset) !== 0x02014b50) return null;
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeader = zip.readUInt32LE(offset + 42);
+    if (!fits(offset + 46, nameLength)) return null;
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      if (!fits(localHeader, 30) || zip.readUInt32LE(localHeader) !== 0x04034b50) return null;
+      const localNameLength = zip.readUInt16LE(localHeader + 26);
+      const localExtraLength = zip.readUInt16LE(localHeader + 28);
+      const start = localHeader + 30 + localNameLength + localExtraLength;
+      if (!fits(start, compressedSize)) return null;
+      const data = zip.subarray(start, start + compressedSize);
+      if (method === 0) return data.length <= MAX_INFLATED_BYTES ? data : null;
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+      return null;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+function extractDocxText(data: Buffer): string {
+  const documentXml = readZipEntry(data, 'word/document.xml');
+  if (!documentXml) return '';
+
+  const xml = documentXml.toString('utf8');
+  return decodeXmlEntities(
+    xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+// Decode a PDF literal string body (the part between the parentheses)
+function decodePdfString(raw: string): string {
+  return raw.replace(/\\([0-7]{1,3}|\r?\n|[\s\S])/g, (_, escape: string) => {
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    // Backslash-newline continues the string; any other escaped character stands for itself
+    if (escape.endsWith('\n')) return '';
+    return escapes[escape] ?? escape;
+  });
+}
+
+// Text shown inside one BT ... ET block; line-moving operators become newlines
+function extractTextBlock(block: string): string {
+  const tokens = block.match(/\[(?:\((?:\\.|[^\\)])*\)|[^\]])*\]\s*TJ|\((?:\\.|[^\\)])*\)|T\*|\bT[dD]\b|'|"/g) ?? [];
+  let text = '';
+
+  for (const token of tokens) {
+    if (token.startsWith('[')) {
+      // TJ array: strings interleaved with kerning offsets; a large negative offset is a word gap
+      for (const part of token.match(/\((?:\\.|[^\\)])*\)|-?\d+(?:\.\d+)?/g) ?? []) {
+        if (part.startsWith('(')) text += decodePdfString(part.slice(1, -1));
+        else if (Number(part) < -200) text += ' ';
+      }
+    } else if (token.startsWith('(')) {
+      text += decodePdfString(token.slice(1, -1));
+    } else {
+      text += '\n';
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Best-effort PDF text extraction: inflates content streams and collects the
+ * strings shown by text operators (Tj, TJ, ', "). Handles typical generated
+ * documents (invoices, quotes); PDFs with custom font encodings or scanned
+ * images yield little or nothing.
+ */
+function extractPdfText(data: Buffer): string {
+  const pdf = data.toString('latin1');
+  const chunks: string[] = [];
+  let inflatedBytes = 0;
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(pdf)) !== null) {
+    const start = match.index + match[0].length;
+    const end = pdf.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    const dictionary = match[1] ?? '';
+    // Images, fonts etc. carry no readable text
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C)|\/Length1/.test(dictionary)) continue;
+
+    let content = pdf.slice(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      let inflated: Buffer;
+      try {
+        inflated = inflateSync(Buffer.from(content, 'latin1'), { maxOutputLength: Math.max(1, MAX_INFLATED_BYTES - inflatedBytes) });
+      } catch (error) {
+        // Over the budget: give up on the whole PDF rather than return part of it
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw error;
+        continue;
+      }
+      inflatedBytes += inflated.length;
+      content = inflated.toString('latin1');
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    for (const block of content.match(/BT[\s\S]*?ET/g) ?? []) {
+      const text = extractTextBlock(block);
+      if (text.trim()) chunks.push(text);
+    }
+  }
+
+  return chunks.join('\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Extract readable text from an attachment's bytes. Returns null when the
+ * type isn't supported or nothing could be extracted.
+ */
+export function extractAttachmentText(data: Buffer, attachment: AttachmentInfo): string | null {
+  const kind = attachmentKind(attachment.mimeType, attachment.filename);
+  if (!kind) return null;
+
+  let text: string;
+  try {
+    switch (kind) {
+      case 'text':
+        text = data.toString('utf8');
+        break;
+      case 'docx':
+        text = extractDocxText(data);
+        break;
+      case 'pdf':
+        text = extractPdfText(data);
+        break;
+    }
+  } catch (error) {
+    console.error(`[ATTACHMENTS] Failed to extract text from ${attachment.filename}:`, error);
+    return null;
+  }
+
+  text = text.replace(/\r\n/g, '\n').trim();
+  if (!text) return null;
+  return text.length > MAX_ATTACHMENT_CHARS ? `${text.slice(0, MAX_ATTACHMENT_CHARS)} …[truncated]` : text;
+}
+
+export interface ExtractedAttachment {
+  messageId: string;
+  attachment: AttachmentInfo;
+  text: string;
+}
+
+/**
+ * Download and extract the first few readable attachments of `messages`
+ * (in the given order, so pass the best hits first). Failures are skipped.
+ */
+export async function readAttachments(
+  messages: Array<{ id: string; attachments?: AttachmentInfo[] | undefined }>,
+  download: (messageId: string, attachmentId: string) => Promise<Buffer>,
+  limit: number = MAX_ATTACHMENTS_READ
+): Promise<ExtractedAttachment[]> {
+  const targets = messages
+    .flatMap(message => (message.attachments ?? []).filter(isExtractable).map(attachment => ({ messageId: message.id, attachment })))
+    .slice(0, limit);
+
+  const extracted = await Promise.all(targets.map(async ({ messageId, attachment }) => {
+    try {
+      const text = extractAttachmentText(await download(messageId, attachment.id), attachment);
+      return text ? { messageId, attachment, text } : null;
+    } catch (error) {
+      console.error(`[ATTACHMENTS] Failed to download ${attachment.filename}:`, error);
+      return null;
+    }
+  }));
+
+  return extracted.filter((e): e is ExtractedAttachment => e !== null);
+}
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
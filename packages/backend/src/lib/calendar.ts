@@ -1,33 +1,64 @@
 import { google } from 'googleapis';
-
-const oauth2Client = new google.auth.OAuth2(
-  process.env.GOOGLE_CLIENT_ID,
-  process.env.GOOGLE_CLIENT_SECRET,
-  process.env.GOOGLE_REDIRECT_URI
-);
+import { createGoogleOAuthClient } from './google-auth.js';
 
 export interface CalendarEvent {
   id: string;
   title: string;
   start: string;
   end: string;
+  // "Name <email>" (or just the email) per attendee
   attendees: string[];
+  organizer?: string | undefined;
+  location?: string | undefined;
   description?: string | undefined;
+  htmlLink?: string | undefined;
+  // Name of the calendar the event was found in
+  calendarName?: string | undefined;
+  // Doesn't block time: marked "free" (transparent) or declined by the user
+  free?: boolean | undefined;
 }
 
 export interface CalendarSearchResult {
   events: CalendarEvent[];
+  // false when a calendar couldn't be read or more than maxResults events matched
+  complete: boolean;
+}
+
+export interface CalendarSearchOptions {
+  // Free-text filter (title, description, location, attendees), passed to the API as `q`
+  query?: string | null | undefined;
+  // Events across all calendars; fetched in pages until this many are collected
+  maxResults?: number | undefined;
 }
 
+// Events per events.list request (the API maximum)
+const EVENTS_PAGE_SIZE = 250;
+
+// Default number of events returned across all calendars
+export const DEFAULT_MAX_EVENTS = 100;
+
+// Calendars searched per account (primary first)
+const MAX_CALENDARS = 10;
+
+function formatPerson(person: { displayName?: string | null; email?: string | null }): string | null {
+  if (person.displayName && person.email) return `${person.displayName} <${person.email}>`;
+  return person.email ?? person.displayName ?? null;
+}
+
+/**
+ * List events from all of the user's (non-hidden) calendars within the time window,
+ * ordered by start time. `timeMin` / `timeMax` default to the past week / next week;
+ * pass null for an open bound.
+ */
 export async function getCalendarEvents(
   accessToken: string,
-  timeMin?: Date,
-  timeMax?: Date,
-  maxResults: number = 20
+  timeMin?: Date | null,
+  timeMax?: Date | null,
+  options: CalendarSearchOptions = {}
 ): Promise<CalendarSearchResult> {
-  oauth2Client.setCredentials({ access_token: accessToken });
   
-  const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+  const calendar = google.calendar({ version: 'v3', auth: createGoogleOAuthClient({ access_token: accessToken }) });
+  const maxResults = options.maxResults ?? DEFAULT_MAX_EVENTS;
   
   // Default to events from the past week to next week
   const defaultTimeMin = new Date();
@@ -35,35 +66,88 @@ export async function getCalendarEvents(
   
   const defaultTimeMax = new Date();
   defaultTimeMax.setDate(defaultTimeMax.getDate() + 7);
-  
-  const response = await calendar.events.list({
-    calendarId: 'primary',
-    timeMin: (timeMin ?? defaultTimeMin).toISOString(),
-    timeMax: (timeMax ?? defaultTimeMax).toISOString(),
-    maxResults,
-    singleEvents: true,
-    orderBy: 'startTime',
-  });
-  
-  const events = response.data.items ?? [];
-  
+
+  const start = timeMin === undefined ? defaultTimeMin : timeMin;
+  const end = timeMax === undefined ? defaultTimeMax : timeMax;
+
+  const calendarList = await calendar.calendarList.list({ minAccessRole: 'reader' });
+  const calendars = (calendarList.data.items ?? [])
+    .filter(c => c.id && !c.hidden && !c.deleted)
+    .sort((a, b) => Number(!!b.primary) - Number(!!a.primary))
+    .slice(0, MAX_CALENDARS);
+
+  let complete = true;
+  const perCalendar = await Promise.all(calendars.map(async (cal): Promise<CalendarEvent[]> => {
+    const events: CalendarEvent[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await calendar.events.list({
+          calendarId: cal.id!,
+          ...(start ? { timeMin: start.toISOString() } : {}),
+          ...(end ? { timeMax: end.toISOString() } : {}),
+          ...(options.query ? { q: options.query } : {}),
+          ...(pageToken ? { pageToken } : {}),
+          maxResults: Math.min(EVENTS_PAGE_SIZE, maxResults - events.length),
+          singleEvents: true,
+          orderBy: 'startTime',
+        });
+
+        for (const event of response.data.items ?? []) {
+          if (event.status === 'cancelled') continue;
+          events.push({
+            id: event.id ?? '',
+            title: event.summary ?? 'No title',
+            start: event.start?.dateTime ?? event.start?.date ?? '',
+            end: event.end?.dateTime ?? event.end?.date ?? '',
+            attendees: (event.attendees ?? [])
+              .filter(a => !a.resource)
+              .map(formatPerson)
+              .filter((attendee): attendee is string => Boolean(attendee)),
+            organizer: event.organizer ? formatPerson(event.organizer) ?? undefined : undefined,
+            location: event.location ?? undefined,
+            description: event.description ?? undefined,
+            htmlLink: event.htmlLink ?? undefined,
+            calendarName: cal.summaryOverride ?? cal.summary ?? undefined,
+            free: event.transparency === 'transparent'
+              || event.attendees?.some(a => a.self && a.responseStatus === 'declined')
+              || undefined,
+          });
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken && events.length < maxResults);
+      if (pageToken) complete = false;
+    } catch (error) {
+      // One unreadable calendar (e.g. a removed subscription) shouldn't fail the rest
+      console.error(`[CALENDAR] Failed to list events for calendar ${cal.id}:`, error);
+      complete = false;
+    }
+
+    return events;
+  }));
+
+  // The same meeting shows up in every calendar that has it (shared / delegated calendars)
+  const seen = new Set<string>();
+  const events = perCalendar
+    .flat()
+    .filter(event => {
+      const key = `${event.id}|${event.start}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
   return {
-    events: events.map((event): CalendarEvent => ({
-      id: event.id ?? '',
-      title: event.summary ?? 'No title',
-      start: event.start?.dateTime ?? event.start?.date ?? '',
-      end: event.end?.dateTime ?? event.end?.date ?? '',
-      attendees: (event.attendees ?? [])
-        .map(a => a.email)
-        .filter((email): email is string => Boolean(email)),
-      description: event.description ?? undefined,
-    })),
+    events: events.slice(0, maxResults),
+    complete: complete && events.length <= maxResults,
   };
 }
 
 // Get Calendar auth URL for OAuth flow  
 export function getCalendarAuthUrl(state: string): string {
-  return oauth2Client.generateAuthUrl({
+  return createGoogleOAuthClient().generateAuthUrl({
     access_type: 'offline',
     scope: ['https://www.googleapis.com/auth/calendar.readonly'],
     state,
@@ -73,7 +157,7 @@ export function getCalendarAuthUrl(state: string): string {
 
 // Combined auth URL for both Gmail and Calendar
 export function getGoogleAuthUrl(state: string): string {
-  return oauth2Client.generateAuthUrl({
+  return createGoogleOAuthClient().generateAuthUrl({
     access_type: 'offline',
     scope: [
       'https://www.googleapis.com/auth/gmail.readonly',
@@ -81,7 +165,8 @@ export function getGoogleAuthUrl(state: string): string {
       'https://www.googleapis.com/auth/userinfo.email',
     ],
     state,
-    prompt: 'consent',
+    // Let the user pick which account to add when several are signed in
+    prompt: 'select_account consent',
   });
 }
 
@@ -91,7 +176,7 @@ export async function exchangeCodeForTokens(code: string): Promise<{
   refresh_token?: string | null;
   expiry_date?: number | null;
 }> {
-  const response = await oauth2Client.getToken(code);
+  const response = await createGoogleOAuthClient().getToken(code);
   console.log('[CALENDAR] getToken response:', {
     hasTokens: !!response.tokens,
     tokenKeys: response.tokens ? Object.keys(response.tokens) : [],
@@ -106,8 +191,8 @@ export async function refreshAccessToken(refreshToken: string): Promise<{
   access_token: string | null;
   expiry_date: number | null;
 }> {
-  oauth2Client.setCredentials({ refresh_token: refreshToken });
-  const { credentials } = await oauth2Client.refreshAccessToken();
+  const client = createGoogleOAuthClient({ refresh_token: refreshToken });
+  const { credentials } = await client.refreshAccessToken();
   return {
     access_token: credentials.access_token ?? null,
     expiry_date: credentials.expiry_date ?? null,
@@ -0,0 +1,54 @@
+/**
+ * Contacts synced from messaging sources, used to resolve message senders
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types/database.js';
+
+type ContactRow = Database['public']['Tables']['contacts']['Row'];
+export type ResolvedContact = Pick<ContactRow, 'id' | 'external_id' | 'display_name'>;
+
+/**
+ * Phone number (digits, with country code) of a WhatsApp user id like `919876543210@c.us`.
+ * Groups (`@g.us`) and other ids have none.
+ */
+export function whatsappPhone(waId: string): string | null {
+  const match = /^(\d+)@c\.us$/.exec(waId);
+  return match ? match[1]! : null;
+}
+
+/**
+ * Distinct, non-empty names in the order given
+ */
+export function contactNames(...names: Array<string | null | undefined>): string[] {
+  const seen = new Set<string>();
+  for (const name of names) {
+    const trimmed = name?.trim();
+    if (trimmed) seen.add(trimmed);
+  }
+  return [...seen];
+}
+
+/**
+ * The user's contacts from `source` with the given external ids, keyed by external id
+ */
+export async function findContacts(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  source: string,
+  externalIds: string[]
+): Promise<Map<string, ResolvedContact>> {
+  const contacts = new Map<string, ResolvedContact>();
+  if (externalIds.length === 0) return contacts;
+
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('id, external_id, display_name')
+    .eq('user_id', userId)
+    .eq('source', source)
+    .in('external_id', externalIds);
+
+  if (error) throw error;
+  for (const contact of data ?? []) contacts.set(contact.external_id, contact);
+  return contacts;
+}
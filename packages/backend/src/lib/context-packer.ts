@@ -0,0 +1,161 @@
+import type { SearchHit } from '../types/search.js';
+import { estimateTokens, truncateToTokens } from './tokens.js';
+
+// Token budget for all search results in the synthesizer prompt (override with SYNTHESIZER_CONTEXT_TOKENS)
+const DEFAULT_CONTEXT_TOKENS = 12000;
+
+// No single hit may take more than this, so one long thread can't crowd out everything else
+const MAX_HIT_TOKENS = 2500;
+
+// Below this a truncated hit isn't worth including
+const MIN_HIT_TOKENS = 100;
+
+// Each hit already taken from a source scales that source's next candidate by this factor
+const SOURCE_DIVERSITY_DECAY = 0.85;
+
+// Word-set overlap above which two snippets count as the same content
+const DUPLICATE_SIMILARITY = 0.9;
+
+export interface OmittedHit {
+  id: string;
+  source: SearchHit['source'];
+  reason: 'duplicate' | 'budget';
+}
+
+export interface PackedContext {
+  // In priority order; long contents may have been truncated
+  hits: SearchHit[];
+  omitted: OmittedHit[];
+  // Ids of hits whose content was cut down to fit
+  truncated: string[];
+  estimatedTokens: number;
+}
+
+export interface PackOptions {
+  tokenBudget?: number | undefined;
+  maxHitTokens?: number | undefined;
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// Hits can only be duplicates of each other when these match exactly
+function duplicateKey(hit: SearchHit): string {
+  const subject = hit.metadata.subject?.trim().toLowerCase() ?? '';
+  return JSON.stringify([hit.source, subject, hit.metadata.date ?? '']);
+}
+
+/**
+ * Drop hits whose content is (near-)identical to a more relevant hit of the
+ * same source, subject and date, e.g. the same email found in two accounts.
+ */
+function deduplicate(hits: SearchHit[]): { unique: SearchHit[]; duplicates: SearchHit[] } {
+  const unique: SearchHit[] = [];
+  const kept = new Map<string, Set<string>[]>();
+  const duplicates: SearchHit[] = [];
+
+  for (const hit of [...hits].sort((a, b) => b.relevance - a.relevance)) {
+    const words = contentWords(hit.content);
+    // Counts from different accounts read alike but are all needed, and empty
+    // contents say nothing about whether two hits are the same
+    if (hit.metadata.count || words.size === 0) {
+      unique.push(hit);
+      continue;
+    }
+
+    const key = duplicateKey(hit);
+    const candidates = kept.get(key) ?? [];
+    if (candidates.some(keptWords => jaccard(keptWords, words) >= DUPLICATE_SIMILARITY)) {
+      duplicates.push(hit);
+    } else {
+      unique.push(hit);
+      kept.set(key, [...candidates, words]);
+    }
+  }
+
+  return { unique, duplicates };
+}
+
+/**
+ * Order hits by relevance while spreading picks across sources: each hit
+ * already taken from a source makes that source's next hit count for less.
+ */
+function prioritize(hits: SearchHit[]): SearchHit[] {
+  const bySource = new Map<string, SearchHit[]>();
+  for (const hit of [...hits].sort((a, b) => b.relevance - a.relevance)) {
+    const list = bySource.get(hit.source) ?? [];
+    list.push(hit);
+    bySource.set(hit.source, list);
+  }
+
+  const taken = new Map<string, number>();
+  const ordered: SearchHit[] = [];
+
+  while (ordered.length < hits.length) {
+    let best: { source: string; score: number } | null = null;
+    for (const [source, list] of bySource) {
+      const next = list[0];
+      if (!next) continue;
+      const score = next.relevance * SOURCE_DIVERSITY_DECAY ** (taken.get(source) ?? 0);
+      if (!best || score > best.score) best = { source, score };
+    }
+    if (!best) break;
+
+    ordered.push(bySource.get(best.source)!.shift()!);
+    taken.set(best.source, (taken.get(best.source) ?? 0) + 1);
+  }
+
+  return ordered;
+}
+
+export function getContextTokenBudget(): number {
+  const configured = Number(process.env.SYNTHESIZER_CONTEXT_TOKENS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CONTEXT_TOKENS;
+}
+
+/**
+ * Select the search results that go into the synthesizer prompt:
+ * deduplicate, prioritize by relevance and source diversity, truncate
+ * long hits and stop at the token budget. `formatHit` must render a hit
+ * exactly as it will appear in the prompt, so its metadata is counted too.
+ */
+export function packContext(
+  results: SearchHit[],
+  formatHit: (hit: SearchHit) => string,
+  options: PackOptions = {}
+): PackedContext {
+  const tokenBudget = options.tokenBudget ?? getContextTokenBudget();
+  const maxHitTokens = options.maxHitTokens ?? MAX_HIT_TOKENS;
+
+  const { unique, duplicates } = deduplicate(results);
+  const omitted: OmittedHit[] = duplicates.map(hit => ({ id: hit.id, source: hit.source, reason: 'duplicate' }));
+  const truncated: string[] = [];
+  const hits: SearchHit[] = [];
+  let remaining = tokenBudget;
+
+  for (const hit of prioritize(unique)) {
+    const overhead = estimateTokens(formatHit({ ...hit, content: '' }));
+    const contentBudget = Math.min(maxHitTokens, remaining - overhead);
+
+    if (contentBudget < Math.min(MIN_HIT_TOKENS, estimateTokens(hit.content))) {
+      omitted.push({ id: hit.id, source: hit.source, reason: 'budget' });
+      continue;
+    }
+
+    const content = truncateToTokens(hit.content, contentBudget);
+    if (content !== hit.content) truncated.push(hit.id);
+
+    const packed = content === hit.content ? hit : { ...hit, content };
+    hits.push(packed);
+    remaining -= estimateTokens(formatHit(packed));
+  }
+
+  return { hits, omitted, truncated, estimatedTokens: tokenBudget - remaining };
+}
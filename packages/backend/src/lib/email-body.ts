@@ -0,0 +1,116 @@
+import type { gmail_v1 } from 'googleapis';
+import type { AttachmentInfo } from '../types/search.js';
+
+/**
+ * Decode Gmail's base64url-encoded body data.
+ */
+function decodeBase64Url(data: string): string {
+  return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+}
+
+/**
+ * Crude HTML to text: drops scripts/styles/tags, keeps line structure, decodes common entities.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    // Quoted history in HTML mails; stripped like '>' quotes in plain text
+    .replace(/<blockquote[^>]*>[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function findPart(part: gmail_v1.Schema$MessagePart | undefined, mimeType: string): gmail_v1.Schema$MessagePart | null {
+  if (!part) return null;
+  // Attachments are never the body
+  if (part.mimeType === mimeType && part.body?.data && !part.filename) return part;
+  for (const child of part.parts ?? []) {
+    const found = findPart(child, mimeType);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Plain-text body of a Gmail message: text/plain if present, otherwise text/html converted to text.
+ */
+export function extractPlainText(payload: gmail_v1.Schema$MessagePart | undefined): string {
+  const plain = findPart(payload, 'text/plain');
+  if (plain?.body?.data) return decodeBase64Url(plain.body.data).replace(/\r\n/g, '\n').trim();
+
+  const html = findPart(payload, 'text/html');
+  if (html?.body?.data) return htmlToText(decodeBase64Url(html.body.data));
+
+  return '';
+}
+
+/**
+ * Files attached to a Gmail message (parts with a filename and a downloadable body).
+ */
+export function listAttachments(payload: gmail_v1.Schema$MessagePart | undefined): AttachmentInfo[] {
+  if (!payload) return [];
+  const attachments: AttachmentInfo[] = [];
+
+  if (payload.filename && payload.body?.attachmentId) {
+    attachments.push({
+      id: payload.body.attachmentId,
+      filename: payload.filename,
+      mimeType: payload.mimeType ?? 'application/octet-stream',
+      size: payload.body.size ?? 0,
+    });
+  }
+  for (const part of payload.parts ?? []) {
+    attachments.push(...listAttachments(part));
+  }
+
+  return attachments;
+}
+
+// Lines that start the quoted copy of earlier messages in a reply
+const QUOTE_HEADERS = [
+  /^On .+wrote:\s*$/i,                        // Gmail / Apple Mail
+  /^-{2,}\s*Original Message\s*-{2,}/i,       // Outlook
+  /^-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^From:\s.+$/i,                             // Outlook header block ("From: ... Sent: ...")
+  /^_{10,}$/,                                 // Outlook separator line
+];
+
+/**
+ * Remove quoted earlier messages from a reply so each message in a thread is only read once.
+ * Drops '>'-quoted lines and everything from the first reply header onwards.
+ */
+export function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const trimmed = line.trim();
+
+    // "On Mon, Jan 5, 2026 at 10:00 AM John <j@x.com>" is often wrapped onto two lines
+    const joined = `${trimmed} ${lines[i + 1]?.trim() ?? ''}`;
+    if (QUOTE_HEADERS.some(pattern => pattern.test(trimmed)) || /^On .+wrote:\s*$/i.test(joined)) {
+      // Only treat "From:" as a header when it's followed by the rest of a header block
+      if (/^From:/i.test(trimmed) && !/^(Sent|Date|To):/i.test(lines[i + 1]?.trim() ?? '')) {
+        kept.push(line);
+        continue;
+      }
+      break;
+    }
+
+    if (trimmed.startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,36 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EMBEDDING_DIMENSIONS, HashEmbeddingBackend } from './embeddings.js';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i]!, 0);
+
+describe('HashEmbeddingBackend', () => {
+  const backend = new HashEmbeddingBackend();
+
+  test('embeds the same text to the same vector across instances', async () => {
+    const [first] = await backend.embed(['Dinner at Priya\'s on Friday']);
+    const [second] = await new HashEmbeddingBackend().embed(['Dinner at Priya\'s on Friday']);
+
+    assert.equal(first!.length, EMBEDDING_DIMENSIONS);
+    assert.deepEqual(first, second);
+  });
+
+  test('vectors are unit length, and empty text is all zeros', async () => {
+    const [text, empty] = await backend.embed(['quarterly board meeting', '  ']);
+
+    assert.ok(Math.abs(cosine(text!, text!) - 1) < 1e-9);
+    assert.ok(empty!.every(v => v === 0));
+  });
+
+  test('ignores case and punctuation, and ranks word overlap above unrelated text', async () => {
+    const [query, same, overlap, unrelated] = await backend.embed([
+      'flight to Lisbon',
+      'Flight to LISBON!',
+      'the Lisbon flight is delayed',
+      'invoice for March',
+    ]);
+
+    assert.deepEqual(same, query);
+    assert.ok(cosine(query!, overlap!) > cosine(query!, unrelated!));
+  });
+});
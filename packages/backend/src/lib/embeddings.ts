@@ -0,0 +1,160 @@
+import OpenAI from 'openai';
+import { createHash } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FastifyBaseLogger } from 'fastify';
+
+// Must match the vector(...) size of synced_messages.embedding
+export const EMBEDDING_DIMENSIONS = 384;
+
+/**
+ * Turns text into fixed-size vectors for semantic search.
+ */
+export interface EmbeddingBackend {
+  // Stored alongside each vector so embeddings from different models are never compared
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Any OpenAI-compatible /embeddings endpoint. Point EMBEDDING_BASE_URL at a
+ * local server (Ollama, LM Studio, text-embeddings-inference, ...) to keep
+ * message content on your own infrastructure.
+ */
+export class OpenAICompatibleEmbeddingBackend implements EmbeddingBackend {
+  readonly id: string;
+  private client: OpenAI;
+
+  constructor(baseURL: string, private model: string, apiKey?: string) {
+    this.id = `openai-compatible:${model}`;
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || 'not-needed' });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    const vectors = response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    for (const vector of vectors) {
+      if (vector.length !== EMBEDDING_DIMENSIONS) {
+        throw new Error(`Embedding model ${this.model} returned ${vector.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+      }
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Deterministic, network-free backend using the hashing trick over word tokens.
+ * Only captures word overlap, not meaning: meant for tests and local development.
+ */
+export class HashEmbeddingBackend implements EmbeddingBackend {
+  readonly id = 'hash';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+      for (const token of tokens) {
+        const digest = createHash('sha256').update(token).digest();
+        const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+        const sign = (digest[4]! & 1) === 0 ? 1 : -1;
+        vector[index]! += sign;
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+      return norm > 0 ? vector.map(v => v / norm) : vector;
+    });
+  }
+}
+
+let backend: EmbeddingBackend | null | undefined;
+
+/**
+ * The configured embedding backend, or null when semantic search is disabled.
+ * EMBEDDING_BACKEND=openai-compatible (with EMBEDDING_BASE_URL / EMBEDDING_MODEL) or hash.
+ */
+export function getEmbeddingBackend(): EmbeddingBackend | null {
+  if (backend !== undefined) return backend;
+
+  switch (process.env.EMBEDDING_BACKEND) {
+    case 'openai-compatible': {
+      const baseURL = process.env.EMBEDDING_BASE_URL;
+      const model = process.env.EMBEDDING_MODEL;
+      if (!baseURL || !model) {
+        console.error('[EMBEDDINGS] EMBEDDING_BASE_URL and EMBEDDING_MODEL are required, semantic search disabled');
+        backend = null;
+      } else {
+        backend = new OpenAICompatibleEmbeddingBackend(baseURL, model, process.env.EMBEDDING_API_KEY);
+      }
+      break;
+    }
+    case 'hash':
+      backend = new HashEmbeddingBackend();
+      break;
+    default:
+      backend = null;
+  }
+
+  return backend;
+}
+
+/**
+ * Override the backend (tests, scripts). Pass null to disable semantic search.
+ */
+export function setEmbeddingBackend(override: EmbeddingBackend | null): void {
+  backend = override;
+}
+
+// pgvector accepts vectors in their text form: [0.1,0.2,...]
+export function toPgVector(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+// Max texts per embedding request
+const EMBED_BATCH_SIZE = 64;
+
+/**
+ * Embed newly synced messages and store the vectors. Messages without text are skipped.
+ * No-op when no embedding backend is configured.
+ */
+export async function embedSyncedMessages(
+  supabaseAdmin: SupabaseClient,
+  messages: Array<{ id: string; content: string | null }>,
+  logger: FastifyBaseLogger
+): Promise<number> {
+  const embeddingBackend = getEmbeddingBackend();
+  if (!embeddingBackend) return 0;
+
+  const withText = messages.filter(m => m.content && m.content.trim().length > 0);
+  let embedded = 0;
+
+  for (let i = 0; i < withText.length; i += EMBED_BATCH_SIZE) {
+    const batch = withText.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await embeddingBackend.embed(batch.map(m => m.content!));
+
+    const results = await Promise.all(batch.map((message, index) =>
+      supabaseAdmin
+        .from('synced_messages')
+        .update({
+          embedding: toPgVector(vectors[index]!),
+          embedding_model: embeddingBackend.id,
+        })
+        .eq('id', message.id)
+    ));
+
+    for (const { error } of results) {
+      if (error) logger.error(error, 'Failed to store message embedding');
+      else embedded++;
+    }
+  }
+
+  return embedded;
+}
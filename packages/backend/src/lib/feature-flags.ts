@@ -4,6 +4,7 @@
  */
 
 import { supabaseAdmin } from './supabase.js';
+import { getDefaultHistoryWindowDays } from './history-window.js';
 
 export interface FeatureFlags {
   // Extension-based sources
@@ -16,6 +17,9 @@ export interface FeatureFlags {
 
   // Response mode: sync (Gmail only) vs async (with extension)
   enableAsyncMode: boolean;
+
+  // Retrieval lookback in days when the question names no time range (0 = no limit)
+  historyWindowDays: number;
 }
 
 // Default flags (fallback when DB unavailable)
@@ -25,6 +29,7 @@ const DEFAULT_FLAGS: FeatureFlags = {
   enableGmail: true,
   enableOutlook: true,
   enableAsyncMode: false,
+  historyWindowDays: 0, // replaced by getDefaultHistoryWindowDays() when flags are read
 };
 
 // Environment variable overrides (highest priority)
@@ -60,8 +65,8 @@ const CACHE_TTL = 60000; // 1 minute cache
  * Priority: Environment vars > Database (user-specific) > Database (global) > Defaults
  */
 export async function getFeatureFlags(userId?: string): Promise<FeatureFlags> {
-  // Start with defaults
-  let flags = { ...DEFAULT_FLAGS };
+  // Start with defaults (HISTORY_WINDOW_DAYS only changes the default, users can still override it)
+  let flags = { ...DEFAULT_FLAGS, historyWindowDays: getDefaultHistoryWindowDays() };
   
   // Try to get from database if admin client is available
   if (supabaseAdmin) {
@@ -86,6 +91,7 @@ export async function getFeatureFlags(userId?: string): Promise<FeatureFlags> {
             enableGmail: gf.enable_gmail ?? DEFAULT_FLAGS.enableGmail,
             enableOutlook: gf.enable_outlook ?? DEFAULT_FLAGS.enableOutlook,
             enableAsyncMode: gf.enable_async_mode ?? DEFAULT_FLAGS.enableAsyncMode,
+            historyWindowDays: gf.history_window_days ?? getDefaultHistoryWindowDays(),
           };
           
           // Update cache
@@ -119,6 +125,9 @@ export async function getFeatureFlags(userId?: string): Promise<FeatureFlags> {
           if (uf.enable_async_mode !== null) {
             flags.enableAsyncMode = uf.enable_async_mode;
           }
+          if (uf.history_window_days !== null && uf.history_window_days !== undefined) {
+            flags.historyWindowDays = uf.history_window_days;
+          }
         }
       }
     } catch (error) {
@@ -0,0 +1,136 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { busyIntervals, findFreeSlots, type FreeSlotOptions } from './free-busy.js';
+import type { SearchHit } from '../types/search.js';
+
+const EVERY_DAY = { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5, 6, 7] };
+
+function options(overrides: Partial<FreeSlotOptions> & Pick<FreeSlotOptions, 'startDate' | 'endDate' | 'timeZone'>): FreeSlotOptions {
+  return { workingHours: EVERY_DAY, notBefore: new Date(0), ...overrides };
+}
+
+function event(date: string, dateEnd: string): SearchHit {
+  return { id: date, source: 'calendar', content: '', metadata: { date, dateEnd }, relevance: 1 };
+}
+
+describe('findFreeSlots', () => {
+  test('working hours are the local day in UTC+14, which starts on the previous UTC date', () => {
+    const slots = findFreeSlots([], options({ startDate: '2026-06-16', endDate: '2026-06-16', timeZone: 'Pacific/Kiritimati' }));
+
+    assert.deepEqual(slots, [{
+      start: '2026-06-15T19:00:00.000Z',
+      end: '2026-06-16T03:00:00.000Z',
+      durationMinutes: 480,
+      date: '2026-06-16',
+    }]);
+  });
+
+  test('working hours in UTC-12 run into the next UTC date', () => {
+    const slots = findFreeSlots([], options({ startDate: '2026-06-16', endDate: '2026-06-16', timeZone: 'Etc/GMT+12' }));
+
+    assert.equal(slots.length, 1);
+    assert.equal(slots[0]!.start, '2026-06-16T21:00:00.000Z');
+    assert.equal(slots[0]!.end, '2026-06-17T05:00:00.000Z');
+    assert.equal(slots[0]!.date, '2026-06-16');
+  });
+
+  test('an event across local midnight splits into each local day', () => {
+    const busy = [{ start: Date.parse('2026-06-16T22:00:00+14:00'), end: Date.parse('2026-06-17T02:00:00+14:00') }];
+    const slots = findFreeSlots(busy, options({
+      startDate: '2026-06-16',
+      endDate: '2026-06-17',
+      timeZone: 'Pacific/Kiritimati',
+      timeOfDay: { start: '20:00', end: '23:59' },
+    }));
+
+    assert.deepEqual(slots.map(slot => [slot.date, slot.start, slot.end]), [
+      ['2026-06-16', '2026-06-16T06:00:00.000Z', '2026-06-16T08:00:00.000Z'],
+      ['2026-06-17', '2026-06-17T06:00:00.000Z', '2026-06-17T09:59:00.000Z'],
+    ]);
+  });
+
+  test('the free time after a late event is dated on the local day it falls on', () => {
+    const busy = [{ start: Date.parse('2026-06-16T22:00:00+14:00'), end: Date.parse('2026-06-17T02:00:00+14:00') }];
+    const slots = findFreeSlots(busy, options({
+      startDate: '2026-06-17',
+      endDate: '2026-06-17',
+      timeZone: 'Pacific/Kiritimati',
+      timeOfDay: { start: '00:00', end: '04:00' },
+    }));
+
+    assert.deepEqual(slots.map(slot => [slot.date, slot.start, slot.end]), [
+      ['2026-06-17', '2026-06-16T12:00:00.000Z', '2026-06-16T14:00:00.000Z'],
+    ]);
+  });
+
+  test('the hour skipped by spring-forward is not free time', () => {
+    const slots = findFreeSlots([], options({
+      startDate: '2026-03-08',
+      endDate: '2026-03-08',
+      timeZone: 'America/New_York',
+      timeOfDay: { start: '01:00', end: '04:00' },
+    }));
+
+    assert.equal(slots.length, 1);
+    assert.equal(slots[0]!.durationMinutes, 120);
+  });
+
+  test('the hour repeated by fall-back is free twice', () => {
+    const slots = findFreeSlots([], options({
+      startDate: '2026-11-01',
+      endDate: '2026-11-01',
+      timeZone: 'America/New_York',
+      timeOfDay: { start: '00:00', end: '03:00' },
+    }));
+
+    assert.equal(slots.length, 1);
+    assert.equal(slots[0]!.durationMinutes, 240);
+  });
+
+  test('working days are the user\'s local weekdays', () => {
+    // Saturday 2026-06-13 in UTC+14 starts at 10:00 UTC on Friday
+    const weekdays = { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] };
+    const slots = findFreeSlots([], options({
+      startDate: '2026-06-12',
+      endDate: '2026-06-13',
+      timeZone: 'Pacific/Kiritimati',
+      workingHours: weekdays,
+    }));
+
+    assert.deepEqual(slots.map(slot => slot.date), ['2026-06-12']);
+  });
+
+  test('no slots before notBefore late in the working day', () => {
+    // 16:30 local in UTC+14: only the last half hour of today's working hours is left
+    const slots = findFreeSlots([], options({
+      startDate: '2026-06-16',
+      endDate: '2026-06-16',
+      timeZone: 'Pacific/Kiritimati',
+      notBefore: new Date('2026-06-16T02:30:00Z'),
+    }));
+
+    assert.deepEqual(slots.map(slot => [slot.start, slot.durationMinutes]), [['2026-06-16T02:30:00.000Z', 30]]);
+  });
+});
+
+describe('busyIntervals', () => {
+  test('all-day events block the whole local day', () => {
+    const [interval] = busyIntervals([event('2026-06-16', '2026-06-17')], 'Pacific/Kiritimati');
+
+    assert.equal(new Date(interval!.start).toISOString(), '2026-06-15T10:00:00.000Z');
+    assert.equal(new Date(interval!.end).toISOString(), '2026-06-16T10:00:00.000Z');
+  });
+
+  test('an all-day event on a DST day lasts that day\'s 23 hours', () => {
+    const [interval] = busyIntervals([event('2026-03-08', '2026-03-09')], 'America/New_York');
+
+    assert.equal((interval!.end - interval!.start) / 3_600_000, 23);
+  });
+
+  test('an all-day event leaves the neighbouring local days free', () => {
+    const busy = busyIntervals([event('2026-06-16', '2026-06-17')], 'Etc/GMT+12');
+    const slots = findFreeSlots(busy, options({ startDate: '2026-06-15', endDate: '2026-06-17', timeZone: 'Etc/GMT+12' }));
+
+    assert.deepEqual(slots.map(slot => slot.date), ['2026-06-15', '2026-06-17']);
+  });
+});
@@ -0,0 +1,117 @@
+import type { FreeSlot, SearchHit, WorkingHours } from '../types/search.js';
+import { addDays, zonedDateString, zonedDateTimeToUtc, zonedParts } from './time-zone.js';
+
+// Shortest gap worth offering when the question doesn't say how long
+export const DEFAULT_SLOT_MINUTES = 30;
+
+// Slots returned per question; the earliest ones are kept
+const MAX_SLOTS = 20;
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+export interface Interval {
+  start: number; // epoch ms
+  end: number;
+}
+
+export interface FreeSlotOptions {
+  // Local dates (YYYY-MM-DD, inclusive) to look in
+  startDate: string;
+  endDate: string;
+  timeZone: string;
+  workingHours: WorkingHours;
+  // Explicit local time window from the question ("afternoon" = 12:00-17:00); replaces working hours and days
+  timeOfDay?: { start: string; end: string } | null | undefined;
+  minDurationMinutes?: number | undefined;
+  // No slots before this instant (defaults to now)
+  notBefore?: Date | undefined;
+}
+
+/**
+ * Busy time of calendar hits: events marked free (transparent, declined, "show as free")
+ * don't count. All-day events (date-only) block their whole local days.
+ */
+export function busyIntervals(hits: SearchHit[], timeZone: string): Interval[] {
+  const intervals: Interval[] = [];
+
+  for (const hit of hits) {
+    if (hit.source !== 'calendar' || hit.metadata.free || !hit.metadata.date) continue;
+    const { date, dateEnd } = hit.metadata;
+
+    const allDay = /^\d{4}-\d{2}-\d{2}$/.test(date);
+    const start = allDay ? zonedDateTimeToUtc(date, '00:00', timeZone).getTime() : new Date(date).getTime();
+    const end = allDay
+      ? zonedDateTimeToUtc(dateEnd && /^\d{4}-\d{2}-\d{2}$/.test(dateEnd) ? dateEnd : addDays(date, 1), '00:00', timeZone).getTime()
+      : new Date(dateEnd ?? date).getTime();
+
+    if (Number.isNaN(start) || Number.isNaN(end) || end <= start) continue;
+    intervals.push({ start, end });
+  }
+
+  return mergeIntervals(intervals);
+}
+
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Free slots between `busy` intervals, within working hours (or the requested
+ * time of day) on each local day of the range, in the user's time zone.
+ */
+export function findFreeSlots(busy: Interval[], options: FreeSlotOptions): FreeSlot[] {
+  const minDuration = (options.minDurationMinutes ?? DEFAULT_SLOT_MINUTES) * 60 * 1000;
+  const notBefore = (options.notBefore ?? new Date()).getTime();
+  const window = options.timeOfDay ?? options.workingHours;
+  const merged = mergeIntervals(busy);
+  const slots: FreeSlot[] = [];
+
+  for (let day = options.startDate; day <= options.endDate && slots.length < MAX_SLOTS; day = addDays(day, 1)) {
+    const dayStart = zonedDateTimeToUtc(day, '00:00', options.timeZone);
+    const weekday = zonedParts(dayStart, options.timeZone).weekday;
+    // A time of day asked for explicitly applies to every day in the range
+    if (!options.timeOfDay && !options.workingHours.days.includes(weekday)) continue;
+
+    let cursor = Math.max(zonedDateTimeToUtc(day, window.start, options.timeZone).getTime(), notBefore);
+    const windowEnd = zonedDateTimeToUtc(day, window.end, options.timeZone).getTime();
+
+    for (const interval of merged) {
+      if (interval.end <= cursor) continue;
+      if (interval.start >= windowEnd) break;
+      if (interval.start - cursor >= minDuration) {
+        slots.push(toSlot(cursor, interval.start, options.timeZone));
+      }
+      cursor = Math.max(cursor, interval.end);
+    }
+    if (windowEnd - cursor >= minDuration) {
+      slots.push(toSlot(cursor, windowEnd, options.timeZone));
+    }
+  }
+
+  return slots.slice(0, MAX_SLOTS);
+}
+
+function toSlot(start: number, end: number, timeZone: string): FreeSlot {
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    durationMinutes: Math.round((end - start) / 60000),
+    date: zonedDateString(new Date(start), timeZone),
+  };
+}
@@ -1,10 +1,9 @@
 import { google } from 'googleapis';
-
-const oauth2Client = new google.auth.OAuth2(
-  process.env.GOOGLE_CLIENT_ID,
-  process.env.GOOGLE_CLIENT_SECRET,
-  process.env.GOOGLE_REDIRECT_URI
-);
+import { createGoogleOAuthClient } from './google-auth.js';
+import { extractPlainText, listAttachments, stripQuotedReply } from './email-body.js';
+import { historyWindowStart } from './history-window.js';
+import type { FastifyBaseLogger } from 'fastify';
+import type { AttachmentInfo, ResultCount } from '../types/search.js';
 
 export interface GmailMessage {
   id: string;
@@ -14,49 +13,71 @@ export interface GmailMessage {
   to: string;
   subject: string;
   date: string;
+  attachments: AttachmentInfo[];
+  // Full thread text (bodies, quotes stripped), only set in deep-read mode
+  body?: string | undefined;
+}
+
+export interface DeepReadOptions {
+  // How many of the top messages get their thread read
+  maxThreads: number;
+  // Character budget per thread and across all threads
+  maxThreadChars: number;
+  maxTotalChars: number;
 }
 
+export const DEFAULT_DEEP_READ_OPTIONS: DeepReadOptions = {
+  maxThreads: 3,
+  maxThreadChars: 8000,
+  maxTotalChars: 20000,
+};
+
 export interface GmailSearchResult {
   messages: GmailMessage[];
   nextPageToken?: string | undefined;
 }
 
-// Calculate date 6 months ago for query cap
-function getSixMonthsAgo(): string {
-  const date = new Date();
-  date.setMonth(date.getMonth() - 6);
-  return date.toISOString().split('T')[0]!.replace(/-/g, '/');
+// Any explicit time bound means the question chose its own range
+const GMAIL_DATE_CLAUSE = /(^|[\s(-])(after|before|newer_than|older_than|newer|older):/i;
+
+export function hasGmailDateClause(query: string): boolean {
+  return GMAIL_DATE_CLAUSE.test(query);
 }
 
-// Enforce 6-month cap on Gmail queries
-function enforceQueryDateCap(query: string): string {
-  const sixMonthsAgo = getSixMonthsAgo();
-  
-  // If query already has an after: or newer_than: clause, don't modify it
-  if (query.includes('after:') || query.includes('newer_than:')) {
+/**
+ * Limit a Gmail query to the user's history window (`days` back, 0 = no limit)
+ * unless it already has a date clause. Returns the query unchanged when no cap applies.
+ */
+export function enforceQueryDateCap(query: string, days: number): string {
+  const start = historyWindowStart(days);
+  if (!start || hasGmailDateClause(query)) {
     return query;
   }
-  
-  // Add 6-month cap to query
-  return `${query} after:${sixMonthsAgo}`;
+
+  return `${query} after:${start.toISOString().split('T')[0]!.replace(/-/g, '/')}`;
 }
 
+// Headers read from each message; all a hit needs unless its MIME structure is wanted
+const METADATA_HEADERS = ['From', 'To', 'Subject', 'Date'];
+
+/**
+ * Search messages and fetch their headers and snippet. Pass `withAttachments`
+ * to also fetch the MIME structure and list attachments, which costs a full
+ * message fetch per hit.
+ */
 export async function searchGmail(
   accessToken: string,
   query: string,
-  maxResults: number = 10
+  maxResults: number = 10,
+  withAttachments: boolean = false
 ): Promise<GmailSearchResult> {
-  oauth2Client.setCredentials({ access_token: accessToken });
-  
-  const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
   
-  // Enforce 6-month date cap
-  const cappedQuery = enforceQueryDateCap(query);
+  const gmail = google.gmail({ version: 'v1', auth: createGoogleOAuthClient({ access_token: accessToken }) });
   
-  // Search for messages
+  // Search for messages (the history window is applied by the caller, see enforceQueryDateCap)
   const listResponse = await gmail.users.messages.list({
     userId: 'me',
-    q: cappedQuery,
+    q: query,
     maxResults,
   });
   
@@ -66,17 +87,14 @@ export async function searchGmail(
     return { messages: [] };
   }
   
-  // Fetch message details (metadata and snippet only)
+  // Fetch message details (headers and snippet, plus the MIME structure when listing attachments)
   const messages = await Promise.all(
     messageIds.map(async (msg): Promise<GmailMessage | null> => {
       if (!msg.id) return null;
       
-      const detail = await gmail.users.messages.get({
-        userId: 'me',
-        id: msg.id,
-        format: 'metadata',
-        metadataHeaders: ['From', 'To', 'Subject', 'Date'],
-      });
+      const detail = await gmail.users.messages.get(withAttachments
+        ? { userId: 'me', id: msg.id, format: 'full' }
+        : { userId: 'me', id: msg.id, format: 'metadata', metadataHeaders: METADATA_HEADERS });
       
       const headers = detail.data.payload?.headers ?? [];
       const getHeader = (name: string) => 
@@ -90,6 +108,7 @@ export async function searchGmail(
         to: getHeader('To'),
         subject: getHeader('Subject'),
         date: getHeader('Date'),
+        attachments: withAttachments ? listAttachments(detail.data.payload) : [],
       };
     })
   );
@@ -100,9 +119,149 @@ export async function searchGmail(
   };
 }
 
+/**
+ * Fetch a whole thread and render it oldest first as
+ * "From / Date / body" blocks, with quoted replies stripped.
+ * Returns at most `maxChars` characters, keeping the newest messages when it has to cut.
+ */
+export async function getThreadText(
+  accessToken: string,
+  threadId: string,
+  maxChars: number
+): Promise<string> {
+  const gmail = google.gmail({ version: 'v1', auth: createGoogleOAuthClient({ access_token: accessToken }) });
+
+  const thread = await gmail.users.threads.get({
+    userId: 'me',
+    id: threadId,
+    format: 'full',
+  });
+
+  const blocks = (thread.data.messages ?? []).map(message => {
+    const headers = message.payload?.headers ?? [];
+    const getHeader = (name: string) =>
+      headers.find(h => h.name?.toLowerCase() === name.toLowerCase())?.value ?? '';
+
+    const body = stripQuotedReply(extractPlainText(message.payload)) || message.snippet || '';
+    return `From: ${getHeader('From')}\nDate: ${getHeader('Date')}\n${body}`;
+  });
+
+  // Later messages usually hold the outcome, so drop the oldest first
+  const kept: string[] = [];
+  let length = 0;
+  for (const block of blocks.reverse()) {
+    if (length + block.length > maxChars) {
+      if (kept.length === 0) kept.push(block.slice(0, maxChars));
+      break;
+    }
+    kept.push(block);
+    length += block.length + 2;
+  }
+
+  const omitted = blocks.length - kept.length;
+  const text = kept.reverse().join('\n\n---\n\n');
+  return omitted > 0 ? `[${omitted} earlier message(s) in this thread omitted]\n\n${text}` : text;
+}
+
+/**
+ * Deep-read mode: replace the snippets of the top messages with the text
+ * of their whole thread, within the size budget. One thread per message at most
+ * once; failures leave the snippet in place.
+ */
+export async function deepReadMessages(
+  accessToken: string,
+  messages: GmailMessage[],
+  logger: FastifyBaseLogger,
+  options: DeepReadOptions = DEFAULT_DEEP_READ_OPTIONS
+): Promise<GmailMessage[]> {
+  const seenThreads = new Set<string>();
+  const targets: GmailMessage[] = [];
+  for (const message of messages) {
+    if (targets.length >= options.maxThreads) break;
+    if (!message.threadId || seenThreads.has(message.threadId)) continue;
+    seenThreads.add(message.threadId);
+    targets.push(message);
+  }
+
+  const perThread = Math.min(options.maxThreadChars, Math.floor(options.maxTotalChars / Math.max(targets.length, 1)));
+  const bodies = await Promise.all(targets.map(message =>
+    getThreadText(accessToken, message.threadId, perThread).catch(error => {
+      logger.warn({ err: error, threadId: message.threadId }, 'Failed to read Gmail thread');
+      return null;
+    })
+  ));
+
+  const bodyById = new Map(targets.map((message, index) => [message.id, bodies[index]]));
+  return messages.map(message => {
+    const body = bodyById.get(message.id);
+    return body ? { ...message, body } : message;
+  });
+}
+
+/**
+ * Download an attachment's bytes.
+ */
+export async function getGmailAttachment(
+  accessToken: string,
+  messageId: string,
+  attachmentId: string
+): Promise<Buffer> {
+  const gmail = google.gmail({ version: 'v1', auth: createGoogleOAuthClient({ access_token: accessToken }) });
+
+  const response = await gmail.users.messages.attachments.get({
+    userId: 'me',
+    messageId,
+    id: attachmentId,
+  });
+
+  return Buffer.from(response.data.data ?? '', 'base64url');
+}
+
+// messages.list page size for counting (the API maximum)
+const COUNT_PAGE_SIZE = 500;
+
+// Counting stops here; beyond it the count is reported as estimated
+export const DEFAULT_COUNT_CEILING = 5000;
+
+/**
+ * Count the messages matching `query` by paging through message IDs (no detail fetches).
+ * Exact up to `ceiling`; past it, the larger of the ceiling and Gmail's
+ * resultSizeEstimate is returned as an estimate.
+ */
+export async function countGmailMessages(
+  accessToken: string,
+  query: string,
+  ceiling: number = DEFAULT_COUNT_CEILING
+): Promise<ResultCount> {
+  const gmail = google.gmail({ version: 'v1', auth: createGoogleOAuthClient({ access_token: accessToken }) });
+
+  let count = 0;
+  let estimate = 0;
+  let pageToken: string | undefined;
+
+  do {
+    const response = await gmail.users.messages.list({
+      userId: 'me',
+      q: query,
+      maxResults: COUNT_PAGE_SIZE,
+      ...(pageToken ? { pageToken } : {}),
+      fields: 'messages/id,nextPageToken,resultSizeEstimate',
+    });
+
+    count += response.data.messages?.length ?? 0;
+    estimate = Math.max(estimate, response.data.resultSizeEstimate ?? 0);
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken && count < ceiling);
+
+  if (!pageToken) {
+    return { value: count, exact: true, query };
+  }
+  return { value: Math.max(count, estimate), exact: false, query };
+}
+
 // Get Gmail auth URL for OAuth flow
 export function getGmailAuthUrl(state: string): string {
-  return oauth2Client.generateAuthUrl({
+  return createGoogleOAuthClient().generateAuthUrl({
     access_type: 'offline',
     scope: ['https://www.googleapis.com/auth/gmail.readonly'],
     state,
@@ -116,7 +275,7 @@ export async function exchangeCodeForTokens(code: string): Promise<{
   refresh_token?: string | null;
   expiry_date?: number | null;
 }> {
-  const { tokens } = await oauth2Client.getToken(code);
+  const { tokens } = await createGoogleOAuthClient().getToken(code);
   return tokens;
 }
 
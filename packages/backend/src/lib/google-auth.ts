@@ -0,0 +1,18 @@
+import { google } from 'googleapis';
+
+/**
+ * A new Google OAuth2 client, optionally holding `credentials`.
+ * Create one per call: a client carries a single account's token, and searches
+ * for several accounts and users run concurrently.
+ */
+export function createGoogleOAuthClient(
+  credentials?: { access_token?: string; refresh_token?: string }
+): InstanceType<typeof google.auth.OAuth2> {
+  const client = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_REDIRECT_URI
+  );
+  if (credentials) client.setCredentials(credentials);
+  return client;
+}
@@ -0,0 +1,43 @@
+// Default lookback for retrieval when neither the user nor the question sets one (override with HISTORY_WINDOW_DAYS)
+const DEFAULT_HISTORY_WINDOW_DAYS = 180;
+
+// Upper bound accepted for the setting (0 = no limit)
+export const MAX_HISTORY_WINDOW_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getDefaultHistoryWindowDays(): number {
+  const configured = Number(process.env.HISTORY_WINDOW_DAYS);
+  return process.env.HISTORY_WINDOW_DAYS !== undefined && Number.isInteger(configured) && configured >= 0
+    ? configured
+    : DEFAULT_HISTORY_WINDOW_DAYS;
+}
+
+/**
+ * Start of the history window, or null when the window is unlimited (0 days).
+ */
+export function historyWindowStart(days: number, now: Date = new Date()): Date | null {
+  if (days <= 0) return null;
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Human-readable window length for notes shown to the user and the model,
+ * e.g. "6 months", "1 year", "45 days".
+ */
+export function describeHistoryWindow(days: number): string {
+  if (days <= 0) return 'all history';
+  if (days % 365 === 0) return days === 365 ? '1 year' : `${days / 365} years`;
+  if (days % 30 === 0 && days < 365) return days === 30 ? '1 month' : `${days / 30} months`;
+  return days === 1 ? '1 day' : `${days} days`;
+}
+
+/**
+ * Sources whose search had the default history window applied because the
+ * question named no time range. Providers record themselves here so the answer
+ * can say older results may exist.
+ */
+export interface HistoryWindowReport {
+  days: number;
+  sources: string[];
+}
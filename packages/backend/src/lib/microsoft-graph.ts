@@ -1,3 +1,6 @@
+import type { AttachmentInfo, ResultCount } from '../types/search.js';
+import type { OutlookFolder } from './outlook-kql.js';
+
 const GRAPH_API = 'https://graph.microsoft.com/v1.0';
 
 export interface OutlookEmail {
@@ -6,6 +9,9 @@ export interface OutlookEmail {
   bodyPreview: string;
   receivedDateTime: string;
   webLink: string;
+  hasAttachments: boolean;
+  // Filled in by searchOutlook for messages that have attachments
+  attachments?: AttachmentInfo[] | undefined;
   from: {
     emailAddress: {
       name: string;
@@ -42,61 +48,246 @@ export interface OutlookEvent {
   location: {
     displayName: string;
   };
+  attendees?: Array<{
+    type: 'required' | 'optional' | 'resource';
+    emailAddress: {
+      name: string;
+      address: string;
+    }
+  }>;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  showAs?: 'free' | 'tentative' | 'busy' | 'oof' | 'workingElsewhere' | 'unknown';
+  // Filled in by getOutlookEvents: the calendar the event was found in
+  calendarName?: string | undefined;
 }
 
-export async function searchOutlook(accessToken: string, query: string, limit: number = 10): Promise<OutlookEmail[]> {
-  // Use $search for newer search or $filter
-  // $search="query"
-  // Note: We wrap the query in quotes as required by Microsoft Graph API for KQL
+// Messages per Graph request when paging search results
+const SEARCH_PAGE_SIZE = 50;
+
+// Page size when only counting (ids only, so pages can be large)
+const COUNT_PAGE_SIZE = 250;
+
+// Counting stops here; beyond it the count is reported as a lower bound
+const DEFAULT_COUNT_CEILING = 5000;
+
+function messagesUrl(folder?: OutlookFolder | null): string {
+  return folder ? `${GRAPH_API}/me/mailFolders/${folder}/messages` : `${GRAPH_API}/me/messages`;
+}
+
+// KQL goes into $search as one quoted string, with inner quotes escaped
+function searchParam(kql: string): string {
+  return `"${kql.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Search mail with a KQL query (see buildOutlookKql), optionally within one
+ * well-known folder. Follows @odata.nextLink until `limit` messages are collected.
+ */
+export async function searchOutlook(
+  accessToken: string,
+  query: string,
+  limit: number = 10,
+  folder?: OutlookFolder | null
+): Promise<OutlookEmail[]> {
   const params = new URLSearchParams({
-    '$search': `"${query.replace(/"/g, '\\"')}"`,
-    '$top': limit.toString(),
-    '$select': 'id,subject,bodyPreview,receivedDateTime,webLink,from,toRecipients'
+    '$search': searchParam(query),
+    '$top': Math.min(limit, SEARCH_PAGE_SIZE).toString(),
+    '$select': 'id,subject,bodyPreview,receivedDateTime,webLink,from,toRecipients,hasAttachments'
   });
 
-  const url = `${GRAPH_API}/me/messages?${params.toString()}`;
+  const messages: OutlookEmail[] = [];
+  let url: string | undefined = `${messagesUrl(folder)}?${params.toString()}`;
 
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Prefer': 'outlook.body-content-type="text"'
+  while (url && messages.length < limit) {
+    const response: Response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Prefer': 'outlook.body-content-type="text"'
+      }
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Error searching Outlook:', error);
+      throw new Error(`Failed to search Outlook: ${response.statusText}`);
     }
+
+    const data: any = await response.json();
+    messages.push(...(data.value || []));
+    url = data['@odata.nextLink'];
+  }
+  messages.splice(limit);
+
+  // Graph search can't expand attachments, so list them per message (metadata only, no content)
+  await Promise.all(messages.filter(m => m.hasAttachments).map(async message => {
+    try {
+      message.attachments = await listOutlookAttachments(accessToken, message.id);
+    } catch (error) {
+      console.error('Error listing Outlook attachments:', error);
+    }
+  }));
+
+  return messages;
+}
+
+/**
+ * Count the messages matching a KQL query by paging through ids ($count isn't
+ * supported together with $search). Exact unless counting stops at `ceiling`.
+ */
+export async function countOutlookMessages(
+  accessToken: string,
+  query: string,
+  folder?: OutlookFolder | null,
+  ceiling: number = DEFAULT_COUNT_CEILING
+): Promise<ResultCount> {
+  const params = new URLSearchParams({
+    '$search': searchParam(query),
+    '$top': COUNT_PAGE_SIZE.toString(),
+    '$select': 'id',
+  });
+
+  let count = 0;
+  let url: string | undefined = `${messagesUrl(folder)}?${params.toString()}`;
+
+  while (url && count < ceiling) {
+    const response: Response = await fetch(url, { headers: { 'Authorization': `Bearer ${accessToken}` } });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Error counting Outlook messages:', error);
+      throw new Error(`Failed to count Outlook messages: ${response.statusText}`);
+    }
+
+    const data: any = await response.json();
+    count += data.value?.length ?? 0;
+    url = data['@odata.nextLink'];
+  }
+
+  return { value: count, exact: !url, query: folder ? `${query} (folder: ${folder})` : query };
+}
+
+export async function listOutlookAttachments(accessToken: string, messageId: string): Promise<AttachmentInfo[]> {
+  const params = new URLSearchParams({ '$select': 'id,name,contentType,size,isInline' });
+  const response = await fetch(`${GRAPH_API}/me/messages/${encodeURIComponent(messageId)}/attachments?${params.toString()}`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
   });
 
   if (!response.ok) {
-    const error = await response.text();
-    console.error('Error searching Outlook:', error);
-    throw new Error(`Failed to search Outlook: ${response.statusText}`);
+    throw new Error(`Failed to list Outlook attachments: ${response.statusText}`);
   }
 
   const data = await response.json();
-  return data.value || [];
+  return (data.value || [])
+    // Inline images (signatures, logos) aren't attachments from the user's point of view
+    .filter((a: any) => !a.isInline)
+    .map((a: any) => ({
+      id: a.id,
+      filename: a.name,
+      mimeType: a.contentType || 'application/octet-stream',
+      size: a.size ?? 0,
+    }));
 }
 
-export async function getOutlookEvents(accessToken: string, start: Date, end: Date): Promise<OutlookEvent[]> {
+/**
+ * Download a file attachment's bytes.
+ */
+export async function getOutlookAttachment(accessToken: string, messageId: string, attachmentId: string): Promise<Buffer> {
+  const url = `${GRAPH_API}/me/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachmentId)}/$value`;
+  const response = await fetch(url, {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download Outlook attachment: ${response.statusText}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export interface OutlookEventsResult {
+  events: OutlookEvent[];
+  // false when a calendar couldn't be read or more than `limit` events matched
+  complete: boolean;
+}
+
+// Events per calendarView request when paging
+const EVENTS_PAGE_SIZE = 50;
+
+// Calendars searched per account (default calendar first)
+const MAX_CALENDARS = 10;
+
+/**
+ * List events from all of the user's calendars in [start, end], ordered by start time.
+ * Each calendar's view is paged via @odata.nextLink until `limit` events are collected.
+ */
+export async function getOutlookEvents(accessToken: string, start: Date, end: Date, limit: number = 100): Promise<OutlookEventsResult> {
+  // Times are kept in UTC (tagged with Z by the normalizer) so they are absolute instants;
+  // callers convert to the user's zone and pass local-day boundaries as start / end
+  const headers = {
+    'Authorization': `Bearer ${accessToken}`,
+    'Prefer': 'outlook.timezone="UTC"'
+  };
+
+  const calendarsResponse = await fetch(`${GRAPH_API}/me/calendars?$select=id,name,isDefaultCalendar&$top=50`, { headers });
+  if (!calendarsResponse.ok) {
+    const error = await calendarsResponse.text();
+    console.error('Error listing Outlook calendars:', error);
+    throw new Error(`Failed to list Outlook calendars: ${calendarsResponse.statusText}`);
+  }
+
+  const calendars: Array<{ id: string; name: string; isDefaultCalendar?: boolean }> = (await calendarsResponse.json()).value || [];
+  const searched = calendars
+    .sort((a, b) => Number(!!b.isDefaultCalendar) - Number(!!a.isDefaultCalendar))
+    .slice(0, MAX_CALENDARS);
+
   const params = new URLSearchParams({
     'startDateTime': start.toISOString(),
     'endDateTime': end.toISOString(),
-    '$select': 'id,subject,bodyPreview,start,end,webLink,organizer,location',
+    '$select': 'id,subject,bodyPreview,start,end,webLink,organizer,location,attendees,isAllDay,isCancelled,showAs',
     '$orderby': 'start/dateTime',
-    '$top': '50'
+    '$top': Math.min(limit, EVENTS_PAGE_SIZE).toString()
   });
 
-  const url = `${GRAPH_API}/me/calendar/calendarView?${params.toString()}`;
+  let complete = true;
+  const perCalendar = await Promise.all(searched.map(async calendar => {
+    const events: OutlookEvent[] = [];
+    let url: string | undefined = `${GRAPH_API}/me/calendars/${encodeURIComponent(calendar.id)}/calendarView?${params.toString()}`;
 
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Prefer': 'outlook.timezone="UTC"'
+    try {
+      while (url && events.length < limit) {
+        const response: Response = await fetch(url, { headers });
+
+        if (!response.ok) {
+          const error = await response.text();
+          throw new Error(`${response.statusText}: ${error}`);
+        }
+
+        const data: any = await response.json();
+        events.push(...(data.value || []).map((event: OutlookEvent) => ({ ...event, calendarName: calendar.name })));
+        url = data['@odata.nextLink'];
+      }
+      if (url) complete = false;
+    } catch (error) {
+      // One unreadable calendar (e.g. a shared calendar that was revoked) shouldn't fail the rest
+      console.error(`Error fetching Outlook events for calendar ${calendar.name}:`, error);
+      complete = false;
     }
-  });
 
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('Error fetching Outlook events:', error);
-    throw new Error(`Failed to fetch Outlook events: ${response.statusText}`);
-  }
+    return events;
+  }));
 
-  const data = await response.json();
-  return data.value || [];
+  // Meetings appear in each calendar they were copied to; keep one
+  const seen = new Set<string>();
+  const events = perCalendar
+    .flat()
+    .filter(event => {
+      const key = `${event.subject}|${event.start.dateTime}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => new Date(a.start.dateTime).getTime() - new Date(b.start.dateTime).getTime());
+
+  return { events: events.slice(0, limit), complete: complete && events.length <= limit };
 }
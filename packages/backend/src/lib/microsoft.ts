@@ -78,7 +78,14 @@ export async function refreshAccessToken(refreshToken: string): Promise<Microsof
   if (!response.ok) {
     const errorText = await response.text();
     console.error('[Microsoft] Token refresh failed:', errorText);
-    throw new Error(`Microsoft token refresh failed: ${response.status} ${response.statusText}`);
+    // Surface the OAuth error code (e.g. invalid_grant) so callers can tell a revoked grant from a transient failure
+    let errorCode = '';
+    try {
+      errorCode = JSON.parse(errorText).error ?? '';
+    } catch {
+      // Non-JSON error body
+    }
+    throw new Error(`Microsoft token refresh failed: ${response.status} ${response.statusText}${errorCode ? ` (${errorCode})` : ''}`);
   }
 
   return response.json();
@@ -1,7 +1,9 @@
-import type { SearchHit } from '../types/search.js';
+import type { AttachmentInfo, Availability, ResultCount, SearchHit } from '../types/search.js';
 import type { GmailMessage } from './gmail.js';
 import type { CalendarEvent } from './calendar.js';
 import type { OutlookEmail, OutlookEvent } from './microsoft-graph.js';
+import { htmlToText } from './email-body.js';
+import { zonedParts } from './time-zone.js';
 
 /**
  * Normalize Gmail messages to SearchHit format
@@ -10,7 +12,7 @@ export function normalizeGmailResults(messages: GmailMessage[]): SearchHit[] {
   return messages.map((msg, index) => ({
     id: msg.id ?? `gmail-${index}`,
     source: 'gmail' as const,
-    content: msg.snippet,
+    content: msg.body ?? msg.snippet,
     metadata: {
       date: msg.date,
       sender: msg.from,
@@ -18,6 +20,7 @@ export function normalizeGmailResults(messages: GmailMessage[]): SearchHit[] {
       messageId: msg.id,
       threadId: msg.threadId,
       recipients: msg.to,
+      attachments: msg.attachments.length > 0 ? msg.attachments : undefined,
     },
     relevance: 1.0,
   }));
@@ -30,11 +33,19 @@ export function normalizeCalendarResults(events: CalendarEvent[]): SearchHit[] {
   return events.map((event, index) => ({
     id: event.id ?? `calendar-${index}`,
     source: 'calendar' as const,
-    content: `${event.title} - ${event.start}`,
+    // Google descriptions may contain HTML (links, formatting from invites)
+    content: [event.title, event.description ? htmlToText(event.description) : null].filter(Boolean).join('\n'),
     metadata: {
       date: event.start,
+      dateEnd: event.end || undefined,
+      subject: event.title,
+      sender: event.organizer,
       attendees: event.attendees,
+      location: event.location,
+      calendar: event.calendarName,
       eventId: event.id,
+      webLink: event.htmlLink,
+      free: event.free,
     },
     relevance: 0.8, // Calendar context is secondary
   }));
@@ -71,6 +82,7 @@ export function normalizeOutlookMailResults(messages: OutlookEmail[]): SearchHit
       messageId: msg.id,
       webLink: msg.webLink,
       recipients: msg.toRecipients.map(r => r.emailAddress.name || r.emailAddress.address).join(', '),
+      attachments: msg.attachments?.length ? msg.attachments : undefined,
     },
     relevance: 1.0,
   }));
@@ -80,20 +92,128 @@ export function normalizeOutlookMailResults(messages: OutlookEmail[]): SearchHit
  * Normalize Outlook Calendar events to SearchHit format
  */
 export function normalizeOutlookCalendarResults(events: OutlookEvent[]): SearchHit[] {
+  const formatPerson = ({ emailAddress }: { emailAddress: { name: string; address: string } }) =>
+    emailAddress.name && emailAddress.address ? `${emailAddress.name} <${emailAddress.address}>` : emailAddress.address || emailAddress.name;
+
+  // Events are requested in UTC but Graph omits the zone designator; all-day events are whole local days
+  const toDate = (dateTime: string | undefined, allDay: boolean | undefined) => {
+    if (!dateTime) return undefined;
+    if (allDay) return dateTime.slice(0, 10);
+    return /(Z|[+-]\d{2}:\d{2})$/.test(dateTime) ? dateTime : `${dateTime}Z`;
+  };
+
   return events.map((event, index) => ({
     id: event.id ?? `outlook-calendar-${index}`,
     source: 'calendar' as const, // Can reuse 'calendar' source for now as it seems generic enough?
-    content: `${event.subject} - ${event.start.dateTime}`,
+    content: [event.subject, event.bodyPreview].filter(Boolean).join('\n'),
     metadata: {
-      date: event.start.dateTime,
-      attendees: [], // Outlook event structure for attendees is complex, skipping for now or need to fetch
+      date: toDate(event.start.dateTime, event.isAllDay),
+      dateEnd: toDate(event.end?.dateTime, event.isAllDay),
+      subject: event.subject,
+      sender: event.organizer ? formatPerson(event.organizer) : undefined,
+      attendees: (event.attendees ?? []).filter(a => a.type !== 'resource').map(formatPerson).filter(Boolean),
+      location: event.location?.displayName || undefined,
+      calendar: event.calendarName,
       eventId: event.id,
       webLink: event.webLink,
+      free: event.isCancelled || event.showAs === 'free' || undefined,
     },
     relevance: 0.8,
   }));
 }
 
+/**
+ * Turn an attachment's extracted text into its own hit, carrying the parent
+ * email's metadata (and link) so it can be cited directly.
+ */
+export function normalizeAttachmentResult(parent: SearchHit, attachment: AttachmentInfo, text: string): SearchHit {
+  // Filenames repeat within a message; its position in the parent's list doesn't
+  const index = parent.metadata.attachments?.findIndex(a => a.id === attachment.id) ?? -1;
+  return {
+    id: `${parent.id}:attachment:${index >= 0 ? index : attachment.id}`,
+    source: parent.source,
+    content: text,
+    metadata: {
+      ...parent.metadata,
+      attachments: undefined,
+      attachment,
+    },
+    relevance: parent.relevance,
+  };
+}
+
+/**
+ * Report a match count as a hit, so the synthesizer gets the real total
+ * rather than counting the (capped) sample of results. `account` identifies
+ * the linked account counted, so counts from several accounts keep distinct ids.
+ */
+export function normalizeCountResult(source: SearchHit['source'], account: string, count: ResultCount): SearchHit {
+  const wording = count.exact
+    ? `${count.value}`
+    : `More than ${count.value} (estimated, counting stopped at the limit)`;
+
+  return {
+    id: `${source}:${account}:count`,
+    source,
+    content: `${wording} messages match the search "${count.query}". The other results are only a sample of these.`,
+    metadata: { count },
+    relevance: 1.0,
+  };
+}
+
+/**
+ * Free slots for a scheduling question as a single hit, listed in the user's local time.
+ */
+export function normalizeAvailabilityResult(availability: Availability): SearchHit {
+  const weekdays = ['', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+  const localTime = (iso: string) => {
+    const p = zonedParts(new Date(iso), availability.timeZone);
+    return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+  };
+
+  const lines = availability.slots.map(slot => {
+    const weekday = weekdays[zonedParts(new Date(slot.start), availability.timeZone).weekday];
+    return `- ${weekday} ${slot.date} ${localTime(slot.start)}-${localTime(slot.end)} (${slot.durationMinutes} min)`;
+  });
+
+  const summary = lines.length > 0
+    ? `Free slots between ${availability.startDate} and ${availability.endDate} (${availability.timeZone}):\n${lines.join('\n')}`
+    : `No free slots between ${availability.startDate} and ${availability.endDate} (${availability.timeZone}).`;
+  const warning = availability.incompleteAccounts?.length
+    ? `\nWARNING: these slots are incomplete. Not every event could be read for ${availability.incompleteAccounts.join(', ')}, so some slots may be busy. Say so in the answer.`
+    : '';
+
+  return {
+    id: 'calendar-availability',
+    source: 'calendar',
+    content: summary + warning,
+    metadata: { availability },
+    relevance: 1.0,
+  };
+}
+
+/**
+ * Say that a calendar search didn't see every event: some accounts' events couldn't all be
+ * read, or older events (before `searchedFrom`) weren't searched once enough matches were found.
+ */
+export function normalizeIncompleteEventsResult(incompleteAccounts: string[], searchedFrom: Date | null): SearchHit {
+  const lines: string[] = [];
+  if (incompleteAccounts.length > 0) {
+    lines.push(`WARNING: these events are incomplete. Not every event could be read for ${incompleteAccounts.join(', ')}, so some matching events may be missing. Say so in the answer.`);
+  }
+  if (searchedFrom) {
+    lines.push(`Only the most recent matching events were fetched, back to ${searchedFrom.toISOString().slice(0, 10)}. Older ones weren't searched, so don't treat these as every match.`);
+  }
+
+  return {
+    id: 'calendar-incomplete',
+    source: 'calendar',
+    content: lines.join('\n'),
+    metadata: {},
+    relevance: 1.0,
+  };
+}
+
 /**
  * Merge and sort all results by relevance
  */
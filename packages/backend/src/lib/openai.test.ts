@@ -0,0 +1,57 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlannerCompletion, planQuery as PlanQuery } from './openai.js';
+import type { SearchProvider } from '../providers/types.js';
+
+let planQuery: typeof PlanQuery;
+let providers: SearchProvider[];
+
+before(async () => {
+  // The OpenAI client is created at import time and needs a key, even though these tests never call it
+  process.env.OPENROUTER_API_KEY ??= 'test-only';
+  ({ planQuery } = await import('./openai.js'));
+  const { getProviders } = await import('../providers/index.js');
+  providers = getProviders();
+});
+
+// The planner's system prompt for a question asked at `now`
+async function systemPrompt(now: Date, timeZone?: string): Promise<string> {
+  let prompt = '';
+  const complete: PlannerCompletion = async messages => {
+    prompt = String(messages[0]?.content);
+    return '{"analysis": {}}';
+  };
+  await planQuery('what is on my calendar today?', [], providers, { now, complete, ...(timeZone ? { timeZone } : {}) });
+  return prompt;
+}
+
+describe('planQuery today', () => {
+  test('is the UTC date when no time zone is given', async () => {
+    assert.match(await systemPrompt(new Date('2026-06-15T23:30:00Z')), /TODAY'S DATE: 2026-06-15\b/);
+  });
+
+  test('late evening for a user behind the server is still their today', async () => {
+    // 22:30 on the 14th in Los Angeles, already the 15th in UTC
+    const prompt = await systemPrompt(new Date('2026-06-15T05:30:00Z'), 'America/Los_Angeles');
+    assert.match(prompt, /TODAY'S DATE: 2026-06-14\b/);
+    assert.match(prompt, /2026-06-14 \(Sunday\), 22:30 in America\/Los_Angeles/);
+  });
+
+  test('a user ahead of the server is already on tomorrow', async () => {
+    // 23:30 on the 15th in UTC, 13:30 on the 16th in UTC+14
+    assert.match(await systemPrompt(new Date('2026-06-15T23:30:00Z'), 'Pacific/Kiritimati'), /TODAY'S DATE: 2026-06-16\b/);
+  });
+
+  test('UTC-12 late evening stays two dates behind UTC+14', async () => {
+    const now = new Date('2026-06-15T11:30:00Z');
+    assert.match(await systemPrompt(now, 'Etc/GMT+12'), /TODAY'S DATE: 2026-06-14\b/);
+    assert.match(await systemPrompt(now, 'Pacific/Kiritimati'), /TODAY'S DATE: 2026-06-16\b/);
+  });
+
+  test('follows the local date across a DST change', async () => {
+    // 23:30 EST on 2026-03-07, the night before New York springs forward
+    assert.match(await systemPrompt(new Date('2026-03-08T04:30:00Z'), 'America/New_York'), /TODAY'S DATE: 2026-03-07\b/);
+    // 23:30 EDT on 2026-03-08, after it did
+    assert.match(await systemPrompt(new Date('2026-03-09T03:30:00Z'), 'America/New_York'), /TODAY'S DATE: 2026-03-08\b/);
+  });
+});
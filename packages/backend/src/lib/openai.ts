@@ -1,7 +1,8 @@
 import OpenAI from 'openai';
-import { z } from 'zod';
-import { getGmailQueryPlanPrompt, getUnifiedQueryPlanPrompt } from './prompts.js';
-import type { FeatureFlags } from './feature-flags.js';
+import { getUnifiedQueryPlanPrompt } from './prompts.js';
+import type { SearchProvider } from '../providers/types.js';
+import { getAnalysisKey, queryAnalysisSchema } from '../providers/registry.js';
+import { DEFAULT_TIME_ZONE, describeLocalNow, zonedDateString } from './time-zone.js';
 
 // Use OpenRouter with OpenAI SDK
 const openai = new OpenAI({
@@ -14,207 +15,100 @@ const openai = new OpenAI({
 });
 
 // Default model - can be changed to any OpenRouter-supported model
-const DEFAULT_MODEL = process.env.OPENROUTER_MODEL ?? 'openai/gpt-4-turbo-preview';
-
-// Schema for Gmail query plan
-export const GmailQueryPlanSchema = z.object({
-  gmailQuery: z.string().describe('The optimized Gmail search query string'),
-  intent: z.enum(['search', 'count', 'summary', 'meetings']).describe('The intent of the user query'),
-  dateRange: z.object({
-    days: z.number().nullable(),
-  }).nullable(),
-  filters: z.object({
-    segments: z.array(z.string()),
-    negatedSegments: z.array(z.string()),
-    participants: z.array(z.string()).nullable(),
-    keywords: z.array(z.string()).nullable(),
-    hasAttachment: z.boolean().nullable(),
-    labels: z.array(z.string()).nullable().optional(),
-    categories: z.array(z.string()).nullable().optional(),
-  }),
-  explanation: z.string().describe('Brief explanation of the search strategy'),
-});
-
-export type GmailQueryPlan = z.infer<typeof GmailQueryPlanSchema>;
-
-// Schema for Outlook query plan
-export const OutlookQueryPlanSchema = z.object({
-  outlookQuery: z.string().describe('The optimized Outlook/Microsoft Graph search query string'),
-  intent: z.enum(['search', 'count', 'summary', 'meetings']).describe('The intent of the user query'),
-  dateRange: z.object({
-    days: z.number().nullable(),
-  }).nullable(),
-  filters: z.object({
-    segments: z.array(z.string()),
-    negatedSegments: z.array(z.string()),
-    participants: z.array(z.string()).nullable(),
-    keywords: z.array(z.string()).nullable(),
-    hasAttachment: z.boolean().nullable(),
-    labels: z.array(z.string()).nullable().optional(),
-    categories: z.array(z.string()).nullable().optional(),
-  }),
-  explanation: z.string().describe('Brief explanation of the search strategy'),
-});
-
-export type OutlookQueryPlan = z.infer<typeof OutlookQueryPlanSchema>;
-
-// Schema for WhatsApp query plan
-export const WhatsAppQueryPlanSchema = z.object({
-  keywords: z.array(z.string()),
-  sender: z.string().nullable().optional(),
-  dateRange: z.object({
-    days: z.number().nullable(),
-  }).nullable().optional(),
-  limit: z.number().optional().default(10),
-});
-
-export type WhatsAppQueryPlan = z.infer<typeof WhatsAppQueryPlanSchema>;
-
-// Schema for determining required data sources
-export const QueryAnalysisSchema = z.object({
-  needsGmail: z.boolean(),
-  needsOutlook: z.boolean(),
-  needsCalendar: z.boolean(),
-  needsLinkedIn: z.boolean(),
-  needsWhatsApp: z.boolean(),
-  gmailQuery: z.string().nullable().optional(), // Allow null when Gmail not needed
-  calendarDateRange: z.object({
-    start: z.string().optional(),
-    end: z.string().optional(),
-  }).nullable().optional(),
-  linkedInKeywords: z.array(z.string()).nullable().optional(),
-  whatsAppKeywords: z.array(z.string()).nullable().optional(),
-});
-
-export type QueryAnalysis = z.infer<typeof QueryAnalysisSchema>;
+export const DEFAULT_MODEL = process.env.OPENROUTER_MODEL ?? 'openai/gpt-4-turbo-preview';
 
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
   metadata?: {
-    queryAnalysis?: QueryAnalysis;
-    gmailPlan?: GmailQueryPlan;
-    outlookPlan?: OutlookQueryPlan;
-    whatsappPlan?: WhatsAppQueryPlan;
+    queryAnalysis?: Record<string, boolean>;
+    plans?: Record<string, unknown>;
   };
 }
 
-// Convert natural language to Gmail search query
-export async function planGmailQuery(userQuery: string, conversationHistory: Message[] = []): Promise<GmailQueryPlan> {
+// Unified query plan: which providers to search, plus one plan per provider id.
+// The per-provider plan shapes are owned by the providers themselves.
+export interface UnifiedQueryPlan {
+  analysis: Record<string, boolean>;
+  plans: Record<string, unknown>;
+}
+
+/**
+ * Sends the planner messages to a model and returns the raw JSON reply.
+ * Swappable so the planner eval can replay recorded responses offline.
+ */
+export type PlannerCompletion = (
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+) => Promise<string | null | undefined>;
+
+export interface PlanQueryOptions {
+  // User's IANA time zone; "today" and relative dates are resolved in it
+  timeZone?: string | undefined;
+  // Reference time for relative dates (defaults to now)
+  now?: Date | undefined;
+  // Defaults to the OpenRouter model
+  complete?: PlannerCompletion | undefined;
+}
+
+export const openRouterPlannerCompletion: PlannerCompletion = async messages => {
   const response = await openai.chat.completions.create({
     model: DEFAULT_MODEL,
-    messages: [
-      {
-        role: 'system',
-        content: getGmailQueryPlanPrompt() + "\n\n=== CONVERSATION HISTORY ===\nUse the following conversation history to resolve references like 'him', 'her', 'it', 'that email'.",
-      },
-      ...conversationHistory.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      {
-        role: 'user',
-        content: userQuery,
-      },
-    ],
+    messages,
     response_format: { type: 'json_object' },
     temperature: 0.1,
   });
-
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response from OpenRouter');
-  }
-
-  const parsed = JSON.parse(content);
-  return GmailQueryPlanSchema.parse(parsed);
-}
-
-/*
-// Convert natural language to WhatsApp search query
-export async function planWhatsAppQuery(userQuery: string, conversationHistory: Message[] = []): Promise<WhatsAppQueryPlan> {
-    // ...deprecated...
-}
-*/
-
-/*
-// Analyze user query to determine which data sources are needed
-// DEPRECATED: Use planQuery instead
-*/
-/*
-export async function analyzeQuery(userQuery: string, conversationHistory: Message[] = [], flags: FeatureFlags): Promise<QueryAnalysis> {
-  // ...
-  return {} as QueryAnalysis;
-}
-*/
-
-/*
-// Analyze user query to determine which data sources are needed
-// DEPRECATED: Use planQuery instead
-export async function analyzeQuery(userQuery: string, conversationHistory: Message[] = [], flags: FeatureFlags): Promise<QueryAnalysis> {
-  // ...
-  return {} as QueryAnalysis;
-}
-*/
-
-// Unified Query Plan Schema
-export const UnifiedQueryPlanSchema = z.object({
-  analysis: z.object({
-    needsGmail: z.boolean(),
-    needsOutlook: z.boolean(),
-    needsCalendar: z.boolean(),
-    needsWhatsApp: z.boolean(),
-    // LinkedIn deprecated/stubbed
-    needsLinkedIn: z.boolean().optional().default(false),
-    calendarDateRange: z.object({
-      start: z.string().optional(),
-      end: z.string().optional(),
-    }).nullable().optional(),
-  }),
-  gmail: GmailQueryPlanSchema.nullable().optional(),
-  outlook: OutlookQueryPlanSchema.nullable().optional(),
-  whatsapp: WhatsAppQueryPlanSchema.nullable().optional(),
-});
-
-export type UnifiedQueryPlan = z.infer<typeof UnifiedQueryPlanSchema>;
+  return response.choices[0]?.message?.content;
+};
 
 // Unified planning function
 export async function planQuery(
   userQuery: string,
   conversationHistory: Message[] = [],
-  flags: FeatureFlags
+  providers: SearchProvider[],
+  options: PlanQueryOptions = {}
 ): Promise<UnifiedQueryPlan> {
-  const todayStr = new Date().toISOString().split('T')[0]!;
-
-  const response = await openai.chat.completions.create({
-    model: DEFAULT_MODEL,
-    messages: [
-      {
-        role: 'system',
-        content: getUnifiedQueryPlanPrompt(todayStr, {
-          enableWhatsApp: !!flags.enableWhatsApp,
-          enableGmail: !!flags.enableGmail,
-          enableOutlook: !!flags.enableOutlook
-        }) + "\n\n=== CONVERSATION HISTORY ===\nUse the following conversation history to resolve references.",
-      },
-      ...conversationHistory.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      {
-        role: 'user',
-        content: userQuery,
-      },
-    ],
-    response_format: { type: 'json_object' },
-    temperature: 0.1,
-  });
+  const { timeZone = DEFAULT_TIME_ZONE, now = new Date(), complete = openRouterPlannerCompletion } = options;
+  // "Today" is the user's local date, which differs from the UTC date for part of the day
+  const todayStr = zonedDateString(now, timeZone);
+
+  const content = await complete([
+    {
+      role: 'system',
+      content: getUnifiedQueryPlanPrompt(todayStr, providers, describeLocalNow(timeZone, now)) + "\n\n=== CONVERSATION HISTORY ===\nUse the following conversation history to resolve references.",
+    },
+    ...conversationHistory.map(msg => ({
+      role: msg.role,
+      content: msg.content,
+    })),
+    {
+      role: 'user',
+      content: userQuery,
+    },
+  ]);
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     throw new Error('No response from OpenRouter');
   }
 
   const parsed = JSON.parse(content);
-  return UnifiedQueryPlanSchema.parse(parsed);
+  // Flags missing or malformed in the reply count as "not needed"
+  const analysis = queryAnalysisSchema(providers).parse(parsed?.analysis ?? {});
+
+  // Validate each provider's plan on its own, so one malformed plan
+  // only disables that source instead of failing the whole request
+  const plans: Record<string, unknown> = {};
+  for (const provider of providers) {
+    const key = getAnalysisKey(provider);
+    const rawPlan = parsed?.[provider.id];
+    if (rawPlan == null) continue;
+
+    const result = provider.planSchema.safeParse(rawPlan);
+    if (result.success) {
+      plans[provider.id] = result.data;
+    } else {
+      analysis[key] = false;
+    }
+  }
+
+  return { analysis, plans };
 }
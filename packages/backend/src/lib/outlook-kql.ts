@@ -0,0 +1,93 @@
+import type { OutlookQueryPlan } from '../providers/outlook.js';
+import { historyWindowStart } from './history-window.js';
+
+// Well-known mail folder names accepted by /me/mailFolders/{name}
+export const OUTLOOK_FOLDERS = ['inbox', 'sentitems', 'archive', 'deleteditems', 'drafts', 'junkemail'] as const;
+
+export type OutlookFolder = typeof OUTLOOK_FOLDERS[number];
+
+// Exchange / eDiscovery spellings the planner tends to produce, mapped to Graph $search property names
+const PROPERTY_ALIASES: Record<string, string> = {
+  hasattachment: 'hasAttachments',
+  hasattachments: 'hasAttachments',
+  attachmentnames: 'attachment',
+  attachments: 'attachment',
+};
+
+// received:/sent: in any KQL form (property restriction, range or comparison)
+const OUTLOOK_DATE_CLAUSE = /\b(received|sent)\s*(:|>=|<=|>|<|=)/i;
+
+export function hasOutlookDateClause(query: string): boolean {
+  return OUTLOOK_DATE_CLAUSE.test(query);
+}
+
+/**
+ * Limit an Outlook KQL query to the user's history window (`days` back, 0 = no limit)
+ * unless it already has a date clause. Returns the query unchanged when no cap applies.
+ */
+export function enforceOutlookDateCap(query: string, days: number): string {
+  const start = historyWindowStart(days);
+  if (!start || hasOutlookDateClause(query)) {
+    return query;
+  }
+
+  return `${query} AND received>=${start.toISOString().split('T')[0]}`;
+}
+
+const quoteValue = (value: string) => (/[\s:()]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+/**
+ * Rewrite planner KQL into the dialect Graph's $search understands:
+ * property aliases (hasattachment: -> hasAttachments:) and '-term' negation -> NOT term.
+ */
+export function normalizeKql(query: string): string {
+  return query
+    .replace(/\b([a-z]+):/gi, (match, property: string) => {
+      const alias = PROPERTY_ALIASES[property.toLowerCase()];
+      return alias ? `${alias}:` : match;
+    })
+    .replace(/(^|[\s(])-(?=[\w"(])/g, '$1NOT ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build the $search KQL for an Outlook plan: the planner's query plus any
+ * structured filter (participants, attachments, date range, exclusions) it
+ * doesn't already express. Added clauses are joined with AND.
+ */
+export function buildOutlookKql(plan: OutlookQueryPlan, now: Date = new Date()): string {
+  const base = normalizeKql(plan.outlookQuery);
+  const lower = base.toLowerCase();
+  const clauses = base ? [base] : [];
+  const { filters } = plan;
+
+  for (const participant of filters.participants ?? []) {
+    if (!lower.includes(participant.toLowerCase())) {
+      clauses.push(`participants:${quoteValue(participant)}`);
+    }
+  }
+
+  if (filters.hasAttachment !== null && !lower.includes('hasattachments:')) {
+    clauses.push(`hasAttachments:${filters.hasAttachment}`);
+  }
+
+  const days = plan.dateRange?.days;
+  if (days && days > 0 && !hasOutlookDateClause(base)) {
+    clauses.push(`received>=${historyWindowStart(days, now)!.toISOString().split('T')[0]}`);
+  }
+
+  for (const segment of filters.negatedSegments) {
+    const term = normalizeKql(segment.replace(/^(-|NOT\s+)/i, ''));
+    if (term && !lower.includes(`not ${term.toLowerCase()}`)) {
+      clauses.push(`NOT ${term}`);
+    }
+  }
+
+  // Segments are normally part of the query already; only fall back to them when it's empty
+  if (clauses.length === 0) {
+    clauses.push(...filters.segments.map(normalizeKql).filter(Boolean));
+  }
+
+  return clauses.join(' AND ');
+}
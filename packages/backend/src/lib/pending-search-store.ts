@@ -0,0 +1,221 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin } from './supabase.js';
+import type { PendingSearch, SearchHit } from '../types/search.js';
+
+// How long a pending search stays retrievable without activity
+const PENDING_SEARCH_TTL_MS = 5 * 60 * 1000;
+
+type PendingSearchUpdate = Partial<Pick<PendingSearch, 'status' | 'answer'>>;
+
+const nextExpiry = () => Date.now() + PENDING_SEARCH_TTL_MS;
+
+/**
+ * Thrown by `create` when a live search with the same request id already exists
+ */
+export class PendingSearchExistsError extends Error {
+  constructor(public readonly requestId: string) {
+    super(`Pending search ${requestId} already exists`);
+    this.name = 'PendingSearchExistsError';
+  }
+}
+
+/**
+ * Storage for async (extension-mode) searches that are completed across
+ * several requests: the backend creates them, the extension posts DOM
+ * results and clients poll for the answer.
+ * Entries expire after a short TTL without activity: reading or updating an
+ * entry extends it. Expired entries are never returned.
+ */
+export interface PendingSearchStore {
+  // Throws PendingSearchExistsError if the request id is already in use
+  create(search: PendingSearch): Promise<void>;
+  get(requestId: string): Promise<PendingSearch | null>;
+  // Record the results for one source and return the updated search (null if missing/expired)
+  addResults(requestId: string, source: string, hits: SearchHit[]): Promise<PendingSearch | null>;
+  update(requestId: string, update: PendingSearchUpdate): Promise<void>;
+  delete(requestId: string): Promise<void>;
+  // Remove expired entries, returns how many were removed
+  deleteExpired(): Promise<number>;
+}
+
+/**
+ * Process-local store. Only suitable for a single backend instance:
+ * entries are lost on restart.
+ */
+export class InMemoryPendingSearchStore implements PendingSearchStore {
+  private searches = new Map<string, { search: PendingSearch; expiresAt: number }>();
+
+  async create(search: PendingSearch): Promise<void> {
+    const existing = this.searches.get(search.request_id);
+    if (existing && existing.expiresAt >= Date.now()) {
+      throw new PendingSearchExistsError(search.request_id);
+    }
+    this.searches.set(search.request_id, { search, expiresAt: nextExpiry() });
+  }
+
+  async get(requestId: string): Promise<PendingSearch | null> {
+    const entry = this.searches.get(requestId);
+    if (!entry || entry.expiresAt < Date.now()) return null;
+    entry.expiresAt = nextExpiry();
+    return entry.search;
+  }
+
+  async addResults(requestId: string, source: string, hits: SearchHit[]): Promise<PendingSearch | null> {
+    const search = await this.get(requestId);
+    if (!search) return null;
+    search.results[source] = hits;
+    return search;
+  }
+
+  async update(requestId: string, update: PendingSearchUpdate): Promise<void> {
+    // get() extends the expiry
+    const search = await this.get(requestId);
+    if (search) Object.assign(search, update);
+  }
+
+  async delete(requestId: string): Promise<void> {
+    this.searches.delete(requestId);
+  }
+
+  async deleteExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, entry] of this.searches) {
+      if (entry.expiresAt < now) {
+        this.searches.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Postgres-backed store (`pending_searches` table), shared by all backend
+ * replicas and surviving restarts. Uses the service-role client.
+ */
+export class PostgresPendingSearchStore implements PendingSearchStore {
+  constructor(private client: SupabaseClient) {}
+
+  async create(search: PendingSearch): Promise<void> {
+    // An expired row that cleanup hasn't removed yet must not block reusing its id
+    const { error: cleanupError } = await this.client
+      .from('pending_searches')
+      .delete()
+      .eq('request_id', search.request_id)
+      .lt('expires_at', new Date().toISOString());
+    if (cleanupError) throw cleanupError;
+
+    const { error } = await this.client.from('pending_searches').insert({
+      request_id: search.request_id,
+      user_id: search.user_id,
+      query: search.query,
+      requires_extension: search.requires_extension,
+      sources_needed: search.sources_needed,
+      instructions: search.instructions,
+      results: search.results,
+      status: search.status,
+      answer: search.answer ?? null,
+      conversation_id: search.conversation_id ?? null,
+      metadata: search.metadata ?? null,
+      created_at: search.created_at.toISOString(),
+      expires_at: new Date(nextExpiry()).toISOString(),
+    });
+    // 23505 = unique_violation
+    if (error?.code === '23505') throw new PendingSearchExistsError(search.request_id);
+    if (error) throw error;
+  }
+
+  async get(requestId: string): Promise<PendingSearch | null> {
+    // Reading counts as activity, so the expiry moves forward in the same statement
+    const { data, error } = await this.client
+      .from('pending_searches')
+      .update({ expires_at: new Date(nextExpiry()).toISOString() })
+      .eq('request_id', requestId)
+      .gt('expires_at', new Date().toISOString())
+      .select('*')
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(data) : null;
+  }
+
+  async addResults(requestId: string, source: string, hits: SearchHit[]): Promise<PendingSearch | null> {
+    // Merged in a single statement so concurrent submissions for different sources don't overwrite each other
+    const { data, error } = await this.client.rpc('add_pending_search_results', {
+      p_request_id: requestId,
+      p_source: source,
+      p_hits: hits,
+      p_expires_at: new Date(nextExpiry()).toISOString(),
+    });
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? fromRow(row) : null;
+  }
+
+  async update(requestId: string, update: PendingSearchUpdate): Promise<void> {
+    const { error } = await this.client
+      .from('pending_searches')
+      .update({ ...update, expires_at: new Date(nextExpiry()).toISOString() })
+      .eq('request_id', requestId)
+      .gt('expires_at', new Date().toISOString());
+    if (error) throw error;
+  }
+
+  async delete(requestId: string): Promise<void> {
+    const { error } = await this.client.from('pending_searches').delete().eq('request_id', requestId);
+    if (error) throw error;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const { data, error } = await this.client
+      .from('pending_searches')
+      .delete()
+      .lt('expires_at', new Date().toISOString())
+      .select('request_id');
+    if (error) throw error;
+    return data?.length ?? 0;
+  }
+}
+
+function fromRow(row: any): PendingSearch {
+  return {
+    request_id: row.request_id,
+    user_id: row.user_id,
+    query: row.query,
+    requires_extension: row.requires_extension,
+    sources_needed: row.sources_needed ?? [],
+    instructions: row.instructions ?? [],
+    results: row.results ?? {},
+    status: row.status,
+    created_at: new Date(row.created_at),
+    ...(row.answer ? { answer: row.answer } : {}),
+    ...(row.conversation_id ? { conversation_id: row.conversation_id } : {}),
+    ...(row.metadata ? { metadata: row.metadata } : {}),
+  };
+}
+
+/**
+ * Postgres when the service-role client is configured, in-memory otherwise.
+ * Set PENDING_SEARCH_STORE=memory|postgres to force one.
+ */
+function createPendingSearchStore(): PendingSearchStore {
+  const kind = process.env.PENDING_SEARCH_STORE ?? (supabaseAdmin ? 'postgres' : 'memory');
+
+  if (kind === 'postgres') {
+    if (!supabaseAdmin) {
+      throw new Error('PENDING_SEARCH_STORE=postgres requires SUPABASE_SERVICE_ROLE_KEY');
+    }
+    return new PostgresPendingSearchStore(supabaseAdmin);
+  }
+
+  return new InMemoryPendingSearchStore();
+}
+
+export const pendingSearchStore = createPendingSearchStore();
+
+// Cleanup expired searches every 5 minutes
+setInterval(() => {
+  pendingSearchStore.deleteExpired().catch(error => {
+    console.error('[PENDING SEARCHES] Cleanup failed:', error);
+  });
+}, 5 * 60 * 1000).unref();
@@ -1,3 +1,6 @@
+import type { SearchProvider } from '../providers/types.js';
+import { getAnalysisKey } from '../providers/registry.js';
+
 export const getGmailQueryPlanPrompt = () => {
   const today = new Date().toISOString().split('T')[0];
   return `You are a multilingual Gmail search query generator optimized for SALES workflows.
@@ -41,14 +44,13 @@ STATUS/UPDATE QUERIES:
 - "what's happening with X" → (from:X OR to:X OR "X")
 - "latest on X" → (from:X OR to:X OR "X")
 
-CRITICAL HARD CONSTRAINT
-- NEVER fetch emails older than 6 months by default
-- 6 months = newer_than:180d
-- You may exceed 6 months ONLY if the user explicitly asks for:
+HISTORY WINDOW
+- The user's history window (e.g. the last 6 months) is applied automatically when gmailQuery has no date clause
+- Do NOT add a date filter for vague requests (e.g. "emails from John")
+- Add a date clause ONLY if the user asks for a time range:
   - older than X months/years
   - a specific past month/year
-  - phrases like "long time ago", "historical", "all time", "ever"
-- If the request is vague (e.g. "emails from John"), ALWAYS apply newer_than:180d
+  - phrases like "long time ago", "historical", "all time", "ever" -> after:2000/01/01
 
 SUPPORTED LANGUAGES
 - Any language or script (English, Hindi, Hinglish, Spanish, Portuguese, French, German, Indonesian, Japanese, Korean, Arabic, etc.)
@@ -113,7 +115,7 @@ Meetings (ONLY if explicitly mentioned):
 - meeting, reunión, मीटिंग, sync, call, calendar
 
 DATE HANDLING
-- Default date filter is REQUIRED: newer_than:180d
+- No date filter unless a time range is implied (the history window covers the rest)
 - Prefer relative dates
 - today      -> newer_than:1d
 - yesterday  -> newer_than:2d older_than:1d
@@ -187,7 +189,7 @@ ENFORCEMENT (NON-NEGOTIABLE)
 - NEVER output anything outside the JSON
 
 QUERY PRIORITIES
-1. Enforce 6-month cap unless explicitly overridden
+1. Use date clauses only for time ranges the user asked for
 2. Preserve exclusions exactly
 3. Maximize recall unless precision is explicitly requested
 4. Use OR sparingly
@@ -257,7 +259,7 @@ ${whatsAppRule}
 === DATE HANDLING ===
 - Use today's date (${todayStr}) as the reference point
 - Calculate relative dates correctly
-- For vague time references, default to last 6 months
+- For vague time references, leave the date open (the user's history window applies)
 - For "recent" or "latest" → last 30 days
 
 Respond with a JSON object:
@@ -332,10 +334,20 @@ For INTEGRATION queries:
 === GENERAL RESPONSE RULES ===
 
 For "HOW MANY" queries:
-→ Count the items provided and state the number
+→ If a result has a "Count:" line, that is the number of matching items in that account - use it instead of counting results
+  - "exact": state the number as is ("You received **37** emails from Stripe")
+  - "estimated": never state it as exact - say "about N" or "more than N" as the Count line indicates
+  - Several accounts: add the counts and mention the split per account
+→ Otherwise count the items provided and state the number
 → Briefly categorize them (e.g., "5 items: 2 emails, 2 WhatsApp messages, 1 LinkedIn thread")
 → The items shown ARE the matching results - count them
 
+For FREE TIME / SCHEDULING queries ("when am I free", "find time for a call"):
+→ Use the result with an "Availability:" line: its slots are already merged across all calendars, within working hours, in the user's time zone
+→ Name the best 2-3 slots in plain words ("Thursday 2:00-4:30 PM"), using the local times given; the full list is shown to the user separately
+→ If there are no slots, say so and mention the busiest conflicting events
+→ Never invent free time from event lists alone
+
 For SUMMARY queries:
 → Group by theme (meetings, promotions, updates, discussions)
 → Lead with the most important/actionable items
@@ -405,158 +417,63 @@ TODAY'S DATE: ${today}
 `;
 };
 
-export const getUnifiedQueryPlanPrompt = (todayStr: string, flags: { enableWhatsApp: boolean; enableGmail: boolean; enableOutlook: boolean }) => {
-  const { enableWhatsApp, enableGmail, enableOutlook } = flags;
-
-  // Rules for enabling sources
-  const gmailRule = enableGmail
-    ? "Gmail is ENABLED. Set 'needsGmail' to TRUE for email-related questions, documents, pricing, contracts, or general inquiries."
-    : "Gmail is DISABLED. Set 'needsGmail' to FALSE.";
-
-  const outlookRule = enableOutlook
-    ? "Outlook is ENABLED. Set 'needsOutlook' to TRUE for email-related questions (similar to Gmail targets)."
-    : "Outlook is DISABLED. Set 'needsOutlook' to FALSE.";
-
-  const whatsAppRule = enableWhatsApp
-    ? "WhatsApp is ENABLED. Set 'needsWhatsApp' to TRUE for questions about casual chats, immediate updates, personal coordination, or specific message history."
-    : "WhatsApp is DISABLED. Set 'needsWhatsApp' to FALSE.";
+export const getUnifiedQueryPlanPrompt = (todayStr: string, providers: SearchProvider[], localNow?: string) => {
+  // Only enabled providers are passed in; anything not listed here cannot be searched
+  const enabledRules = providers
+    .map((p, i) => `${i + 1}. ${p.label} is ENABLED. Set '${getAnalysisKey(p)}' to TRUE ${p.prompt.whenToUse}.`)
+    .join('\n');
+
+  const searchRules = providers
+    .map(p => `=== ${p.label.toUpperCase()} SEARCH RULES ===\n${p.prompt.rules}`)
+    .join('\n\n');
+
+  const analysisFormat = providers
+    .map(p => `    "${getAnalysisKey(p)}": boolean`)
+    .join(',\n');
+
+  // Each example question once, in the order providers list them, with every offered provider's plan
+  const questions = [...new Set(providers.flatMap(p => p.prompt.examples.map(example => example.question)))];
+  const examples = questions
+    .map(question => {
+      const plans = providers.map(p => ({ provider: p, plan: p.prompt.examples.find(example => example.question === question)?.plan ?? null }));
+      const analysis = plans.map(({ provider, plan }) => `"${getAnalysisKey(provider)}": ${plan !== null}`).join(', ');
+      const planLines = plans.map(({ provider, plan }) => `  "${provider.id}": ${plan ?? 'null'}`).join(',\n');
+      return `User: "${question}"\nJSON:\n{\n  "analysis": { ${analysis} },\n${planLines}\n}`;
+    })
+    .join('\n\n');
+
+  const planFormats = providers
+    .map((p, i) => {
+      const separator = i < providers.length - 1 ? ',' : '';
+      return `  "${p.id}": ${p.prompt.planFormat} | null${separator}              // Null if ${getAnalysisKey(p)} is false`;
+    })
+    .join('\n');
 
   return `You are a search planner for a workspace assistant.
 Your task is to analyze the user's query and generate a comprehensive search plan for multiple data sources.
 
-TODAY'S DATE: ${todayStr}
+TODAY'S DATE: ${todayStr}${localNow ? `
+USER'S LOCAL TIME: ${localNow}. Resolve "today", "yesterday", "tonight", "this week" and weekday names in this time zone; all dates in the plan are the user's local dates.` : ''}
 
 === ENABLED SOURCES ===
-1. ${gmailRule}
-2. ${outlookRule}
-3. ${whatsAppRule}
-4. Calendar: Always ENABLED for schedule, meetings, events.
-
-=== GMAIL & OUTLOOK SEARCH RULES ===
-- Convert natural language to strictly valid search operators.
-- GMAIL ALLOWED: from:, to:, subject:, has:attachment, filename:, after:, before:, newer_than:, is:unread.
-- OUTLOOK (KQL) ALLOWED: 
-  - from:, to:, cc:, bcc:, subject:, participants: (from/to/cc/bcc)
-  - attachmentnames: (filename search)
-  - hasattachment:true|false
-  - importance:high|medium|low
-  - kind:email|meetings|notes|tasks|posts
-  - isread:true|false
-  - category:"Name"
-  - size>BYTES or size:BYTES..BYTES
-  - received:YYYY-MM-DD or received:YYYY-MM-DD..YYYY-MM-DD
-- STRICT 6-MONTH LIMIT: Always apply date filters (e.g. newer_than:180d for Gmail, received:YYYY-MM-DD..YYYY-MM-DD for Outlook) unless the user explicitly asks for older items.
-- OUTLOOK DATE RULES: Use ISO format YYYY-MM-DD. For relative ranges, calculate the dates based on TODAY'S DATE.
-- Use '..' for ranges in Outlook (e.g. received:2025-01-10..2026-01-10).
-- Negation: use '-' for Gmail (e.g., -from:me), and NOT for Outlook OR prefix with '-' (e.g. NOT from:me or -from:me).
-
-=== WHATSAPP SEARCH RULES ===
-- Extract broad keywords for message content search.
-- Identify specific sender names if mentioned (e.g. "from John").
-- Date ranges: 'days' looking back from today.
+${enabledRules || 'No sources are enabled.'}
+Any source not listed above is DISABLED: do not include it in the plan.
+
+${searchRules}
 
 === OUTPUT FORMAT ===
 Return a single JSON object matching this schema:
 
 {
   "analysis": {
-    "needsGmail": boolean,
-    "needsOutlook": boolean,
-    "needsCalendar": boolean,
-    "needsWhatsApp": boolean,
-    "calendarDateRange": { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" } | null
-  },
-  "gmail": {
-    "gmailQuery": string,          // The actual search query string
-    "intent": "search" | "count" | "summary" | "meetings",
-    "dateRange": { "days": number | null } | null,
-    "filters": {
-      "segments": string[],
-      "negatedSegments": string[],
-      "participants": string[] | null,
-      "keywords": string[] | null,
-      "hasAttachment": boolean | null
-    },
-    "explanation": string
-  } | null,                       // Null if needsGmail is false
-  "outlook": {
-    "outlookQuery": string,       // The actual search query string (KQL compatible)
-    "intent": "search" | "count" | "summary" | "meetings",
-    "dateRange": { "days": number | null } | null,
-    "filters": {
-      "segments": string[],
-      "negatedSegments": string[],
-      "participants": string[] | null,
-      "keywords": string[] | null,
-      "hasAttachment": boolean | null
-    },
-    "explanation": string
-  } | null,                       // Null if needsOutlook is false
-  "whatsapp": {
-    "keywords": string[],         // Tokens to search for
-    "sender": string | null,      // Specific sender name filter
-    "dateRange": { "days": number | null } | null,
-    "limit": number
-  } | null                        // Null if needsWhatsApp is false
-}
-
-=== EXAMPLES ===
-
-User: "pricing from John"
-JSON:
-{
-  "analysis": { "needsGmail": true, "needsOutlook": true, "needsWhatsApp": true, "needsCalendar": false, "calendarDateRange": null },
-  "gmail": {
-    "gmailQuery": "from:John (pricing OR quote OR cost) newer_than:180d",
-    "intent": "search",
-    "dateRange": { "days": 180 },
-    "filters": { "segments": ["from:John", "pricing", "quote", "cost"], "negatedSegments": [], "participants": ["John"], "keywords": ["pricing"], "hasAttachment": null },
-    "explanation": "Searching emails from John about pricing"
+${analysisFormat}
   },
-  "outlook": {
-    "outlookQuery": "from:John (pricing OR quote OR cost) received:2025-07-10..2026-01-10",
-    "intent": "search",
-    "dateRange": { "days": 180 },
-    "filters": { "segments": ["from:John", "pricing", "quote", "cost"], "negatedSegments": [], "participants": ["John"], "keywords": ["pricing"], "hasAttachment": null },
-    "explanation": "Searching emails from John about pricing within last 6 months"
-  },
-  "whatsapp": {
-    "keywords": ["pricing", "quote", "cost"],
-    "sender": "John",
-    "dateRange": { "days": 180 },
-    "limit": 10
-  }
+${planFormats}
 }
 
-User: "high importance emails from last week"
-JSON:
-{
-  "analysis": { "needsGmail": true, "needsOutlook": true, "needsCalendar": false, "needsWhatsApp": false, "needsLinkedIn": false, "calendarDateRange": null },
-  "gmail": {
-    "gmailQuery": "is:important newer_than:7d",
-    "intent": "search",
-    "dateRange": { "days": 7 },
-    "filters": { "segments": ["is:important"], "negatedSegments": [], "participants": null, "keywords": [], "hasAttachment": null },
-    "explanation": "Searching important emails from last week"
-  },
-  "outlook": {
-    "outlookQuery": "importance:high received:2026-01-03..2026-01-10",
-    "intent": "search",
-    "dateRange": { "days": 7 },
-    "filters": { "segments": ["importance:high"], "negatedSegments": [], "participants": null, "keywords": [], "hasAttachment": null },
-    "explanation": "Searching high importance emails from last week"
-  },
-  "whatsapp": null
-}
+${examples ? `=== EXAMPLES ===
 
-User: "meeting next week"
-JSON:
-{
-  "analysis": { "needsGmail": false, "needsOutlook": false, "needsWhatsApp": false, "needsCalendar": true, "calendarDateRange": { "start": "...", "end": "..." } },
-  "gmail": null,
-  "outlook": null,
-  "whatsapp": null
-}
+${examples}
 
-Generate the JSON plan now.`;
+` : ''}Generate the JSON plan now.`;
 };
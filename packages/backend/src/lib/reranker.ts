@@ -0,0 +1,333 @@
+import OpenAI from 'openai';
+import type { SearchHit } from '../types/search.js';
+import { truncateToTokens } from './tokens.js';
+
+// Hits passed on to synthesis after reranking (override with RERANK_TOP_N)
+const DEFAULT_TOP_N = 30;
+
+// Recency score halves every this many days away from now
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// Text sent to a model scorer per hit
+const MODEL_SCORER_MAX_TOKENS = 300;
+
+// Relative weight of each signal; signals that don't apply to a query are left out and the rest renormalized
+const WEIGHTS = {
+  lexical: 0.35,
+  participant: 0.2,
+  recency: 0.15,
+  source: 0.1,
+  model: 0.2,
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'about', 'all', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'get', 'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'last', 'me', 'my', 'of', 'on', 'or', 'say', 'said',
+  'show', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'with', 'you',
+]);
+
+/**
+ * What hits are scored against: the question plus the entities the planner extracted.
+ */
+export interface RerankQuery {
+  text: string;
+  keywords: string[];
+  participants: string[];
+}
+
+/**
+ * Scoring inputs for one hit, each 0..1 (null when the signal doesn't apply).
+ * Returned to clients in debug mode.
+ */
+export interface RerankScores {
+  id: string;
+  source: SearchHit['source'];
+  lexical: number;
+  participant: number | null;
+  recency: number | null;
+  source_prior: number;
+  model: number | null;
+  final: number;
+}
+
+/**
+ * Optional query/document relevance model (LLM or cross-encoder), 0..1 per hit.
+ */
+export interface RerankModelScorer {
+  id: string;
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+/**
+ * Asks the chat model (via OpenRouter) to grade every hit in one call.
+ */
+export class LLMRerankScorer implements RerankModelScorer {
+  readonly id = 'llm';
+  private client = new OpenAI({
+    baseURL: 'https://openrouter.ai/api/v1',
+    apiKey: process.env.OPENROUTER_API_KEY,
+    defaultHeaders: {
+      'HTTP-Referer': process.env.APP_URL ?? 'http://localhost:3000',
+      'X-Title': 'Dotor',
+    },
+  });
+
+  constructor(private model: string) {}
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const listing = documents.map((doc, index) => `[${index}] ${doc.replace(/\s+/g, ' ')}`).join('\n');
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      response_format: { type: 'json_object' },
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content: 'You grade search results for relevance to a question. Return JSON {"scores": number[]} with one score from 0 (irrelevant) to 10 (directly answers it) per result, in order.',
+        },
+        { role: 'user', content: `Question: ${query}\n\nResults:\n${listing}` },
+      ],
+    });
+
+    const parsed = JSON.parse(response.choices[0]?.message?.content ?? '{}');
+    const scores: unknown[] = Array.isArray(parsed.scores) ? parsed.scores : [];
+    return documents.map((_, index) => {
+      const value = Number(scores[index]);
+      return Number.isFinite(value) ? Math.min(Math.max(value / 10, 0), 1) : 0;
+    });
+  }
+}
+
+/**
+ * Local cross-encoder behind a text-embeddings-inference style `POST /rerank`
+ * endpoint ({ query, texts } -> [{ index, score }]).
+ */
+export class CrossEncoderRerankScorer implements RerankModelScorer {
+  readonly id = 'cross-encoder';
+
+  constructor(private url: string) {}
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+
+    const response = await fetch(`${this.url.replace(/\/$/, '')}/rerank`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, texts: documents, raw_scores: false }),
+    });
+    if (!response.ok) {
+      throw new Error(`Reranker returned ${response.status}`);
+    }
+
+    const results = await response.json() as Array<{ index: number; score: number }>;
+    const scores = new Array<number>(documents.length).fill(0);
+    for (const { index, score } of results) {
+      if (index >= 0 && index < scores.length) scores[index] = Math.min(Math.max(score, 0), 1);
+    }
+    return scores;
+  }
+}
+
+let modelScorer: RerankModelScorer | null | undefined;
+
+/**
+ * The configured model scorer, or null for heuristic-only reranking.
+ * RERANKER=llm (RERANKER_MODEL, defaults to OPENROUTER_MODEL) or RERANKER=cross-encoder (RERANKER_URL).
+ */
+export function getRerankModelScorer(): RerankModelScorer | null {
+  if (modelScorer !== undefined) return modelScorer;
+
+  switch (process.env.RERANKER) {
+    case 'llm':
+      modelScorer = new LLMRerankScorer(
+        process.env.RERANKER_MODEL ?? process.env.OPENROUTER_MODEL ?? 'openai/gpt-4-turbo-preview'
+      );
+      break;
+    case 'cross-encoder':
+      if (!process.env.RERANKER_URL) {
+        console.error('[RERANKER] RERANKER_URL is required for the cross-encoder scorer, using heuristics only');
+        modelScorer = null;
+      } else {
+        modelScorer = new CrossEncoderRerankScorer(process.env.RERANKER_URL);
+      }
+      break;
+    default:
+      modelScorer = null;
+  }
+
+  return modelScorer;
+}
+
+/**
+ * Override the model scorer (tests, scripts). Pass null for heuristics only.
+ */
+export function setRerankModelScorer(override: RerankModelScorer | null): void {
+  modelScorer = override;
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function hitText(hit: SearchHit): string {
+  const attachmentNames = hit.metadata.attachment
+    ? [hit.metadata.attachment.filename]
+    : (hit.metadata.attachments ?? []).map(a => a.filename);
+  return [hit.metadata.subject, hit.metadata.sender, hit.metadata.recipients, ...attachmentNames, hit.content]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Share of the query's terms (question + planner keywords) that appear in the hit
+function lexicalScore(queryTerms: Set<string>, hit: SearchHit): number {
+  if (queryTerms.size === 0) return 0;
+  const words = new Set(terms(hitText(hit)));
+  let matched = 0;
+  for (const term of queryTerms) {
+    // Prefix match covers simple plurals / inflections ("invoice" ~ "invoices")
+    if (words.has(term) || [...words].some(word => word.startsWith(term) || (term.startsWith(word) && word.length > 3))) {
+      matched++;
+    }
+  }
+  return matched / queryTerms.size;
+}
+
+function participantScore(participants: string[], hit: SearchHit): number | null {
+  if (participants.length === 0) return null;
+  const people = [
+    hit.metadata.sender,
+    hit.metadata.recipients,
+    ...(hit.metadata.attendees ?? []),
+    // WhatsApp chats are named after the other person / group
+    hit.source === 'whatsapp' ? hit.metadata.subject : undefined,
+  ].filter(Boolean).join(' ').toLowerCase();
+
+  return participants.some(p => people.includes(p.toLowerCase())) ? 1 : 0;
+}
+
+function recencyScore(hit: SearchHit, now: number): number | null {
+  if (!hit.metadata.date) return null;
+  const time = new Date(hit.metadata.date).getTime();
+  if (Number.isNaN(time)) return null;
+
+  // Distance either way, so upcoming events count as "recent" too
+  const days = Math.abs(now - time) / (24 * 60 * 60 * 1000);
+  return 0.5 ** (days / RECENCY_HALF_LIFE_DAYS);
+}
+
+// The plan fields the reranker reads; providers name them the same where they have them
+interface RerankablePlan {
+  filters?: { keywords?: string[] | null; participants?: string[] | null } | null;
+  keywords?: string[] | null;
+  sender?: string | null;
+  chatName?: string | null;
+}
+
+const isStringArray = (value: unknown): value is string[] | null | undefined =>
+  value == null || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+const isOptionalString = (value: unknown): value is string | null | undefined =>
+  value == null || typeof value === 'string';
+
+function isRerankablePlan(plan: unknown): plan is RerankablePlan {
+  if (typeof plan !== 'object' || plan === null) return false;
+  const { filters, keywords, sender, chatName } = plan as Record<string, unknown>;
+  if (filters != null) {
+    if (typeof filters !== 'object') return false;
+    const { keywords: filterKeywords, participants } = filters as Record<string, unknown>;
+    if (!isStringArray(filterKeywords) || !isStringArray(participants)) return false;
+  }
+  return isStringArray(keywords) && isOptionalString(sender) && isOptionalString(chatName);
+}
+
+/**
+ * Pull keywords and participants out of the provider plans.
+ * Plans are provider-specific, so only the fields that exist are read.
+ */
+export function rerankQueryFromPlans(text: string, plans: Record<string, unknown>): RerankQuery {
+  const keywords = new Set<string>();
+  const participants = new Set<string>();
+
+  for (const plan of Object.values(plans)) {
+    if (!isRerankablePlan(plan)) continue;
+    for (const keyword of plan.filters?.keywords ?? plan.keywords ?? []) keywords.add(keyword);
+    for (const participant of plan.filters?.participants ?? []) participants.add(participant);
+    if (plan.sender) participants.add(plan.sender);
+    if (plan.chatName) participants.add(plan.chatName);
+  }
+
+  return { text, keywords: [...keywords], participants: [...participants] };
+}
+
+function getTopN(): number {
+  const configured = Number(process.env.RERANK_TOP_N);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_TOP_N;
+}
+
+/**
+ * Score every hit against the query and keep the best `topN`.
+ * The final score replaces `relevance`, so later stages (context packing)
+ * prioritize by it. A failing model scorer falls back to heuristics.
+ */
+export async function rerankResults(
+  query: RerankQuery,
+  hits: SearchHit[],
+  options: { topN?: number | undefined; logger?: { warn: (obj: unknown, msg: string) => void } | undefined } = {}
+): Promise<{ hits: SearchHit[]; scores: RerankScores[] }> {
+  if (hits.length === 0) return { hits: [], scores: [] };
+
+  const now = Date.now();
+  const queryTerms = new Set([...terms(query.text), ...query.keywords.flatMap(terms)]);
+
+  let modelScores: number[] | null = null;
+  const scorer = getRerankModelScorer();
+  if (scorer) {
+    try {
+      modelScores = await scorer.score(
+        query.text,
+        hits.map(hit => truncateToTokens(hitText(hit), MODEL_SCORER_MAX_TOKENS, ''))
+      );
+    } catch (error) {
+      options.logger?.warn({ error, scorer: scorer.id }, 'Rerank model scorer failed, using heuristics only');
+    }
+  }
+
+  const scored = hits.map((hit, index) => {
+    const signals = {
+      lexical: lexicalScore(queryTerms, hit),
+      participant: participantScore(query.participants, hit),
+      recency: recencyScore(hit, now),
+      source: Math.min(Math.max(hit.relevance, 0), 1),
+      model: modelScores?.[index] ?? null,
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [name, value] of Object.entries(signals) as Array<[keyof typeof WEIGHTS, number | null]>) {
+      if (value === null) continue;
+      weighted += WEIGHTS[name] * value;
+      totalWeight += WEIGHTS[name];
+    }
+    // Counts and free slots answer the question directly, keep them ahead of the supporting results
+    const final = hit.metadata.count || hit.metadata.availability ? 1 : totalWeight > 0 ? weighted / totalWeight : 0;
+
+    const scores: RerankScores = {
+      id: hit.id,
+      source: hit.source,
+      lexical: signals.lexical,
+      participant: signals.participant,
+      recency: signals.recency,
+      source_prior: signals.source,
+      model: signals.model,
+      final,
+    };
+    return { hit: { ...hit, relevance: final }, scores };
+  });
+
+  scored.sort((a, b) => b.scores.final - a.scores.final);
+  const top = scored.slice(0, options.topN ?? getTopN());
+
+  return { hits: top.map(s => s.hit), scores: scored.map(s => s.scores) };
+}
@@ -1,7 +1,11 @@
 import OpenAI from 'openai';
 import { z } from 'zod';
-import type { SearchHit } from '../types/search.js';
+import type { Availability, SearchHit } from '../types/search.js';
 import { SYNTHESIZER_SYSTEM_PROMPT } from './prompts.js';
+import { packContext, type OmittedHit } from './context-packer.js';
+import { formatAttachmentSize } from './attachments.js';
+import { describeHistoryWindow, type HistoryWindowReport } from './history-window.js';
+import { DEFAULT_TIME_ZONE, describeLocalNow, formatZonedDateTime } from './time-zone.js';
 
 // Use OpenRouter with OpenAI SDK
 const openai = new OpenAI({
@@ -40,7 +44,10 @@ export interface CitationWithLink {
   from?: string | undefined;
   subject?: string | undefined;
   date?: string | undefined;
+  dateEnd?: string | undefined;
   recipients?: string | undefined;
+  account?: string | undefined; // Linked account the source came from
+  attachment?: string | undefined; // File name when the citation is an email attachment
 }
 
 export interface AnswerWithLinks {
@@ -48,6 +55,12 @@ export interface AnswerWithLinks {
   citations: CitationWithLink[];
   confidence: number;
   insufficient: boolean;
+  // Search results left out of the prompt (duplicates, or over the context budget)
+  omitted?: OmittedHit[] | undefined;
+  // Set when some sources were only searched within the user's history window
+  historyWindow?: HistoryWindowReport | undefined;
+  // Free slots for scheduling questions, for clients to render
+  availability?: Availability | undefined;
 }
 
 export type Answer = z.infer<typeof AnswerSchema>;
@@ -57,6 +70,138 @@ export interface Message {
   content: string;
 }
 
+export interface SynthesizeOptions {
+  // When set, the completion is streamed and each new piece of the
+  // `answer` field is passed here as soon as the model produces it
+  onAnswerDelta?: ((text: string) => void) | undefined;
+  // Sources limited to the user's history window, mentioned in the answer when it may matter
+  historyWindow?: HistoryWindowReport | undefined;
+  // User's IANA time zone: result dates are shown in it and "today" is resolved in it (default UTC)
+  timeZone?: string | undefined;
+  // Aborts the completion, e.g. when the streaming client disconnects
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Extract the (possibly incomplete) value of the top-level "answer" string
+ * from a partially streamed JSON object. Stops before any escape sequence
+ * that has not fully arrived yet.
+ */
+export function extractPartialAnswer(buffer: string): string {
+  const keyMatch = /"answer"\s*:\s*"/.exec(buffer);
+  if (!keyMatch) return '';
+
+  let text = '';
+  let i = keyMatch.index + keyMatch[0].length;
+
+  while (i < buffer.length) {
+    const char = buffer[i]!;
+    if (char === '"') break;
+
+    if (char !== '\\') {
+      text += char;
+      i++;
+      continue;
+    }
+
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+
+    if (next === 'u') {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+    text += escapes[next] ?? next;
+    i += 2;
+  }
+
+  return text;
+}
+
+/**
+ * Run the synthesizer completion in streaming mode, forwarding answer text
+ * deltas as they arrive. Returns the full raw JSON content.
+ */
+async function streamCompletion(
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  onAnswerDelta: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const stream = await openai.chat.completions.create({
+    model: DEFAULT_MODEL,
+    messages,
+    response_format: { type: 'json_object' },
+    temperature: 0.1,
+    stream: true,
+  }, { signal });
+
+  let buffer = '';
+  let emittedLength = 0;
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (!delta) continue;
+
+    buffer += delta;
+    const answerSoFar = extractPartialAnswer(buffer);
+    if (answerSoFar.length > emittedLength) {
+      onAnswerDelta(answerSoFar.slice(emittedLength));
+      emittedLength = answerSoFar.length;
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * A result date as local wall-clock time. Date-only values (all-day events) and
+ * strings that don't parse are passed through unchanged.
+ */
+function formatResultDate(value: string, timeZone: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : formatZonedDateTime(date, timeZone);
+}
+
+/**
+ * Render one search result as it appears in the prompt
+ */
+function formatResult(hit: SearchHit, index: number, timeZone: string): string {
+  const parts = [`[${index}] Source: ${hit.source}`];
+  if (hit.metadata.sender) parts.push(`From: ${hit.metadata.sender}`);
+  if (hit.metadata.subject) parts.push(`Subject: ${hit.metadata.subject}`);
+  if (hit.metadata.date) {
+    const date = formatResultDate(hit.metadata.date, timeZone);
+    parts.push(hit.metadata.dateEnd
+      ? `Date: ${date} to ${formatResultDate(hit.metadata.dateEnd, timeZone)}`
+      : `Date: ${date}`);
+  }
+  if (hit.metadata.attendees?.length) parts.push(`Attendees: ${hit.metadata.attendees.join(', ')}`);
+  if (hit.metadata.location) parts.push(`Location: ${hit.metadata.location}`);
+  if (hit.metadata.calendar) parts.push(`Calendar: ${hit.metadata.calendar}`);
+  if (hit.metadata.account) parts.push(`Account: ${hit.metadata.account}`);
+  if (hit.metadata.count) {
+    parts.push(`Count: ${hit.metadata.count.value} (${hit.metadata.count.exact ? 'exact' : 'estimated'})`);
+  }
+  if (hit.metadata.availability) {
+    parts.push(`Availability: ${hit.metadata.availability.slots.length} free slot(s), times in ${hit.metadata.availability.timeZone}`);
+  }
+  if (hit.metadata.attachment) {
+    parts.push(`Attachment: ${hit.metadata.attachment.filename} (text extracted from the file attached to this email)`);
+  } else if (hit.metadata.attachments?.length) {
+    const files = hit.metadata.attachments.map(a => `${a.filename} (${a.mimeType}, ${formatAttachmentSize(a.size)})`);
+    parts.push(`Attachments: ${files.join(', ')}`);
+  }
+  parts.push(`Content: ${hit.content}`);
+  parts.push(`ID: ${hit.id}`);
+  return parts.join('\n');
+}
+
 /**
  * Synthesize an answer from search results
  * Uses only provided snippets - no hallucination
@@ -64,7 +209,8 @@ export interface Message {
 export async function synthesizeAnswer(
   userQuery: string,
   results: SearchHit[],
-  conversationHistory: Message[] = []
+  conversationHistory: Message[] = [],
+  options: SynthesizeOptions = {}
 ): Promise<AnswerWithLinks> {
   // Handle empty results
   if (results.length === 0) {
@@ -79,30 +225,42 @@ export async function synthesizeAnswer(
     // The `analyzeQuery` should have handled converting "and him?" to a real query.
     // So if we are here with 0 results, it means the search failed.
 
+    const window = options.historyWindow;
     return {
-      answer: 'I could not find any relevant information to answer your question.',
+      answer: window
+        ? `I could not find any relevant information in the last ${describeHistoryWindow(window.days)}. Older messages weren't searched; ask about a specific period or widen the search history in your profile.`
+        : 'I could not find any relevant information to answer your question.',
       citations: [],
       confidence: 0,
       insufficient: true,
+      historyWindow: window,
     };
   }
 
+  // Structured free slots are returned as is, whatever the model writes about them
+  const availability = results.find(hit => hit.metadata.availability)?.metadata.availability;
+
+  // Keep the prompt within the context budget
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE;
+  const packed = packContext(results, hit => formatResult(hit, results.length, timeZone));
+  const omitted = packed.omitted.length > 0 ? packed.omitted : undefined;
+
   // Build a map of index to result for linking citations later
   const resultMap = new Map<number, SearchHit>();
-  results.forEach((hit, index) => {
+  packed.hits.forEach((hit, index) => {
     resultMap.set(index + 1, hit); // 1-indexed for [1], [2], etc.
   });
 
-  // Format results for the prompt
-  const formattedResults = results.map((hit, index) => {
-    const parts = [`[${index + 1}] Source: ${hit.source}`];
-    if (hit.metadata.sender) parts.push(`From: ${hit.metadata.sender}`);
-    if (hit.metadata.subject) parts.push(`Subject: ${hit.metadata.subject}`);
-    if (hit.metadata.date) parts.push(`Date: ${hit.metadata.date}`);
-    parts.push(`Content: ${hit.content}`);
-    parts.push(`ID: ${hit.id}`);
-    return parts.join('\n');
-  }).join('\n\n');
+  const formattedResults = packed.hits.map((hit, index) => formatResult(hit, index + 1, timeZone)).join('\n\n');
+
+  const budgetOmitted = packed.omitted.filter(hit => hit.reason === 'budget').length;
+  const omittedNote = budgetOmitted > 0
+    ? `\n\nNote: ${budgetOmitted} lower-priority result(s) were left out to fit the context. If the question asks for a complete list or count, say the answer may be incomplete.`
+    : '';
+
+  const historyNote = options.historyWindow
+    ? `\n\nNote: ${options.historyWindow.sources.join(', ')} only searched the last ${describeHistoryWindow(options.historyWindow.days)}. If the answer is missing, incomplete or a "first"/"earliest"/count question, say older results may exist outside that window.`
+    : '';
 
   const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
     {
@@ -117,19 +275,26 @@ export async function synthesizeAnswer(
       role: 'user',
       content: `Question: ${userQuery}
 
+Current time: ${describeLocalNow(timeZone)}. Dates below are in the user's local time (${timeZone}); write dates and times in it too.
+
 Search Results:
-${formattedResults}`,
+${formattedResults}${omittedNote}${historyNote}`,
     },
   ];
 
-  const response = await openai.chat.completions.create({
-    model: DEFAULT_MODEL,
-    messages,
-    response_format: { type: 'json_object' },
-    temperature: 0.1,
-  });
+  let content: string | null | undefined;
+  if (options.onAnswerDelta) {
+    content = await streamCompletion(messages, options.onAnswerDelta, options.signal);
+  } else {
+    const response = await openai.chat.completions.create({
+      model: DEFAULT_MODEL,
+      messages,
+      response_format: { type: 'json_object' },
+      temperature: 0.1,
+    }, { signal: options.signal });
+    content = response.choices[0]?.message?.content;
+  }
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     return {
       answer: 'Failed to generate an answer. Please try again.',
@@ -148,7 +313,7 @@ ${formattedResults}`,
       // Try to find the corresponding result by ID or by index
       let sourceHit: SearchHit | undefined;
 
-      // First try to match by ID directly
+      // First try to match by ID directly (full hit, not the truncated prompt copy)
       sourceHit = results.find(r => r.id === citation.id);
 
       // If not found, try to extract index from citation ID like "[1]" or "1"
@@ -156,7 +321,8 @@ ${formattedResults}`,
         const indexMatch = citation.id.match(/\d+/);
         if (indexMatch) {
           const index = parseInt(indexMatch[0], 10);
-          sourceHit = resultMap.get(index);
+          const packedHit = resultMap.get(index);
+          sourceHit = packedHit && results.find(r => r.id === packedHit.id);
         }
       }
 
@@ -170,7 +336,10 @@ ${formattedResults}`,
         enrichedCitation.from = sourceHit.metadata.sender;
         enrichedCitation.subject = sourceHit.metadata.subject;
         enrichedCitation.date = sourceHit.metadata.date;
+        enrichedCitation.dateEnd = sourceHit.metadata.dateEnd;
         enrichedCitation.recipients = sourceHit.metadata.recipients;
+        enrichedCitation.account = sourceHit.metadata.account;
+        enrichedCitation.attachment = sourceHit.metadata.attachment?.filename;
 
         // Use the snippet as content if available
         if (sourceHit.content) {
@@ -180,15 +349,23 @@ ${formattedResults}`,
         // Add link based on source type
         if (sourceHit.metadata.webLink) {
           enrichedCitation.link = sourceHit.metadata.webLink;
+          // Google Calendar event links open in the first signed-in account unless told otherwise
+          if (sourceHit.source === 'calendar' && sourceHit.metadata.account && sourceHit.metadata.webLink.startsWith('https://www.google.com/calendar/')) {
+            enrichedCitation.eventId = sourceHit.metadata.eventId;
+            enrichedCitation.link += `&authuser=${encodeURIComponent(sourceHit.metadata.account)}`;
+          }
         } else if (sourceHit.source === 'gmail' && sourceHit.metadata.messageId) {
           enrichedCitation.messageId = sourceHit.metadata.messageId;
           enrichedCitation.threadId = sourceHit.metadata.threadId;
-          // Gmail URL format: https://mail.google.com/mail/u/0/#inbox/MESSAGE_ID
-          enrichedCitation.link = `https://mail.google.com/mail/u/0/#inbox/${sourceHit.metadata.messageId}`;
+          // Gmail URL format: https://mail.google.com/mail/u/<account>/#inbox/MESSAGE_ID
+          // Addressing by email opens the right inbox when several accounts are signed in
+          const gmailUser = sourceHit.metadata.account ? encodeURIComponent(sourceHit.metadata.account) : '0';
+          enrichedCitation.link = `https://mail.google.com/mail/u/${gmailUser}/#inbox/${sourceHit.metadata.messageId}`;
         } else if (sourceHit.source === 'calendar' && sourceHit.metadata.eventId) {
           enrichedCitation.eventId = sourceHit.metadata.eventId;
           // Google Calendar URL
-          enrichedCitation.link = `https://calendar.google.com/calendar/u/0/r/eventedit/${sourceHit.metadata.eventId}`;
+          const authUser = sourceHit.metadata.account ? `?authuser=${encodeURIComponent(sourceHit.metadata.account)}` : '';
+          enrichedCitation.link = `https://calendar.google.com/calendar/u/0/r/eventedit/${sourceHit.metadata.eventId}${authUser}`;
         }
 
         // Update the ID to be the actual message/event ID
@@ -205,6 +382,9 @@ ${formattedResults}`,
       citations: enrichedCitations,
       confidence: rawAnswer.confidence,
       insufficient: rawAnswer.insufficient,
+      omitted,
+      historyWindow: options.historyWindow,
+      availability,
     };
   } catch {
     return {
@@ -212,6 +392,9 @@ ${formattedResults}`,
       citations: [],
       confidence: 50,
       insufficient: false,
+      omitted,
+      historyWindow: options.historyWindow,
+      availability,
     };
   }
 }
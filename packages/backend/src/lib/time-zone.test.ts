@@ -0,0 +1,103 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays, describeLocalNow, zonedDateString, zonedDateTimeToUtc, zonedParts } from './time-zone.js';
+
+// Furthest ahead of and behind UTC
+const UTC_PLUS_14 = 'Pacific/Kiritimati';
+const UTC_MINUS_12 = 'Etc/GMT+12';
+
+describe('zonedDateString', () => {
+  test('UTC+14 is on the next day from 10:00 UTC', () => {
+    assert.equal(zonedDateString(new Date('2026-06-15T09:59:00Z'), UTC_PLUS_14), '2026-06-15');
+    assert.equal(zonedDateString(new Date('2026-06-15T10:00:00Z'), UTC_PLUS_14), '2026-06-16');
+  });
+
+  test('UTC-12 is on the previous day until 12:00 UTC', () => {
+    assert.equal(zonedDateString(new Date('2026-06-15T11:59:00Z'), UTC_MINUS_12), '2026-06-14');
+    assert.equal(zonedDateString(new Date('2026-06-15T12:00:00Z'), UTC_MINUS_12), '2026-06-15');
+  });
+
+  test('the same instant falls on three dates around the world', () => {
+    const instant = new Date('2026-06-15T11:00:00Z');
+    assert.equal(zonedDateString(instant, UTC_MINUS_12), '2026-06-14');
+    assert.equal(zonedDateString(instant, 'UTC'), '2026-06-15');
+    assert.equal(zonedDateString(instant, UTC_PLUS_14), '2026-06-16');
+  });
+
+  test('crosses year ends', () => {
+    assert.equal(zonedDateString(new Date('2026-12-31T10:30:00Z'), UTC_PLUS_14), '2027-01-01');
+    assert.equal(zonedDateString(new Date('2027-01-01T11:30:00Z'), UTC_MINUS_12), '2026-12-31');
+  });
+});
+
+describe('zonedDateTimeToUtc', () => {
+  test('local midnight at the UTC±14 edges', () => {
+    assert.equal(zonedDateTimeToUtc('2026-06-16', '00:00', UTC_PLUS_14).toISOString(), '2026-06-15T10:00:00.000Z');
+    assert.equal(zonedDateTimeToUtc('2026-06-16', '00:00', UTC_MINUS_12).toISOString(), '2026-06-16T12:00:00.000Z');
+  });
+
+  test('round-trips to the same local date', () => {
+    for (const timeZone of [UTC_PLUS_14, UTC_MINUS_12, 'Asia/Kolkata', 'America/New_York']) {
+      const instant = zonedDateTimeToUtc('2026-06-16', '23:59', timeZone);
+      assert.equal(zonedDateString(instant, timeZone), '2026-06-16', timeZone);
+    }
+  });
+
+  test('a wall time skipped by spring-forward resolves to an hour earlier', () => {
+    // America/New_York jumps from 02:00 EST to 03:00 EDT on 2026-03-08
+    assert.equal(zonedDateTimeToUtc('2026-03-08', '02:30', 'America/New_York').toISOString(), '2026-03-08T06:30:00.000Z');
+    assert.equal(zonedDateTimeToUtc('2026-03-08', '03:00', 'America/New_York').toISOString(), '2026-03-08T07:00:00.000Z');
+  });
+
+  test('a wall time repeated by fall-back resolves to its first occurrence', () => {
+    // America/New_York goes from 02:00 EDT back to 01:00 EST on 2026-11-01
+    assert.equal(zonedDateTimeToUtc('2026-11-01', '01:30', 'America/New_York').toISOString(), '2026-11-01T05:30:00.000Z');
+  });
+
+  test('DST days are 23 and 25 hours long', () => {
+    const hours = (date: string, timeZone: string) =>
+      (zonedDateTimeToUtc(addDays(date, 1), '00:00', timeZone).getTime()
+        - zonedDateTimeToUtc(date, '00:00', timeZone).getTime()) / 3_600_000;
+
+    assert.equal(hours('2026-03-08', 'America/New_York'), 23);
+    assert.equal(hours('2026-11-01', 'America/New_York'), 25);
+    assert.equal(hours('2026-03-29', 'Europe/London'), 23);
+    assert.equal(hours('2026-10-25', 'Europe/London'), 25);
+    assert.equal(hours('2026-03-08', UTC_PLUS_14), 24);
+  });
+});
+
+describe('zonedParts', () => {
+  test('weekday follows the local date, not the UTC one', () => {
+    // Monday 2026-06-15 at 11:00 UTC is still Sunday in UTC-12 and already Tuesday in UTC+14
+    const instant = new Date('2026-06-15T11:00:00Z');
+    assert.equal(zonedParts(instant, 'UTC').weekday, 1);
+    assert.equal(zonedParts(instant, UTC_MINUS_12).weekday, 7);
+    assert.equal(zonedParts(instant, UTC_PLUS_14).weekday, 2);
+  });
+});
+
+describe('addDays', () => {
+  test('ignores DST and crosses months, leap days and years', () => {
+    assert.equal(addDays('2026-03-07', 1), '2026-03-08');
+    assert.equal(addDays('2028-02-28', 1), '2028-02-29');
+    assert.equal(addDays('2026-12-31', 1), '2027-01-01');
+    assert.equal(addDays('2026-01-01', -1), '2025-12-31');
+  });
+});
+
+describe('describeLocalNow', () => {
+  test('late evening for a user behind the server', () => {
+    assert.equal(
+      describeLocalNow('America/Los_Angeles', new Date('2026-06-15T05:30:00Z')),
+      '2026-06-14 (Sunday), 22:30 in America/Los_Angeles'
+    );
+  });
+
+  test('just after midnight for a user ahead of the server', () => {
+    assert.equal(
+      describeLocalNow(UTC_PLUS_14, new Date('2026-06-15T10:30:00Z')),
+      '2026-06-16 (Tuesday), 00:30 in Pacific/Kiritimati'
+    );
+  });
+});
@@ -0,0 +1,120 @@
+// Zero-dependency IANA time zone helpers built on Intl.DateTimeFormat
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  // ISO weekday, 1 = Monday ... 7 = Sunday
+  weekday: number;
+}
+
+// Used when neither the profile nor the request names a time zone
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const WEEKDAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of `date` in `timeZone`.
+ */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) parts[part.type] = part.value;
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS[parts.weekday ?? ''] ?? 1,
+  };
+}
+
+// Offset of `timeZone` from UTC at `date`, in milliseconds (positive east of UTC)
+function offsetAt(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `date` (YYYY-MM-DD) `time` (HH:MM).
+ * Wall times skipped by a DST change don't exist; they resolve to the instant an hour earlier.
+ */
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  const [hour, minute] = time.split(':').map(Number) as [number, number];
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Guess with the offset at the wall-clock time read as UTC, then correct once for a DST change in between
+  const guess = wallClock - offsetAt(new Date(wallClock), timeZone);
+  return new Date(wallClock - offsetAt(new Date(guess), timeZone));
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of `date` in `timeZone`.
+ */
+export function zonedDateString(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * YYYY-MM-DD `days` after `date` (pure calendar arithmetic, no time zone involved).
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Wall-clock "YYYY-MM-DD HH:MM" of `date` in `timeZone`, for prompts and message transcripts.
+ */
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * "2026-10-18 (Sunday), 14:05 in Asia/Kolkata": the user's current local date and time,
+ * so relative dates ("today", "yesterday", "this week") are resolved in their time zone.
+ */
+export function describeLocalNow(timeZone: string, now: Date = new Date()): string {
+  const p = zonedParts(now, timeZone);
+  return `${zonedDateString(now, timeZone)} (${WEEKDAY_NAMES[p.weekday - 1]}), ${pad(p.hour)}:${pad(p.minute)} in ${timeZone}`;
+}
@@ -0,0 +1,15 @@
+// Rough token count for prompt budgeting (~4 characters per token for English text).
+// Deliberately tokenizer-free: budgets only need to be in the right ballpark.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Cut text to roughly `maxTokens`, preferring a line or word boundary
+export function truncateToTokens(text: string, maxTokens: number, marker = ' …[truncated]'): string {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) return text;
+
+  const cut = text.slice(0, Math.max(maxChars - marker.length, 0));
+  const boundary = Math.max(cut.lastIndexOf('\n'), cut.lastIndexOf(' '));
+  return (boundary > cut.length * 0.8 ? cut.slice(0, boundary) : cut) + marker;
+}
@@ -0,0 +1,51 @@
+/**
+ * Per-user scheduling preferences (time zone, working hours), stored on `profiles`
+ */
+
+import { supabaseAdmin } from './supabase.js';
+import { DEFAULT_WORKING_HOURS } from './free-busy.js';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from './time-zone.js';
+import type { WorkingHours } from '../types/search.js';
+
+export interface SchedulingPreferences {
+  // IANA time zone: the profile setting, else the client's, else UTC
+  timeZone: string;
+  workingHours: WorkingHours;
+}
+
+// Postgres `time` columns come back as HH:MM:SS
+const toHourMinute = (time: string | null | undefined, fallback: string) => (time ? time.slice(0, 5) : fallback);
+
+/**
+ * Scheduling preferences for a user. `clientTimeZone` (the browser's zone, sent with
+ * the request) is used when the profile has none; invalid zones are ignored.
+ * Falls back to defaults (UTC, 09:00-17:00 Mon-Fri) when the profile is missing
+ * or the database is unavailable.
+ */
+export async function getSchedulingPreferences(userId: string, clientTimeZone?: string): Promise<SchedulingPreferences> {
+  const fallbackTimeZone = clientTimeZone && isValidTimeZone(clientTimeZone) ? clientTimeZone : DEFAULT_TIME_ZONE;
+  const defaults: SchedulingPreferences = { timeZone: fallbackTimeZone, workingHours: { ...DEFAULT_WORKING_HOURS } };
+  if (!supabaseAdmin) return defaults;
+
+  try {
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('time_zone, working_hours_start, working_hours_end, working_days')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!profile) return defaults;
+
+    return {
+      timeZone: profile.time_zone && isValidTimeZone(profile.time_zone) ? profile.time_zone : fallbackTimeZone,
+      workingHours: {
+        start: toHourMinute(profile.working_hours_start, DEFAULT_WORKING_HOURS.start),
+        end: toHourMinute(profile.working_hours_end, DEFAULT_WORKING_HOURS.end),
+        days: profile.working_days?.length ? profile.working_days : DEFAULT_WORKING_HOURS.days,
+      },
+    };
+  } catch (error) {
+    console.warn('Failed to fetch scheduling preferences from database:', error);
+    return defaults;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Progress of a WhatsApp history backfill, as stored in `whatsapp_backfills`
+ */
+
+import type { Database } from '../types/database.js';
+
+type BackfillRow = Database['public']['Tables']['whatsapp_backfills']['Row'];
+
+export interface BackfillChatCheckpoint {
+  chatId: string;
+  chatName: string;
+  // truncated: more history than the browser can load; it stops at oldestUploadedAt
+  status: 'pending' | 'done' | 'truncated' | 'failed';
+  messagesUploaded: number;
+  oldestUploadedAt: string | null;
+}
+
+export interface BackfillSummary {
+  status: string;
+  since: string;
+  chatsTotal: number;
+  // Includes truncated chats, which are finished but missing their oldest messages
+  chatsDone: number;
+  chatsTruncated: number;
+  chatsFailed: number;
+  messagesUploaded: number;
+  // 0..1, counting the covered share of the date range for chats in progress
+  progress: number;
+  // Estimated seconds left; null until there is enough progress to extrapolate
+  etaSeconds: number | null;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+  chats: BackfillChatCheckpoint[];
+}
+
+// A running backfill that hasn't reported for this long lost its browser (server restart, crash)
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Status to show for a row: `running` rows that stopped reporting are `interrupted`
+ */
+export function effectiveBackfillStatus(row: BackfillRow, now: Date = new Date()): string {
+  if (row.status === 'running' && now.getTime() - new Date(row.updated_at).getTime() > STALE_AFTER_MS) {
+    return 'interrupted';
+  }
+  return row.status;
+}
+
+/**
+ * Summarize a backfill row for the Connections page. A chat in progress counts for the share
+ * of the range between the start of the backfill and `since` it has uploaded so far.
+ */
+export function summarizeBackfill(row: BackfillRow, now: Date = new Date()): BackfillSummary {
+  const chats = (Array.isArray(row.chats) ? row.chats : []) as unknown as BackfillChatCheckpoint[];
+  const status = effectiveBackfillStatus(row, now);
+  const startedAt = new Date(row.started_at).getTime();
+  const since = new Date(row.since).getTime();
+  const range = Math.max(1, startedAt - since);
+
+  const chatProgress = (chat: BackfillChatCheckpoint) => {
+    if (chat.status !== 'pending') return 1;
+    if (!chat.oldestUploadedAt) return 0;
+    return Math.min(1, Math.max(0, (startedAt - new Date(chat.oldestUploadedAt).getTime()) / range));
+  };
+
+  const progress = status === 'completed'
+    ? 1
+    : chats.length > 0 ? chats.reduce((sum, chat) => sum + chatProgress(chat), 0) / chats.length : 0;
+  const elapsedSeconds = (now.getTime() - startedAt) / 1000;
+
+  return {
+    status,
+    since: row.since,
+    chatsTotal: chats.length,
+    chatsDone: chats.filter(chat => chat.status === 'done' || chat.status === 'truncated').length,
+    chatsTruncated: chats.filter(chat => chat.status === 'truncated').length,
+    chatsFailed: chats.filter(chat => chat.status === 'failed').length,
+    messagesUploaded: row.messages_uploaded,
+    progress,
+    etaSeconds: status === 'running' && progress > 0 && progress < 1
+      ? Math.round(elapsedSeconds * (1 - progress) / progress)
+      : null,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+    error: row.error,
+    chats,
+  };
+}
@@ -0,0 +1,237 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { estimateTokens } from './tokens.js';
+import { DEFAULT_TIME_ZONE, formatZonedDateTime } from './time-zone.js';
+import { formatAttachmentSize } from './attachments.js';
+
+// Rough token budget for the context around a single match
+const WINDOW_TOKEN_BUDGET = 600;
+
+// Neighbours fetched on each side of a match; the budget decides how many are kept
+const MAX_NEIGHBOURS = 30;
+
+// Matches per conversation that get their own window; others are usually covered by a neighbouring window
+const MAX_WINDOWS_PER_CONVERSATION = 5;
+
+export interface ContextMessage {
+  id: string;
+  conversation_id: string;
+  sender: string;
+  content: string | null;
+  timestamp: string | null;
+  // Media messages; absent on rows selected without these columns
+  message_type?: string | null;
+  caption?: string | null;
+  media_filename?: string | null;
+  media_mimetype?: string | null;
+  media_size?: number | null;
+  media_duration_seconds?: number | null;
+}
+
+/**
+ * A contiguous stretch of one conversation around one or more matches.
+ */
+export interface ContextWindow<T extends ContextMessage> {
+  conversationId: string;
+  // Oldest first
+  messages: ContextMessage[];
+  // Matches that fall inside the window, best first
+  matches: T[];
+  // Ids of the fetched neighbours just outside the window, used to spot windows that touch
+  previousId?: string;
+  nextId?: string;
+}
+
+// The parts of a message that make up its text
+type MessageBody = Pick<ContextMessage, 'content' | 'message_type' | 'caption' | 'media_filename' | 'media_size' | 'media_duration_seconds'>;
+
+const MEDIA_LABELS: Record<string, string> = {
+  image: 'Photo',
+  video: 'Video',
+  document: 'Document',
+  audio: 'Audio',
+  ptt: 'Voice note',
+  location: 'Location',
+};
+
+/**
+ * Placeholder for a message's media, e.g. `[Document: proposal.pdf, 1.2 MB]` or `[Voice note: 0:42]`.
+ * Empty for text messages.
+ */
+export function describeMedia(message: MessageBody): string {
+  const label = message.message_type ? MEDIA_LABELS[message.message_type] : undefined;
+  if (!label) return '';
+
+  const duration = message.media_duration_seconds;
+  const details = [
+    message.media_filename,
+    message.media_size ? formatAttachmentSize(message.media_size) : null,
+    duration ? `${Math.floor(duration / 60)}:${String(duration % 60).padStart(2, '0')}` : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `[${label}: ${details.join(', ')}]` : `[${label}]`;
+}
+
+/**
+ * A message's text with its media placeholder and caption, as shown to the model and embedded
+ */
+export function messageText(message: MessageBody): string {
+  return [describeMedia(message), message.caption, message.content].filter(Boolean).join(' ');
+}
+
+/**
+ * One transcript line, timestamped in the user's time zone rather than the server's locale
+ */
+export function formatMessageLine(message: ContextMessage, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const time = message.timestamp ? formatZonedDateTime(new Date(message.timestamp), timeZone) : 'unknown time';
+  return `[${time}] ${message.sender}: ${messageText(message)}`;
+}
+
+async function fetchNeighbours(supabase: SupabaseClient, match: ContextMessage) {
+  if (!match.timestamp) return { before: [], after: [] };
+
+  const columns = 'id, conversation_id, sender, content, timestamp, message_type, caption, media_filename, media_mimetype, media_size, media_duration_seconds';
+  const [before, after] = await Promise.all([
+    supabase
+      .from('synced_messages')
+      .select(columns)
+      .eq('conversation_id', match.conversation_id)
+      .lt('timestamp', match.timestamp)
+      .order('timestamp', { ascending: false })
+      .limit(MAX_NEIGHBOURS),
+    supabase
+      .from('synced_messages')
+      .select(columns)
+      .eq('conversation_id', match.conversation_id)
+      .gt('timestamp', match.timestamp)
+      .order('timestamp', { ascending: true })
+      .limit(MAX_NEIGHBOURS),
+  ]);
+
+  return {
+    // Nearest first on both sides
+    before: (before.data ?? []) as ContextMessage[],
+    after: (after.data ?? []) as ContextMessage[],
+  };
+}
+
+/**
+ * Grow a window outwards from the match, alternating newer/older neighbours,
+ * until the token budget is spent. Returns messages oldest first.
+ */
+export function fitWindow(
+  match: ContextMessage,
+  before: ContextMessage[],
+  after: ContextMessage[],
+  tokenBudget: number = WINDOW_TOKEN_BUDGET
+): ContextMessage[] {
+  const older: ContextMessage[] = [];
+  const newer: ContextMessage[] = [];
+  let remaining = tokenBudget - estimateTokens(formatMessageLine(match));
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length || j < after.length) {
+    // Replies usually follow the match, so prefer the newer side on ties
+    const takeNewer = j < after.length && (newer.length <= older.length || i >= before.length);
+    const next = takeNewer ? after[j]! : before[i]!;
+    const cost = estimateTokens(formatMessageLine(next));
+    if (cost > remaining) break;
+
+    remaining -= cost;
+    if (takeNewer) {
+      newer.push(next);
+      j++;
+    } else {
+      older.push(next);
+      i++;
+    }
+  }
+
+  return [...older.reverse(), match, ...newer];
+}
+
+const timeOf = (message: ContextMessage) => (message.timestamp ? new Date(message.timestamp).getTime() : 0);
+
+/**
+ * Merge windows of the same conversation that overlap or touch, so no
+ * message is sent to the model twice. Windows touch when one ends on the
+ * message just before the other's first one.
+ */
+export function mergeWindows<T extends ContextMessage>(windows: ContextWindow<T>[]): ContextWindow<T>[] {
+  const sorted = [...windows].sort((a, b) => timeOf(a.messages[0]!) - timeOf(b.messages[0]!));
+  const merged: ContextWindow<T>[] = [];
+
+  for (const window of sorted) {
+    const previous = merged[merged.length - 1];
+    const previousIds = new Set(previous?.messages.map(m => m.id));
+    const previousLast = previous?.messages[previous.messages.length - 1];
+    const overlaps = previous
+      && previous.conversationId === window.conversationId
+      && (window.messages.some(m => previousIds.has(m.id))
+        || timeOf(window.messages[0]!) <= timeOf(previousLast!)
+        || (previous.nextId !== undefined && previous.nextId === window.messages[0]!.id)
+        || (window.previousId !== undefined && window.previousId === previousLast!.id));
+
+    if (!previous || !overlaps) {
+      merged.push({ ...window, messages: [...window.messages], matches: [...window.matches] });
+      continue;
+    }
+
+    for (const message of window.messages) {
+      if (!previousIds.has(message.id)) previous.messages.push(message);
+    }
+    previous.messages.sort((a, b) => timeOf(a) - timeOf(b));
+    previous.matches.push(...window.matches);
+
+    // Keep the neighbour after whichever window reaches further
+    const last = previous.messages[previous.messages.length - 1]!;
+    const windowLast = window.messages[window.messages.length - 1]!;
+    if (last.id === windowLast.id) {
+      if (window.nextId === undefined) delete previous.nextId;
+      else previous.nextId = window.nextId;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Build merged context windows around the matches of one conversation.
+ * `matches` must be ordered best first; each window's matches keep that order.
+ */
+export async function buildContextWindows<T extends ContextMessage>(
+  supabase: SupabaseClient,
+  matches: T[]
+): Promise<ContextWindow<T>[]> {
+  const anchors = matches.slice(0, MAX_WINDOWS_PER_CONVERSATION);
+
+  const windows = await Promise.all(anchors.map(async match => {
+    const { before, after } = await fetchNeighbours(supabase, match);
+    const messages = fitWindow(match, before, after);
+    const olderCount = messages.indexOf(match);
+    const previousId = before[olderCount]?.id;
+    const nextId = after[messages.length - olderCount - 1]?.id;
+    const window: ContextWindow<T> = {
+      conversationId: match.conversation_id,
+      messages,
+      matches: [match],
+    };
+    if (previousId) window.previousId = previousId;
+    if (nextId) window.nextId = nextId;
+    return window;
+  }));
+
+  const merged = mergeWindows(windows);
+
+  // Attach the remaining matches to whichever window already contains them
+  for (const match of matches.slice(MAX_WINDOWS_PER_CONVERSATION)) {
+    const window = merged.find(w => w.messages.some(m => m.id === match.id));
+    if (window) window.matches.push(match);
+  }
+
+  const rank = new Map(matches.map((match, index) => [match.id, index]));
+  for (const window of merged) {
+    window.matches.sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+  }
+
+  return merged;
+}
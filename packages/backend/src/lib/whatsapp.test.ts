@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reciprocalRankFusion } from './whatsapp.js';
+
+const ids = (fused: Array<{ item: { id: string } }>) => fused.map(({ item }) => item.id);
+
+describe('reciprocalRankFusion', () => {
+  test('items found by both retrievers rank above items found by one', () => {
+    const keyword = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+    const semantic = [{ id: 'd' }, { id: 'c' }, { id: 'e' }];
+
+    const fused = reciprocalRankFusion([keyword, semantic]);
+
+    assert.equal(fused[0]!.item.id, 'c');
+    assert.equal(fused.length, 5);
+    // Found once at the same rank, the list order breaks no ties
+    assert.equal(fused.find(entry => entry.item.id === 'a')!.score, fused.find(entry => entry.item.id === 'd')!.score);
+  });
+
+  test('scores sum 1 / (60 + rank) over the lists', () => {
+    const fused = reciprocalRankFusion([[{ id: 'a' }], [{ id: 'b' }, { id: 'a' }]]);
+
+    assert.equal(fused[0]!.score, 1 / 61 + 1 / 62);
+    assert.equal(fused[1]!.score, 1 / 61);
+  });
+
+  test('with one empty list, keeps the other list\'s order', () => {
+    const keyword = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    assert.deepEqual(ids(reciprocalRankFusion([keyword, []])), ['a', 'b', 'c']);
+    assert.deepEqual(ids(reciprocalRankFusion([[], keyword])), ['a', 'b', 'c']);
+  });
+
+  test('nothing in, nothing out', () => {
+    assert.deepEqual(reciprocalRankFusion([[], []]), []);
+  });
+});
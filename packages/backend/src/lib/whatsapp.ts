@@ -1,99 +1,220 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { SearchHit } from '../types/search.js';
-import type { WhatsAppQueryPlan } from './openai.js';
+import type { AttachmentInfo, SearchHit } from '../types/search.js';
+import type { WhatsAppQueryPlan } from '../providers/whatsapp.js';
+import { getEmbeddingBackend, toPgVector } from './embeddings.js';
+import { buildContextWindows, formatMessageLine, type ContextMessage } from './whatsapp-context.js';
+import { DEFAULT_TIME_ZONE } from './time-zone.js';
 
-export async function searchWhatsApp(
+// Reciprocal-rank fusion constant; 60 is the usual default and keeps any single list from dominating
+const RRF_K = 60;
+
+// Upper bound on the plan's limit, whatever the planner asks for
+const MAX_RESULTS = 50;
+
+// Semantic matches below this cosine similarity are unrelated to the query and kept out of the fusion
+const MIN_SEMANTIC_SIMILARITY = parseFloat(process.env.WHATSAPP_MIN_SIMILARITY ?? '0.3');
+
+// Conversations whose surrounding messages are loaded; other matches are returned on their own
+const MAX_EXPANDED_CONVERSATIONS = 3;
+
+interface MatchedMessage {
+  id: string;
+  conversation_id: string;
+  sender: string;
+  content: string | null;
+  timestamp: string | null;
+  conversation_title: string | null;
+  conversation_external_id: string | null;
+  is_from_me: boolean;
+  message_type: string;
+  caption: string | null;
+  media_filename: string | null;
+  media_mimetype: string | null;
+  media_size: number | null;
+  media_duration_seconds: number | null;
+}
+
+/**
+ * RPC arguments shared by both retrievers, derived from the plan's filters.
+ */
+function planFilters(plan: WhatsAppQueryPlan) {
+  const days = plan.dateRange?.days;
+  return {
+    p_sender: plan.sender || null,
+    p_since: days && days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : null,
+    p_chat: plan.chatName || null,
+    p_from_me: plan.fromMe ?? null,
+  };
+}
+
+/**
+ * Files shared in the messages, cited like email attachments
+ */
+function mediaAttachments(messages: ContextMessage[]): AttachmentInfo[] | undefined {
+  const attachments = messages
+    .filter(message => message.media_filename)
+    .map(message => ({
+      id: message.id,
+      filename: message.media_filename!,
+      mimeType: message.media_mimetype ?? 'application/octet-stream',
+      size: message.media_size ?? 0,
+    }));
+  return attachments.length > 0 ? attachments : undefined;
+}
+
+function resultLimit(plan: WhatsAppQueryPlan): number {
+  return Math.min(Math.max(Math.floor(plan.limit), 1), MAX_RESULTS);
+}
+
+// Keyword retriever: Postgres full-text search ranked by ts_rank
+async function keywordSearch(
   supabase: SupabaseClient,
   userId: string,
   plan: WhatsAppQueryPlan
-): Promise<SearchHit[]> {
-  const hits: SearchHit[] = [];
+): Promise<MatchedMessage[]> {
+  const { data, error } = await supabase.rpc('search_whatsapp_messages', {
+    p_user_id: userId,
+    p_keywords: plan.keywords ?? [],
+    p_limit: resultLimit(plan),
+    ...planFilters(plan),
+  });
 
-  // 1. Search for matching messages using keywords (OR logic)
-  let queryBuilder = supabase
-    .from('synced_messages')
-    .select('*, synced_conversations(title, external_id)')
-    .eq('user_id', userId)
-    .order('timestamp', { ascending: false })
-    .limit(50); // Initial loose limit
-
-  // Apply filters from plan
-  if (plan.sender) {
-    queryBuilder = queryBuilder.ilike('sender', `%${plan.sender}%`);
+  if (error) {
+    console.error('WhatsApp keyword search failed:', error);
+    return [];
   }
+  return data ?? [];
+}
 
-  // Very basic keyword filtering (Postgres text search would be better)
-  if (plan.keywords && plan.keywords.length > 0) {
-    // Construct OR filter for keywords
-    const filters = plan.keywords.map(k => `content.ilike.%${k}%`).join(',');
-    queryBuilder = queryBuilder.or(filters);
-  }
+// Vector retriever: nearest messages by embedding, skipped when no embedding backend is configured
+async function semanticSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  plan: WhatsAppQueryPlan,
+  queryText: string
+): Promise<MatchedMessage[]> {
+  const embeddingBackend = getEmbeddingBackend();
+  if (!embeddingBackend || !queryText.trim()) return [];
 
-  const { data: messages, error } = await queryBuilder;
+  try {
+    const [queryEmbedding] = await embeddingBackend.embed([queryText]);
+    if (!queryEmbedding) return [];
 
-  if (error) {
-    console.error('WhatsApp search failed:', error);
+    const { data, error } = await supabase.rpc('match_whatsapp_messages', {
+      p_user_id: userId,
+      p_query_embedding: toPgVector(queryEmbedding),
+      p_embedding_model: embeddingBackend.id,
+      p_limit: resultLimit(plan),
+      p_min_similarity: MIN_SEMANTIC_SIMILARITY,
+      ...planFilters(plan),
+    });
+
+    if (error) {
+      console.error('WhatsApp semantic search failed:', error);
+      return [];
+    }
+    return data ?? [];
+  } catch (error) {
+    console.error('WhatsApp query embedding failed:', error);
     return [];
   }
+}
+
+/**
+ * Merge ranked lists with reciprocal-rank fusion: score = sum of 1 / (k + rank)
+ * over the lists a message appears in. Returns best first.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(lists: T[][]): Array<{ item: T; score: number }> {
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((item, index) => {
+      const entry = fused.get(item.id) ?? { item, score: 0 };
+      entry.score += 1 / (RRF_K + index + 1);
+      fused.set(item.id, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+export async function searchWhatsApp(
+  supabase: SupabaseClient,
+  userId: string,
+  plan: WhatsAppQueryPlan,
+  queryText?: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Promise<SearchHit[]> {
+  const hits: SearchHit[] = [];
+
+  // 1. Hybrid retrieval: keyword (full-text) and semantic (vector) results fused by rank.
+  // The user's own question embeds better than the extracted keywords when we have it.
+  const [keywordMatches, semanticMatches] = await Promise.all([
+    keywordSearch(supabase, userId, plan),
+    semanticSearch(supabase, userId, plan, queryText || (plan.keywords ?? []).join(' ')),
+  ]);
+
+  const fused = reciprocalRankFusion([keywordMatches, semanticMatches]);
+  if (fused.length === 0) return [];
+
+  // Scale fused scores so the best match is 1, and keep only as many matches as the plan asked for
+  const maxScore = fused[0]!.score;
+  const messages = fused
+    .slice(0, resultLimit(plan))
+    .map(({ item, score }) => ({ ...item, relevance: score / maxScore }));
+
+  // 2. Context windows around the matches of the top conversations
+  // To avoid hammering DB, only the best conversations are expanded
+  // (results are ordered by fused score, so conversations appear in order of their best match)
+  const expandedConversationIds = [...new Set(messages.map(m => m.conversation_id))].slice(0, MAX_EXPANDED_CONVERSATIONS);
+  const coveredMatchIds = new Set<string>();
+
+  const windowsByConversation = await Promise.all(expandedConversationIds.map(convId =>
+    buildContextWindows(supabase, messages.filter(m => m.conversation_id === convId))
+  ));
+
+  // One hit per window, so citations point at the stretch of conversation they came from
+  for (const window of windowsByConversation.flat()) {
+    const bestMatch = window.matches[0]!;
+    const first = window.messages[0]!;
+    const last = window.messages[window.messages.length - 1]!;
+    window.matches.forEach(match => coveredMatchIds.add(match.id));
+
+    hits.push({
+      id: bestMatch.id,
+      source: 'whatsapp',
+      content: window.messages.map(message => formatMessageLine(message, timeZone)).join('\n'),
+      metadata: {
+        sender: bestMatch.sender,
+        date: first.timestamp ?? undefined,
+        dateEnd: last.timestamp !== first.timestamp ? last.timestamp ?? undefined : undefined,
+        subject: bestMatch.conversation_title || bestMatch.conversation_external_id || undefined,
+        threadId: bestMatch.conversation_id,
+        attachments: mediaAttachments(window.messages)
+      },
+      relevance: bestMatch.relevance
+    });
+  }
 
-  if (!messages || messages.length === 0) return [];
-
-  // 2. Expand context for each hit (100 before, 100 after)
-  // To avoid hammering DB, we'll just process the top result or unique conversations
-  // For now, let's take the most relevant message (most recent match) and expand it.
-  
-  // Strategy: Group by conversation, take top 3 distinct conversations
-  const distinctConversationIds = [...new Set(messages.map((m: any) => m.conversation_id))].slice(0, 3);
-
-  for (const convId of distinctConversationIds) {
-    const primaryMatch = messages.find((m: any) => m.conversation_id === convId);
-    if (!primaryMatch) continue;
-
-    // Fetch surrounding messages
-    const [before, after] = await Promise.all([
-      // 100 before
-      supabase
-        .from('synced_messages')
-        .select('*')
-        .eq('conversation_id', convId)
-        .lt('timestamp', primaryMatch.timestamp)
-        .order('timestamp', { ascending: false })
-        .limit(100),
-      // 100 after
-      supabase
-        .from('synced_messages')
-        .select('*')
-        .eq('conversation_id', convId)
-        .gt('timestamp', primaryMatch.timestamp)
-        .order('timestamp', { ascending: true })
-        .limit(100)
-    ]);
-
-    // Combine history: older -> match -> newer
-    const history = [
-      ...(before.data || []).reverse(),
-      primaryMatch,
-      ...(after.data || [])
-    ];
-
-    // Create a synthesized hit representing this conversation context
-    const fullText = history
-      .map((m: any) => `[${new Date(m.timestamp).toLocaleString()}] ${m.sender}: ${m.content}`)
-      .join('\n');
+  // 3. Remaining matches, without surrounding context
+  for (const message of messages) {
+    if (coveredMatchIds.has(message.id)) continue;
 
     hits.push({
-      id: primaryMatch.id,
+      id: message.id,
       source: 'whatsapp',
-      content: fullText, // Pass full context to LLM
+      content: formatMessageLine(message, timeZone),
       metadata: {
-        sender: primaryMatch.sender,
-        date: primaryMatch.timestamp,
-        subject: primaryMatch.synced_conversations?.title || primaryMatch.synced_conversations?.external_id,
-        threadId: primaryMatch.conversation_id
+        sender: message.sender,
+        date: message.timestamp ?? undefined,
+        subject: message.conversation_title || message.conversation_external_id || undefined,
+        threadId: message.conversation_id,
+        attachments: mediaAttachments([message])
       },
-      relevance: 1
+      relevance: message.relevance
     });
   }
 
+  hits.sort((a, b) => b.relevance - a.relevance);
   return hits;
 }
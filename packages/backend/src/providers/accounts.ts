@@ -0,0 +1,24 @@
+import type { SearchHit } from '../types/search.js';
+
+/**
+ * Run a search against each linked account in parallel and tag the hits with
+ * the account email. A failing account is logged by its service and yields no hits.
+ */
+export async function searchAccounts(
+  connections: any[] | undefined,
+  search: (connection: any) => Promise<SearchHit[]>
+): Promise<SearchHit[]> {
+  if (!connections?.length) return [];
+
+  const settled = await Promise.allSettled(
+    connections.map(async connection => {
+      const hits = await search(connection);
+      return hits.map(hit => ({
+        ...hit,
+        metadata: { ...hit.metadata, account: connection.email ?? undefined },
+      }));
+    })
+  );
+
+  return settled.flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+}
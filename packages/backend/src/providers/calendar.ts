@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import { CalendarService } from '../services/calendar-service.js';
+import { historyWindowStart } from '../lib/history-window.js';
+import { busyIntervals, findFreeSlots } from '../lib/free-busy.js';
+import { normalizeAvailabilityResult, normalizeIncompleteEventsResult } from '../lib/normalizer.js';
+import { addDays, zonedDateString, zonedDateTimeToUtc } from '../lib/time-zone.js';
+import { searchAccounts } from './accounts.js';
+import { EXAMPLE_QUESTIONS } from './example-questions.js';
+import type { SearchContext, SearchProvider } from './types.js';
+import type { Availability, SearchHit } from '../types/search.js';
+
+const timeOfDaySchema = z.string().regex(/^\d{2}:\d{2}$/);
+
+export const CalendarQueryPlanSchema = z.object({
+  // "free_time": find open slots instead of listing events
+  intent: z.enum(['events', 'free_time']).nullable().optional(),
+  dateRange: z.object({
+    start: z.string().optional(),
+    end: z.string().optional(),
+  }).nullable().optional(),
+  // Words the event's title / description / location should contain
+  query: z.string().nullable().optional(),
+  // People who organize or attend the event (names or emails)
+  attendees: z.array(z.string()).nullable().optional(),
+  // free_time only: length of the meeting to fit, and the part of the day asked about
+  durationMinutes: z.number().int().positive().nullable().optional(),
+  timeOfDay: z.object({ start: timeOfDaySchema, end: timeOfDaySchema }).nullable().optional(),
+});
+
+// Days searched for free time when the question gives no dates
+const DEFAULT_AVAILABILITY_DAYS = 7;
+
+// Events fetched per account when computing free time (every event in the range matters)
+const AVAILABILITY_MAX_EVENTS = 250;
+
+// How far ahead text / attendee searches without a date range look for upcoming events
+const SEARCH_LOOKAHEAD_DAYS = 90;
+
+// Text / attendee searches without a date range walk back from the lookahead in windows
+// of this many days, so the most recent matches are found first; the APIs list oldest first
+const SEARCH_WINDOW_DAYS = 90;
+
+// Events fetched per account and window; Outlook and attendee filtering happen on these
+const SEARCH_WINDOW_MAX_EVENTS = 250;
+
+// The walk stops at the first window that brings an account's matches to this many
+const SEARCH_MAX_HITS = 50;
+
+// Calendar views need a bounded range, used as the lower bound when the history window is unlimited
+const UNLIMITED_LOOKBACK_DAYS = 5 * 365;
+
+export type CalendarQueryPlan = z.infer<typeof CalendarQueryPlanSchema>;
+
+export const calendarProvider: SearchProvider<CalendarQueryPlan> = {
+  id: 'calendar',
+  label: 'Calendar',
+  connectionTypes: ['google', 'microsoft'],
+  featureFlag: null,
+  planSchema: CalendarQueryPlanSchema,
+  prompt: {
+    whenToUse: 'for schedule, meetings, events',
+    rules: `- Provide the date window to list events for, as YYYY-MM-DD dates calculated from TODAY'S DATE.
+- Use { "dateRange": null } to fall back to the default window (past week to next week), or, when query or attendees are set, the user's search history plus the next 90 days.
+- query: topic words to match in the event title, description or location ("board meeting", "dentist"); null to list everything in the window.
+- attendees: people the meeting is with ("when did I last meet Priya" -> ["Priya"]); null otherwise.
+- intent: "free_time" for availability questions ("when am I free Thursday afternoon?", "find 1 hour for a call next week"), otherwise "events".
+  For free_time: dateRange = the days asked about (null = next 7 days); durationMinutes = meeting length if given (else null);
+  timeOfDay = the part of the day if given ("morning" 09:00-12:00, "afternoon" 12:00-17:00, "evening" 17:00-20:00), else null for the user's working hours.`,
+    planFormat: `{
+    "intent": "events" | "free_time",
+    "dateRange": { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" } | null,
+    "query": string | null,
+    "attendees": string[] | null,
+    "durationMinutes": number | null,
+    "timeOfDay": { "start": "HH:MM", "end": "HH:MM" } | null
+  }`,
+    examples: [
+      {
+        question: EXAMPLE_QUESTIONS.meetingNextWeek,
+        plan: `{ "intent": "events", "dateRange": { "start": "...", "end": "..." }, "query": null, "attendees": null, "durationMinutes": null, "timeOfDay": null }`,
+      },
+      {
+        question: EXAMPLE_QUESTIONS.freeThursdayAfternoon,
+        plan: `{ "intent": "free_time", "dateRange": { "start": "<Thursday>", "end": "<Thursday>" }, "query": null, "attendees": null, "durationMinutes": 60, "timeOfDay": { "start": "12:00", "end": "17:00" } }`,
+      },
+    ],
+  },
+  async search(plan, context) {
+    if (plan.intent === 'free_time') {
+      return findAvailability(plan, context);
+    }
+
+    // Looking for specific events: search the user's history window instead of just this week
+    if (!plan.dateRange && (plan.query || plan.attendees?.length)) {
+      return searchNewestFirst(plan, context);
+    }
+
+    const { connections, logger, supabaseAdmin, timeZone } = context;
+    // Plan dates are the user's local days; the end date is inclusive
+    const startDay = planDay(plan.dateRange?.start, timeZone);
+    const endDay = planDay(plan.dateRange?.end, timeZone);
+    const startDate = startDay ? localDayStart(startDay, timeZone) : undefined;
+    const endDate = endDay ? localDayStart(endDay, timeZone, 1) : undefined;
+
+    const incompleteAccounts: string[] = [];
+    const getEvents = async (connection: any, accountParams: { googleConnection?: any; microsoftConnection?: any }) => {
+      const { hits, complete } = await CalendarService.getEvents({
+        ...accountParams,
+        startDate,
+        endDate,
+        query: plan.query,
+        attendees: plan.attendees,
+        logger,
+        ...(supabaseAdmin ? { supabaseAdmin } : {}),
+      });
+      if (!complete) incompleteAccounts.push(accountName(connection));
+      return hits;
+    };
+
+    const [googleHits, microsoftHits] = await Promise.all([
+      searchAccounts(connections.get('google'), googleConnection => getEvents(googleConnection, { googleConnection })),
+      searchAccounts(connections.get('microsoft'), microsoftConnection => getEvents(microsoftConnection, { microsoftConnection })),
+    ]);
+    const hits = [...googleHits, ...microsoftHits];
+    return incompleteAccounts.length > 0 ? [normalizeIncompleteEventsResult(incompleteAccounts, null), ...hits] : hits;
+  },
+};
+
+function accountName(connection: any): string {
+  return connection.email ?? connection.type;
+}
+
+/**
+ * Events matching the plan's query / attendees across the user's history window and the
+ * next SEARCH_LOOKAHEAD_DAYS. Each account is searched one window at a time from the
+ * latest back, until it has SEARCH_MAX_HITS matches or the history window is covered, so
+ * "when did I last meet Priya" sees recent meetings rather than the oldest capped page.
+ * Accounts that stopped early or couldn't be read completely are reported in a warning hit.
+ */
+async function searchNewestFirst(
+  plan: CalendarQueryPlan,
+  { connections, logger, supabaseAdmin, historyWindowDays }: SearchContext
+): Promise<SearchHit[]> {
+  const now = new Date();
+  const rangeStart = historyWindowStart(historyWindowDays, now)
+    ?? new Date(now.getTime() - UNLIMITED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const rangeEnd = new Date(now.getTime() + SEARCH_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+
+  const incompleteAccounts: string[] = [];
+  // Earliest window start among accounts that stopped before reaching rangeStart
+  let searchedFrom: Date | null = null;
+
+  const getEvents = async (connection: any, accountParams: { googleConnection?: any; microsoftConnection?: any }) => {
+    const hits: SearchHit[] = [];
+    let complete = true;
+    let windowEnd = rangeEnd;
+    while (windowEnd > rangeStart && hits.length < SEARCH_MAX_HITS) {
+      const windowStart = new Date(Math.max(rangeStart.getTime(), windowEnd.getTime() - SEARCH_WINDOW_DAYS * 24 * 60 * 60 * 1000));
+      const result = await CalendarService.getEvents({
+        ...accountParams,
+        startDate: windowStart,
+        endDate: windowEnd,
+        query: plan.query,
+        attendees: plan.attendees,
+        maxResults: SEARCH_WINDOW_MAX_EVENTS,
+        logger,
+        ...(supabaseAdmin ? { supabaseAdmin } : {}),
+      });
+      hits.push(...result.hits);
+      if (!result.complete) complete = false;
+      windowEnd = windowStart;
+    }
+
+    if (!complete) incompleteAccounts.push(accountName(connection));
+    if (windowEnd > rangeStart && (!searchedFrom || windowEnd < searchedFrom)) searchedFrom = windowEnd;
+    return hits;
+  };
+
+  const [googleHits, microsoftHits] = await Promise.all([
+    searchAccounts(connections.get('google'), googleConnection => getEvents(googleConnection, { googleConnection })),
+    searchAccounts(connections.get('microsoft'), microsoftConnection => getEvents(microsoftConnection, { microsoftConnection })),
+  ]);
+  const hits = [...googleHits, ...microsoftHits];
+  logger.info({ hits: hits.length, incompleteAccounts, searchedFrom }, 'Calendar search complete');
+
+  return incompleteAccounts.length > 0 || searchedFrom
+    ? [normalizeIncompleteEventsResult(incompleteAccounts, searchedFrom), ...hits]
+    : hits;
+}
+
+const PLAIN_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A plan date as a valid local YYYY-MM-DD date in `timeZone`. Timestamps are
+ * converted to the local day they fall on; anything else gives undefined.
+ */
+function planDay(value: string | null | undefined, timeZone: string): string | undefined {
+  if (!value) return undefined;
+  if (PLAIN_DATE.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : zonedDateString(date, timeZone);
+}
+
+/**
+ * Start of the local day `days` after `date` (YYYY-MM-DD) in `timeZone`.
+ */
+function localDayStart(date: string, timeZone: string, days = 0): Date {
+  return zonedDateTimeToUtc(addDays(date, days), '00:00', timeZone);
+}
+
+/**
+ * Free slots across every linked Google and Outlook calendar, within the user's
+ * working hours (or the asked-for time of day) in their time zone. Returns the
+ * availability hit followed by the events in the range, so the answer can name conflicts.
+ * Accounts whose events couldn't all be read are listed on the availability, since
+ * their missing events would otherwise show up as free time.
+ */
+async function findAvailability(
+  plan: CalendarQueryPlan,
+  { connections, logger, supabaseAdmin, timeZone, workingHours }: SearchContext
+): Promise<SearchHit[]> {
+  const firstDay = planDay(plan.dateRange?.start, timeZone) ?? zonedDateString(new Date(), timeZone);
+  const requestedLastDay = planDay(plan.dateRange?.end, timeZone) ?? addDays(firstDay, DEFAULT_AVAILABILITY_DAYS - 1);
+  const lastDay = requestedLastDay < firstDay ? firstDay : requestedLastDay;
+
+  const incompleteAccounts: string[] = [];
+  const getEvents = async (connection: any, accountParams: { googleConnection?: any; microsoftConnection?: any }) => {
+    const { hits, complete } = await CalendarService.getEvents({
+      ...accountParams,
+      startDate: zonedDateTimeToUtc(firstDay, '00:00', timeZone),
+      endDate: zonedDateTimeToUtc(addDays(lastDay, 1), '00:00', timeZone),
+      maxResults: AVAILABILITY_MAX_EVENTS,
+      logger,
+      ...(supabaseAdmin ? { supabaseAdmin } : {}),
+    });
+    if (!complete) incompleteAccounts.push(accountName(connection));
+    return hits;
+  };
+
+  const [googleHits, microsoftHits] = await Promise.all([
+    searchAccounts(connections.get('google'), googleConnection => getEvents(googleConnection, { googleConnection })),
+    searchAccounts(connections.get('microsoft'), microsoftConnection => getEvents(microsoftConnection, { microsoftConnection })),
+  ]);
+  const events = [...googleHits, ...microsoftHits];
+
+  const availability: Availability = {
+    timeZone,
+    startDate: firstDay,
+    endDate: lastDay,
+    slots: findFreeSlots(busyIntervals(events, timeZone), {
+      startDate: firstDay,
+      endDate: lastDay,
+      timeZone,
+      workingHours,
+      timeOfDay: plan.timeOfDay,
+      minDurationMinutes: plan.durationMinutes ?? undefined,
+    }),
+    ...(incompleteAccounts.length > 0 ? { incompleteAccounts } : {}),
+  };
+  logger.info({ events: events.length, slots: availability.slots.length, timeZone, incompleteAccounts }, 'Availability computed');
+
+  return [normalizeAvailabilityResult(availability), ...events];
+}
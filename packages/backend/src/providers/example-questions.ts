@@ -0,0 +1,9 @@
+// Questions worked through in the planner prompt's EXAMPLES. Each provider gives its plan
+// for the ones it would search (prompt.examples); the prompt shows every question once,
+// with each offered provider's plan or null, so examples follow the enabled sources.
+export const EXAMPLE_QUESTIONS = {
+  pricingFromJohn: 'pricing from John',
+  importantLastWeek: 'high importance emails from last week',
+  meetingNextWeek: 'meeting next week',
+  freeThursdayAfternoon: 'when am I free Thursday afternoon for an hour?',
+} as const;
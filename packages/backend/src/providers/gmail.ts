@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { enforceQueryDateCap } from '../lib/gmail.js';
+import { GmailService } from '../services/gmail-service.js';
+import { searchAccounts } from './accounts.js';
+import { EXAMPLE_QUESTIONS } from './example-questions.js';
+import type { SearchProvider } from './types.js';
+
+export const GmailQueryPlanSchema = z.object({
+  gmailQuery: z.string().describe('The optimized Gmail search query string'),
+  intent: z.enum(['search', 'count', 'summary', 'meetings']).describe('The intent of the user query'),
+  dateRange: z.object({
+    days: z.number().nullable(),
+  }).nullable(),
+  filters: z.object({
+    segments: z.array(z.string()),
+    negatedSegments: z.array(z.string()),
+    participants: z.array(z.string()).nullable(),
+    keywords: z.array(z.string()).nullable(),
+    hasAttachment: z.boolean().nullable(),
+    labels: z.array(z.string()).nullable().optional(),
+    categories: z.array(z.string()).nullable().optional(),
+  }),
+  // Read full message bodies and threads of the top hits (questions about what an email actually says)
+  deepRead: z.boolean().nullable().optional(),
+  // Extract text from the top hits' attachments (questions about a quote, invoice, contract, ...)
+  readAttachments: z.boolean().nullable().optional(),
+  explanation: z.string().describe('Brief explanation of the search strategy'),
+});
+
+export type GmailQueryPlan = z.infer<typeof GmailQueryPlanSchema>;
+
+export const gmailProvider: SearchProvider<GmailQueryPlan> = {
+  id: 'gmail',
+  label: 'Gmail',
+  connectionTypes: ['google'],
+  featureFlag: 'enableGmail',
+  planSchema: GmailQueryPlanSchema,
+  prompt: {
+    whenToUse: 'for email-related questions, documents, pricing, contracts, or general inquiries',
+    rules: `- Convert natural language to strictly valid search operators.
+- ALLOWED: from:, to:, subject:, has:attachment, filename:, after:, before:, newer_than:, is:unread.
+- Dates: only add a date filter (newer_than:, after:, before:) when the question implies a time range. Without one, the user's history window is applied automatically; for "ever" / "all time" questions use after:2000/01/01.
+- Negation: use '-' (e.g., -from:me).
+- deepRead: true when the answer depends on what the emails actually say (what was agreed, decided, asked, the details of a thread); false for listing, counting or finding emails.
+- readAttachments: true when the answer is likely inside an attached document (a quote, invoice, contract, report); combine with has:attachment.`,
+    planFormat: `{
+    "gmailQuery": string,          // The actual search query string
+    "intent": "search" | "count" | "summary" | "meetings",
+    "dateRange": { "days": number | null } | null,
+    "filters": {
+      "segments": string[],
+      "negatedSegments": string[],
+      "participants": string[] | null,
+      "keywords": string[] | null,
+      "hasAttachment": boolean | null
+    },
+    "deepRead": boolean,           // Read full bodies / threads of the top hits
+    "readAttachments": boolean,    // Extract text from attachments of the top hits
+    "explanation": string
+  }`,
+    examples: [
+      {
+        question: EXAMPLE_QUESTIONS.pricingFromJohn,
+        plan: `{
+    "gmailQuery": "from:John (pricing OR quote OR cost)",
+    "intent": "search",
+    "dateRange": null,
+    "filters": { "segments": ["from:John", "pricing", "quote", "cost"], "negatedSegments": [], "participants": ["John"], "keywords": ["pricing"], "hasAttachment": null },
+    "deepRead": true,
+    "explanation": "Searching emails from John about pricing"
+  }`,
+      },
+      {
+        question: EXAMPLE_QUESTIONS.importantLastWeek,
+        plan: `{
+    "gmailQuery": "is:important newer_than:7d",
+    "intent": "search",
+    "dateRange": { "days": 7 },
+    "filters": { "segments": ["is:important"], "negatedSegments": [], "participants": null, "keywords": [], "hasAttachment": null },
+    "deepRead": false,
+    "explanation": "Searching important emails from last week"
+  }`,
+      },
+    ],
+  },
+  search(plan, { connections, logger, supabaseAdmin, deepRead, historyWindowDays, reportHistoryCap }) {
+    const maxResults = plan.intent === 'summary' || plan.intent === 'count' ? 20 : 10;
+
+    const query = enforceQueryDateCap(plan.gmailQuery, historyWindowDays);
+    if (query !== plan.gmailQuery) reportHistoryCap?.('gmail');
+
+    // "How many" questions need the full total, not the number of results fetched
+    if (plan.intent === 'count') {
+      return searchAccounts(connections.get('google'), connection => GmailService.count({
+        connection,
+        query,
+        maxResults,
+        logger,
+        ...(supabaseAdmin ? { supabaseAdmin } : {}),
+      }));
+    }
+
+    return searchAccounts(connections.get('google'), connection => GmailService.search({
+      connection,
+      query,
+      maxResults,
+      deepRead: deepRead || !!plan.deepRead,
+      includeAttachments: !!plan.readAttachments,
+      logger,
+      ...(supabaseAdmin ? { supabaseAdmin } : {}),
+    }));
+  },
+};
@@ -0,0 +1,15 @@
+import { registerProvider } from './registry.js';
+import { gmailProvider } from './gmail.js';
+import { outlookProvider } from './outlook.js';
+import { calendarProvider } from './calendar.js';
+import { whatsappProvider } from './whatsapp.js';
+
+// Built-in sources. To add a new one, create a module exporting a
+// SearchProvider and register it here.
+registerProvider(gmailProvider);
+registerProvider(outlookProvider);
+registerProvider(calendarProvider);
+registerProvider(whatsappProvider);
+
+export { getProviders, getAnalysisKey, isProviderEnabled } from './registry.js';
+export type { SearchProvider, SearchContext } from './types.js';
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { OUTLOOK_FOLDERS, buildOutlookKql, enforceOutlookDateCap } from '../lib/outlook-kql.js';
+import { OutlookService } from '../services/outlook-service.js';
+import { searchAccounts } from './accounts.js';
+import { EXAMPLE_QUESTIONS } from './example-questions.js';
+import type { SearchProvider } from './types.js';
+
+export const OutlookQueryPlanSchema = z.object({
+  outlookQuery: z.string().describe('The optimized Outlook/Microsoft Graph search query string'),
+  intent: z.enum(['search', 'count', 'summary', 'meetings']).describe('The intent of the user query'),
+  dateRange: z.object({
+    days: z.number().nullable(),
+  }).nullable(),
+  filters: z.object({
+    segments: z.array(z.string()),
+    negatedSegments: z.array(z.string()),
+    participants: z.array(z.string()).nullable(),
+    keywords: z.array(z.string()).nullable(),
+    hasAttachment: z.boolean().nullable(),
+    labels: z.array(z.string()).nullable().optional(),
+    categories: z.array(z.string()).nullable().optional(),
+  }),
+  // Extract text from the top hits' attachments (questions about a quote, invoice, contract, ...)
+  readAttachments: z.boolean().nullable().optional(),
+  // Well-known folder to search instead of the whole mailbox (e.g. sentitems for "what did I send")
+  folder: z.enum(OUTLOOK_FOLDERS).nullable().optional(),
+  explanation: z.string().describe('Brief explanation of the search strategy'),
+});
+
+export type OutlookQueryPlan = z.infer<typeof OutlookQueryPlanSchema>;
+
+export const outlookProvider: SearchProvider<OutlookQueryPlan> = {
+  id: 'outlook',
+  label: 'Outlook',
+  connectionTypes: ['microsoft'],
+  featureFlag: 'enableOutlook',
+  planSchema: OutlookQueryPlanSchema,
+  prompt: {
+    whenToUse: 'for email-related questions (similar to Gmail targets)',
+    rules: `- Convert natural language to strictly valid KQL operators.
+- ALLOWED (Microsoft Graph $search properties):
+  - from:, to:, cc:, bcc:, subject:, body:, participants: (from/to/cc/bcc), recipients: (to/cc/bcc)
+  - attachment: (attachment file name)
+  - hasAttachments:true|false
+  - importance:high|normal|low
+  - kind:email|meetings|notes|tasks|posts
+  - size>BYTES or size:BYTES..BYTES
+  - received>=YYYY-MM-DD, received<=YYYY-MM-DD, sent>=YYYY-MM-DD
+- Combine clauses with AND / OR and parentheses; put multi-word values in double quotes (from:"John Smith").
+- Read state and categories can't be searched: leave them out of outlookQuery.
+- Dates: only add a received: filter when the question implies a time range. Without one, the user's history window is applied automatically; for "ever" / "all time" questions use received>=2000-01-01.
+- DATE RULES: Use ISO format YYYY-MM-DD. For relative ranges, calculate the dates based on TODAY'S DATE.
+- Ranges: received>=2025-01-10 AND received<=2026-01-10.
+- Negation: use NOT (e.g. NOT from:me).
+- filters must mirror the query: participants, hasAttachment and negatedSegments are added to the search if outlookQuery leaves them out.
+- folder: "sentitems" for what the user sent, "inbox" for what they received, "archive" / "deleteditems" / "drafts" / "junkemail" when named; null to search the whole mailbox.
+- intent "count" counts every match (not just the results shown); "summary" reads more messages.
+- readAttachments: true when the answer is likely inside an attached document (a quote, invoice, contract, report); combine with hasAttachments:true.`,
+    planFormat: `{
+    "outlookQuery": string,       // The actual search query string (KQL compatible)
+    "intent": "search" | "count" | "summary" | "meetings",
+    "dateRange": { "days": number | null } | null,
+    "filters": {
+      "segments": string[],
+      "negatedSegments": string[],
+      "participants": string[] | null,
+      "keywords": string[] | null,
+      "hasAttachment": boolean | null
+    },
+    "readAttachments": boolean,   // Extract text from attachments of the top hits
+    "folder": "inbox" | "sentitems" | "archive" | "deleteditems" | "drafts" | "junkemail" | null,
+    "explanation": string
+  }`,
+    examples: [
+      {
+        question: EXAMPLE_QUESTIONS.pricingFromJohn,
+        plan: `{
+    "outlookQuery": "from:John (pricing OR quote OR cost)",
+    "intent": "search",
+    "dateRange": null,
+    "filters": { "segments": ["from:John", "pricing", "quote", "cost"], "negatedSegments": [], "participants": ["John"], "keywords": ["pricing"], "hasAttachment": null },
+    "folder": null,
+    "explanation": "Searching emails from John about pricing"
+  }`,
+      },
+      {
+        question: EXAMPLE_QUESTIONS.importantLastWeek,
+        plan: `{
+    "outlookQuery": "importance:high AND received>=2026-01-03",
+    "intent": "search",
+    "dateRange": { "days": 7 },
+    "filters": { "segments": ["importance:high"], "negatedSegments": [], "participants": null, "keywords": [], "hasAttachment": null },
+    "folder": null,
+    "explanation": "Searching high importance emails from last week"
+  }`,
+      },
+    ],
+  },
+  search(plan, { connections, logger, supabaseAdmin, historyWindowDays, reportHistoryCap }) {
+    // Summaries read more messages (paged), counts only need a sample next to the total
+    const maxResults = plan.intent === 'summary' ? 50 : plan.intent === 'count' ? 20 : 10;
+
+    const kql = buildOutlookKql(plan);
+    const query = enforceOutlookDateCap(kql, historyWindowDays);
+    if (query !== kql) reportHistoryCap?.('outlook');
+
+    if (plan.intent === 'count') {
+      return searchAccounts(connections.get('microsoft'), connection => OutlookService.count({
+        connection,
+        query,
+        maxResults,
+        folder: plan.folder,
+        logger,
+        ...(supabaseAdmin ? { supabaseAdmin } : {}),
+      }));
+    }
+
+    return searchAccounts(connections.get('microsoft'), connection => OutlookService.search({
+      connection,
+      query,
+      maxResults,
+      folder: plan.folder,
+      includeAttachments: !!plan.readAttachments,
+      logger,
+      ...(supabaseAdmin ? { supabaseAdmin } : {}),
+    }));
+  },
+};
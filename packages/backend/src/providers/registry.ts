@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import type { FeatureFlags } from '../lib/feature-flags.js';
+import type { SearchProvider } from './types.js';
+
+const providers = new Map<string, SearchProvider>();
+
+/**
+ * Register a search provider. Ids must be unique.
+ */
+export function registerProvider(provider: SearchProvider): void {
+  if (providers.has(provider.id)) {
+    throw new Error(`Search provider "${provider.id}" is already registered`);
+  }
+  providers.set(provider.id, provider);
+}
+
+/**
+ * All registered providers, in registration order
+ */
+export function getProviders(): SearchProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Name of the planner analysis flag for a provider, e.g. "needsGmail"
+ */
+export function getAnalysisKey(provider: SearchProvider): string {
+  return `needs${provider.label.replace(/\s+/g, '')}`;
+}
+
+/**
+ * Schema of the planner's `analysis` object: one `needs<Label>` flag per provider.
+ * A missing or malformed flag reads as false.
+ */
+export function queryAnalysisSchema(providers: SearchProvider[]) {
+  return z.object(Object.fromEntries(
+    providers.map(provider => [getAnalysisKey(provider), z.boolean().catch(false)])
+  ));
+}
+
+/**
+ * A provider is enabled when its feature flag is on and the user has
+ * at least one of the connection types it requires
+ */
+export function isProviderEnabled(
+  provider: SearchProvider,
+  flags: FeatureFlags,
+  connections: Map<string, unknown>
+): boolean {
+  if (provider.featureFlag && !flags[provider.featureFlag]) {
+    return false;
+  }
+  if (provider.connectionTypes.length === 0) {
+    return true;
+  }
+  return provider.connectionTypes.some(type => connections.has(type));
+}
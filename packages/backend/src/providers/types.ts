@@ -0,0 +1,60 @@
+import type { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FastifyBaseLogger } from 'fastify';
+import type { FeatureFlags } from '../lib/feature-flags.js';
+import type { SearchHit, WorkingHours } from '../types/search.js';
+
+// Everything a provider needs to run a search for the current request
+export interface SearchContext {
+  userId: string;
+  query: string; // the user's question as asked
+  supabase: SupabaseClient; // user-scoped client
+  connections: Map<string, any[]>; // decrypted connections keyed by type, one per linked account
+  logger: FastifyBaseLogger;
+  supabaseAdmin?: SupabaseClient | undefined;
+  // Client asked for full message bodies / threads instead of snippets where supported
+  deepRead?: boolean | undefined;
+  // User's lookback in days for questions without a time range (0 = no limit)
+  historyWindowDays: number;
+  // Called by a provider when it limited its search to the history window, so the answer can say so
+  reportHistoryCap?: ((source: string) => void) | undefined;
+  // User's IANA time zone and working day, for scheduling questions
+  timeZone: string;
+  workingHours: WorkingHours;
+}
+
+// Planner prompt fragments contributed by a provider
+export interface ProviderPrompt {
+  // When the planner should select this source, e.g. "for email-related questions"
+  whenToUse: string;
+  // Source-specific planning rules (operators, date handling, ...)
+  rules: string;
+  // JSON shape of this provider's plan, rendered into the OUTPUT FORMAT section
+  planFormat: string;
+  // This provider's plans for the EXAMPLES section (see example-questions.ts)
+  examples: ProviderPromptExample[];
+}
+
+export interface ProviderPromptExample {
+  question: string;
+  // The plan as JSON, indented like planFormat
+  plan: string;
+}
+
+/**
+ * A searchable data source. /ask iterates the registered providers,
+ * the unified planner prompt and schema are generated from them.
+ */
+export interface SearchProvider<TPlan = any> {
+  // Source id: plan key, SearchHit source and entry in `sources_searched`
+  id: string;
+  // Display name, also used for the planner's `needs<Label>` analysis flag
+  label: string;
+  // Connection types that can serve this provider (any one is enough); empty = none required
+  connectionTypes: string[];
+  // Feature flag that must be on for this provider to be offered to the planner
+  featureFlag: keyof FeatureFlags | null;
+  planSchema: z.ZodType<TPlan>;
+  prompt: ProviderPrompt;
+  search(plan: TPlan, context: SearchContext): Promise<SearchHit[]>;
+}
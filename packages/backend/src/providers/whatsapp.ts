@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { WhatsAppService } from '../services/whatsapp-service.js';
+import { EXAMPLE_QUESTIONS } from './example-questions.js';
+import type { SearchProvider } from './types.js';
+
+export const WhatsAppQueryPlanSchema = z.object({
+  keywords: z.array(z.string()),
+  sender: z.string().nullable().optional(),
+  // Chat title or WhatsApp chat id (external_id) to restrict the search to
+  chatName: z.string().nullable().optional(),
+  // true = only messages the user sent, false = only messages they received
+  fromMe: z.boolean().nullable().optional(),
+  dateRange: z.object({
+    days: z.number().nullable(),
+  }).nullable().optional(),
+  limit: z.number().optional().default(10),
+});
+
+export type WhatsAppQueryPlan = z.infer<typeof WhatsAppQueryPlanSchema>;
+
+export const whatsappProvider: SearchProvider<WhatsAppQueryPlan> = {
+  id: 'whatsapp',
+  label: 'WhatsApp',
+  // Searches synced messages in the database, no live connection needed
+  connectionTypes: [],
+  featureFlag: 'enableWhatsApp',
+  planSchema: WhatsAppQueryPlanSchema,
+  prompt: {
+    whenToUse: 'for questions about casual chats, immediate updates, personal coordination, or specific message history',
+    rules: `- Extract broad keywords for message content search.
+- Identify specific sender names if mentioned (e.g. "from John").
+- Use chatName when the question names a chat or group ("in the Family group", "my chat with Priya").
+- Set fromMe to true for what the user said/sent ("what did I tell Priya"), false for what others sent them, null otherwise.
+  When fromMe is true the other person is the chat, not the sender: use chatName, leave sender null.
+- Date ranges: 'days' looking back from today ("last week" = 7). Use null when no time is implied.
+- limit: how many matching messages are needed (default 10, up to 50 for summaries or "all" questions).`,
+    planFormat: `{
+    "keywords": string[],         // Tokens to search for
+    "sender": string | null,      // Specific sender name filter
+    "chatName": string | null,    // Chat / group name filter
+    "fromMe": boolean | null,     // true = sent by the user, false = received
+    "dateRange": { "days": number | null } | null,
+    "limit": number
+  }`,
+    examples: [
+      {
+        question: EXAMPLE_QUESTIONS.pricingFromJohn,
+        plan: `{
+    "keywords": ["pricing", "quote", "cost"],
+    "sender": "John",
+    "chatName": null,
+    "fromMe": null,
+    "dateRange": null,
+    "limit": 10
+  }`,
+      },
+    ],
+  },
+  search(plan, { supabase, userId, query, logger, historyWindowDays, reportHistoryCap, timeZone }) {
+    // No time range in the question: search the user's history window
+    if (!plan.dateRange?.days && historyWindowDays > 0) {
+      plan = { ...plan, dateRange: { days: historyWindowDays } };
+      reportHistoryCap?.('whatsapp');
+    }
+    return WhatsAppService.search({ supabase, userId, plan, query, timeZone, logger });
+  },
+};
@@ -4,11 +4,28 @@ import { createClient } from '@supabase/supabase-js';
 import { verifyJWT, type AuthenticatedRequest } from '../proxy/auth.js';
 import { createUserClient, supabaseAdmin, supabaseUrl, supabasePublishableKey } from '../lib/supabase.js';
 import { getFeatureFlags, type FeatureFlags } from '../lib/feature-flags.js';
+import { getDefaultHistoryWindowDays, MAX_HISTORY_WINDOW_DAYS } from '../lib/history-window.js';
+import { getSchedulingPreferences } from '../lib/user-preferences.js';
+import { isValidTimeZone } from '../lib/time-zone.js';
 
 const updateProfileSchema = z.object({
   name: z.string().min(1).optional(),
 });
 
+const hourMinuteSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const updateSettingsSchema = z.object({
+  // Days searched when a question names no time range; 0 = no limit, null = back to the default
+  historyWindowDays: z.number().int().min(0).max(MAX_HISTORY_WINDOW_DAYS).nullable().optional(),
+  // IANA time zone, e.g. "Asia/Kolkata"; null = back to UTC
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').nullable().optional(),
+  workingHours: z.object({
+    start: hourMinuteSchema,
+    end: hourMinuteSchema,
+    days: z.array(z.number().int().min(1).max(7)).min(1),
+  }).refine(hours => hours.start < hours.end, 'Working hours must end after they start').optional(),
+});
+
 const updatePasswordSchema = z.object({
   currentPassword: z.string().min(1),
   password: z.string().min(6),
@@ -270,5 +287,119 @@ export async function accountRoutes(fastify: FastifyInstance): Promise<void> {
       };
     }
   });
+
+  // Get search and scheduling settings for current user
+  fastify.get('/account/settings', {
+    preHandler: verifyJWT,
+  }, async (request, _reply) => {
+    const authRequest = request as AuthenticatedRequest;
+    return { settings: await readSettings(authRequest.userId) };
+  });
+
+  // Update settings: history window is stored as the user's feature flag override,
+  // time zone and working hours on the profile. Omitted fields are left unchanged.
+  fastify.put('/account/settings', {
+    preHandler: verifyJWT,
+  }, async (request, reply) => {
+    const authRequest = request as AuthenticatedRequest;
+    const parseResult = updateSettingsSchema.safeParse(request.body);
+
+    if (!parseResult.success) {
+      return reply.code(400).send({
+        error: 'Invalid request body',
+        details: parseResult.error.issues,
+      });
+    }
+
+    if (!supabaseAdmin) {
+      fastify.log.error('Supabase admin client not initialized');
+      return reply.code(500).send({ error: 'Server configuration error' });
+    }
+
+    const { historyWindowDays, timeZone, workingHours } = parseResult.data;
+
+    try {
+      if (historyWindowDays !== undefined) {
+        const { data: existing, error: fetchError } = await supabaseAdmin
+          .from('feature_flags')
+          .select('id')
+          .eq('user_id', authRequest.userId)
+          .maybeSingle();
+
+        if (fetchError) {
+          fastify.log.error(fetchError, 'Failed to fetch user feature flags');
+          return reply.code(500).send({ error: 'Failed to update settings' });
+        }
+
+        const { error: saveError } = existing
+          ? await supabaseAdmin
+            .from('feature_flags')
+            .update({ history_window_days: historyWindowDays, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+          : await supabaseAdmin
+            .from('feature_flags')
+            .insert([{ user_id: authRequest.userId, history_window_days: historyWindowDays }]);
+
+        if (saveError) {
+          fastify.log.error(saveError, 'Failed to save settings');
+          return reply.code(500).send({ error: 'Failed to update settings' });
+        }
+      }
+
+      if (timeZone !== undefined || workingHours !== undefined) {
+        const profileUpdate = {
+          ...(timeZone !== undefined ? { time_zone: timeZone } : {}),
+          ...(workingHours ? {
+            working_hours_start: workingHours.start,
+            working_hours_end: workingHours.end,
+            working_days: workingHours.days,
+          } : {}),
+        };
+
+        const { data: existing, error: fetchError } = await supabaseAdmin
+          .from('profiles')
+          .select('id')
+          .eq('user_id', authRequest.userId)
+          .maybeSingle();
+
+        if (fetchError) {
+          fastify.log.error(fetchError, 'Failed to fetch profile');
+          return reply.code(500).send({ error: 'Failed to update settings' });
+        }
+
+        const { error: saveError } = existing
+          ? await supabaseAdmin
+            .from('profiles')
+            .update({ ...profileUpdate, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+          : await supabaseAdmin
+            .from('profiles')
+            .insert([{ user_id: authRequest.userId, ...profileUpdate }]);
+
+        if (saveError) {
+          fastify.log.error(saveError, 'Failed to save profile settings');
+          return reply.code(500).send({ error: 'Failed to update settings' });
+        }
+      }
+
+      return { success: true, settings: await readSettings(authRequest.userId) };
+    } catch (error) {
+      fastify.log.error(error, 'Failed to update settings');
+      return reply.code(500).send({ error: 'Failed to update settings' });
+    }
+  });
 }
 
+async function readSettings(userId: string) {
+  const [flags, scheduling] = await Promise.all([
+    getFeatureFlags(userId),
+    getSchedulingPreferences(userId),
+  ]);
+
+  return {
+    historyWindowDays: flags.historyWindowDays,
+    defaultHistoryWindowDays: getDefaultHistoryWindowDays(),
+    timeZone: scheduling.timeZone,
+    workingHours: scheduling.workingHours,
+  };
+}
@@ -1,19 +1,17 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { verifyJWT, type AuthenticatedRequest } from '../proxy/auth.js';
 import { createUserClient, supabaseAdmin } from '../lib/supabase.js';
 import { planQuery, type Message } from '../lib/openai.js';
 import { mergeResults } from '../lib/normalizer.js';
-import { refreshAccessToken } from '../lib/calendar.js';
-import { refreshAccessToken as refreshMicrosoftToken } from '../lib/microsoft.js';
-import { synthesizeAnswer } from '../lib/synthesizer.js';
-import { decryptTokens, encrypt, encryptTokens } from '../lib/encryption.js';
+import { synthesizeAnswer, type AnswerWithLinks } from '../lib/synthesizer.js';
+import { rerankResults, rerankQueryFromPlans, type RerankScores } from '../lib/reranker.js';
 import { getFeatureFlags, type FeatureFlags } from '../lib/feature-flags.js';
-import type { SearchHit, PendingSearch } from '../types/search.js';
-import { GmailService } from '../services/gmail-service.js';
-import { OutlookService } from '../services/outlook-service.js';
-import { CalendarService } from '../services/calendar-service.js';
-import { WhatsAppService } from '../services/whatsapp-service.js';
+import { pendingSearchStore } from '../lib/pending-search-store.js';
+import { getSchedulingPreferences } from '../lib/user-preferences.js';
+import type { SearchHit, AskStreamEvent } from '../types/search.js';
+import { ConnectionTokenManager } from '../services/connection-token-manager.js';
+import { getProviders, getAnalysisKey, isProviderEnabled, type SearchContext } from '../providers/index.js';
 
 const askRequestSchema = z.object({
   query: z.string().min(1).max(1000),
@@ -23,310 +21,316 @@ const askRequestSchema = z.object({
     enableWhatsApp: z.boolean().optional(),
     enableGmail: z.boolean().optional(),
   }).optional(),
+  // Read full email bodies / threads instead of snippets (the planner may also opt in per query)
+  deepRead: z.boolean().optional(),
+  // Include reranking scores in the response
+  debug: z.boolean().optional(),
 });
 
-// In-memory store for pending searches (would use Redis in production)
-const pendingSearches = new Map<string, PendingSearch>();
+type AskRequestBody = z.infer<typeof askRequestSchema>;
 
-export async function askRoutes(fastify: FastifyInstance): Promise<void> {
-  fastify.post('/ask', {
-    preHandler: verifyJWT,
-  }, async (request, reply) => {
-    const authRequest = request as AuthenticatedRequest;
-
-    // Validate request body
-    const parseResult = askRequestSchema.safeParse(request.body);
-    if (!parseResult.success) {
-      return reply.code(400).send({
-        error: 'Invalid request body',
-        details: parseResult.error.issues,
-      });
-    }
+/**
+ * IANA time zone of the client (webapp / extension send the browser's zone),
+ * used for users who haven't set one in their profile
+ */
+function clientTimeZone(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-time-zone'];
+  return typeof header === 'string' ? header : undefined;
+}
 
-    const { query, conversationId, flags: requestFlags } = parseResult.data;
-    const requestId = crypto.randomUUID();
+// Progress callback used by /ask/stream; /ask runs the same pipeline without one
+type AskEmitter = (event: AskStreamEvent) => void;
 
-    // Create user-scoped Supabase client
-    const supabase = createUserClient(authRequest.accessToken);
+interface AskResult {
+  status: 'complete';
+  request_id: string;
+  answer: AnswerWithLinks;
+  sources_searched: string[];
+  conversationId: string | undefined;
+  ranking?: RerankScores[] | undefined;
+}
 
-    // Clean up expired conversations for this user (older than 10 minutes)
-    const tenMinutesAgoISO = new Date(Date.now() - 10 * 60 * 1000).toISOString();
-    await supabase
+/**
+ * Run the full ask pipeline: conversation context, connections, planning,
+ * parallel source searches and synthesis.
+ * When `emit` is provided, progress is reported as each step happens.
+ * When `signal` aborts, the run stops at the next step and the synthesis call is cancelled.
+ */
+async function runAsk(
+  fastify: FastifyInstance,
+  authRequest: AuthenticatedRequest,
+  body: AskRequestBody,
+  requestId: string,
+  emit?: AskEmitter,
+  signal?: AbortSignal
+): Promise<AskResult> {
+  const { query, conversationId, flags: requestFlags, deepRead, debug } = body;
+
+  // Create user-scoped Supabase client
+  const supabase = createUserClient(authRequest.accessToken);
+
+  // Clean up expired conversations for this user (older than 10 minutes)
+  const tenMinutesAgoISO = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+  await supabase
+    .from('conversations')
+    .delete()
+    .eq('user_id', authRequest.userId)
+    .neq('source', 'whatsapp') // Protect WhatsApp data
+    .lt('updated_at', tenMinutesAgoISO);
+
+  // Handle conversation history
+  let conversationHistory: Message[] = [];
+  let currentConversationId = conversationId;
+
+  if (currentConversationId) {
+    const { data: conversation } = await supabase
       .from('conversations')
-      .delete()
-      .eq('user_id', authRequest.userId)
-      .neq('source', 'whatsapp') // Protect WhatsApp data
-      .lt('updated_at', tenMinutesAgoISO);
-
-    // Handle conversation history
-    let conversationHistory: Message[] = [];
-    let currentConversationId = conversationId;
-
-    if (currentConversationId) {
-      const { data: conversation } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('id', currentConversationId)
-        .single();
-
-      if (conversation) {
-        // Check if expired (10 mins)
-        const updatedAt = new Date(conversation.updated_at);
-        const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-
-        if (updatedAt < tenMinutesAgo) {
-          currentConversationId = undefined; // Expired
-        } else {
-          conversationHistory = conversation.messages as unknown as Message[];
-        }
+      .select('*')
+      .eq('id', currentConversationId)
+      .single();
+
+    if (conversation) {
+      // Check if expired (10 mins)
+      const updatedAt = new Date(conversation.updated_at);
+      const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+
+      if (updatedAt < tenMinutesAgo) {
+        currentConversationId = undefined; // Expired
       } else {
-        currentConversationId = undefined; // Not found
+        conversationHistory = conversation.messages as unknown as Message[];
       }
+    } else {
+      currentConversationId = undefined; // Not found
     }
+  }
 
-    if (!currentConversationId) {
-      const { data: newConv } = await supabase
-        .from('conversations')
-        .insert([{
-          user_id: authRequest.userId,
-          messages: [],
-          source: 'ask'
-        }])
-        .select()
-        .single();
-
-      if (newConv) currentConversationId = newConv.id;
-    }
-
-    // Insert usage event
-    const { error: insertError } = await supabase
-      .from('usage_events')
+  if (!currentConversationId) {
+    const { data: newConv } = await supabase
+      .from('conversations')
       .insert([{
         user_id: authRequest.userId,
-        event_type: 'ask',
-      }]);
-
-    if (insertError) {
-      fastify.log.error(insertError, 'Failed to insert usage event');
-    }
-
-    // Get all user connections
-    const { data: connections, error: connectionsError } = await supabase
-      .from('connections')
-      .select('*')
-      .eq('user_id', authRequest.userId);
-
-    if (connectionsError) {
-      fastify.log.error(connectionsError, 'Failed to fetch connections');
-    }
+        messages: [],
+        source: 'ask'
+      }])
+      .select()
+      .single();
+
+    if (newConv) currentConversationId = newConv.id;
+  }
+
+  // Insert usage event
+  const { error: insertError } = await supabase
+    .from('usage_events')
+    .insert([{
+      user_id: authRequest.userId,
+      event_type: 'ask',
+    }]);
+
+  if (insertError) {
+    fastify.log.error(insertError, 'Failed to insert usage event');
+  }
+
+  // Get all user connections
+  const { data: connections, error: connectionsError } = await supabase
+    .from('connections')
+    .select('*')
+    .eq('user_id', authRequest.userId);
+
+  if (connectionsError) {
+    fastify.log.error(connectionsError, 'Failed to fetch connections');
+  }
+
+  // Every enabled Google / Microsoft account is searched.
+  // Decrypt and, if expired, refresh tokens up front so all providers sharing a connection start fresh.
+  // Connections flagged for re-auth are skipped until the user reconnects.
+  const tokenContext = { logger: fastify.log, supabaseAdmin };
+  const oauthConnections = (connections ?? []).filter(c =>
+    (c.type === 'google' || c.type === 'microsoft') && c.enabled !== false
+  );
+  const usable = await Promise.all(
+    oauthConnections.map(async conn => (await ConnectionTokenManager.getAccessToken(conn, tokenContext)) ? conn : null)
+  );
+
+  // Decrypted connections keyed by type, one entry per linked account, shared by all providers
+  const connectionsByType = new Map<string, any[]>();
+  for (const conn of usable) {
+    if (!conn) continue;
+    connectionsByType.set(conn.type, [...(connectionsByType.get(conn.type) ?? []), conn]);
+  }
+
+  // Step 0: Get feature flags and scheduling preferences
+  const [dbFlags, scheduling] = await Promise.all([
+    getFeatureFlags(authRequest.userId),
+    getSchedulingPreferences(authRequest.userId, clientTimeZone(authRequest)),
+  ]);
+  const hasEmailConnection = oauthConnections.length > 0;
+  const hasWhatsAppConnection = connections?.some(c => c.type === 'whatsapp') || false;
+
+  const featureFlags: FeatureFlags = {
+    ...dbFlags,
+    enableLinkedIn: requestFlags?.enableLinkedIn ?? dbFlags.enableLinkedIn,
+    enableWhatsApp: requestFlags?.enableWhatsApp ?? (hasWhatsAppConnection || dbFlags.enableWhatsApp),
+    enableGmail: requestFlags?.enableGmail ?? (hasEmailConnection || dbFlags.enableGmail),
+    enableOutlook: (hasEmailConnection || dbFlags.enableOutlook),
+  };
+
+  const providers = getProviders().filter(p => isProviderEnabled(p, featureFlags, connectionsByType));
+
+  // Step 1: Plan
+  fastify.log.info({ query, providers: providers.map(p => p.id) }, 'Planning query');
+  const { analysis, plans } = await planQuery(query, conversationHistory, providers, { timeZone: scheduling.timeZone });
+
+  fastify.log.info({ analysis }, 'Query planning complete');
+  signal?.throwIfAborted();
+
+  // Step 2: Collect the searches to run, then execute them in parallel
+  // Sources that fell back to the history window are reported with the answer
+  const historyCappedSources = new Set<string>();
+  const searchContext: SearchContext = {
+    userId: authRequest.userId,
+    query,
+    supabase,
+    connections: connectionsByType,
+    logger: fastify.log,
+    supabaseAdmin: supabaseAdmin ?? undefined,
+    deepRead,
+    historyWindowDays: featureFlags.historyWindowDays,
+    reportHistoryCap: source => historyCappedSources.add(source),
+    timeZone: scheduling.timeZone,
+    workingHours: scheduling.workingHours,
+  };
+
+  const searches: Array<{ source: string; run: () => Promise<SearchHit[]> }> = [];
+  for (const provider of providers) {
+    const providerPlan = plans[provider.id];
+    if (!analysis[getAnalysisKey(provider)] || !providerPlan) continue;
+
+    searches.push({
+      source: provider.id,
+      run: () => provider.search(providerPlan, searchContext),
+    });
+  }
+
+  const sourcesNeeded = searches.map(s => s.source);
+  emit?.({
+    type: 'plan',
+    request_id: requestId,
+    conversationId: currentConversationId,
+    sources: sourcesNeeded,
+    analysis,
+  });
 
-    const googleConnection = connections?.find(c => c.type === 'google');
-    const microsoftConnection = connections?.find(c => c.type === 'microsoft');
-
-    // Helper: Decrypt tokens safely
-    const decorateWithDecryptedTokens = (conn: any) => {
-      try {
-        const tokens = decryptTokens({
-          access_token: conn.access_token,
-          refresh_token: conn.refresh_token,
-        });
-        conn.access_token_decrypted = tokens.access_token;
-        conn.refresh_token_decrypted = tokens.refresh_token;
-        return true;
-      } catch (e) {
-        fastify.log.error(e, `Failed to decrypt ${conn.type} tokens`);
-        return false;
+  const searchPromises = searches.map(({ source, run }) => {
+    emit?.({ type: 'search_started', source });
+    return run().then(
+      hits => {
+        emit?.({ type: 'search_finished', source, hits: hits.length });
+        return hits;
+      },
+      error => {
+        emit?.({ type: 'search_finished', source, hits: 0, error: 'Search failed' });
+        throw error;
       }
-    };
+    );
+  });
 
-    if (googleConnection) decorateWithDecryptedTokens(googleConnection);
-    if (microsoftConnection) decorateWithDecryptedTokens(microsoftConnection);
+  // Await all searches
+  const resultsSettled = await Promise.allSettled(searchPromises);
+  const allResults: SearchHit[] = [];
 
-    // Pre-emptive Token Refresh Logic (keep inline for simplicity/safety before parallel search)
-    // We could move this to services too, but doing it here ensures fresh tokens for all services sharing the connection
-    if (googleConnection && (googleConnection as any).access_token_decrypted) {
-      const expires = googleConnection.token_expires_at ? new Date(googleConnection.token_expires_at) : null;
-      if (!expires || expires < new Date()) {
-        try {
-          fastify.log.info('Refreshing Google access token');
-          const newTokens = await refreshAccessToken((googleConnection as any).refresh_token_decrypted);
-          if (newTokens.access_token) {
-            (googleConnection as any).access_token_decrypted = newTokens.access_token;
-            if (supabaseAdmin) {
-              const encrypted = encrypt(newTokens.access_token);
-              await supabaseAdmin.from('connections').update({
-                access_token: encrypted,
-                token_expires_at: new Date(newTokens.expiry_date || Date.now() + 3600000).toISOString(),
-              }).eq('id', googleConnection.id);
-            }
-          }
-        } catch (e) { fastify.log.error(e, 'Failed to refresh Google token'); }
-      }
+  resultsSettled.forEach(result => {
+    if (result.status === 'fulfilled') {
+      allResults.push(...result.value);
+    } else {
+      fastify.log.error(result.reason, 'A search service failed');
     }
+  });
 
-    if (microsoftConnection && (microsoftConnection as any).access_token_decrypted) {
-      const expires = microsoftConnection.token_expires_at ? new Date(microsoftConnection.token_expires_at) : null;
-      if (!expires || expires < new Date()) {
-        try {
-          fastify.log.info('Refreshing Microsoft access token');
-          const newTokens = await refreshMicrosoftToken((microsoftConnection as any).refresh_token_decrypted || '');
-          if (newTokens.access_token) {
-            (microsoftConnection as any).access_token_decrypted = newTokens.access_token;
-            if (supabaseAdmin) {
-              const encrypted = encryptTokens({
-                access_token: newTokens.access_token,
-                refresh_token: newTokens.refresh_token || (microsoftConnection as any).refresh_token_decrypted,
-              });
-              await supabaseAdmin.from('connections').update({
-                access_token: encrypted.access_token,
-                refresh_token: encrypted.refresh_token,
-                token_expires_at: new Date(Date.now() + newTokens.expires_in * 1000).toISOString(),
-              }).eq('id', microsoftConnection.id);
-            }
-          }
-        } catch (e) { fastify.log.error(e, 'Failed to refresh Microsoft token'); }
-      }
-    }
-
-    try {
-      // Step 0: Get feature flags
-      const dbFlags = await getFeatureFlags(authRequest.userId);
-      const hasEmailConnection = !!(googleConnection || microsoftConnection);
-      const hasWhatsAppConnection = connections?.some(c => c.type === 'whatsapp') || false;
-
-      const featureFlags: FeatureFlags = {
-        ...dbFlags,
-        enableLinkedIn: requestFlags?.enableLinkedIn ?? dbFlags.enableLinkedIn,
-        enableWhatsApp: requestFlags?.enableWhatsApp ?? (hasWhatsAppConnection || dbFlags.enableWhatsApp),
-        enableGmail: requestFlags?.enableGmail ?? (hasEmailConnection || dbFlags.enableGmail),
-        enableOutlook: (hasEmailConnection || dbFlags.enableOutlook),
-      };
-
-      // Step 1: Plan
-      fastify.log.info({ query }, 'Planning query');
-      const plan = await planQuery(query, conversationHistory, featureFlags);
-      const { analysis, gmail: gmailPlan, outlook: outlookPlan, whatsapp: whatsappPlan } = plan;
-
-      fastify.log.info({ analysis }, 'Query planning complete');
-
-      const sourcesNeeded: string[] = [];
-      const searchPromises: Promise<SearchHit[]>[] = [];
-
-      // Step 2: Execute Searches in Parallel
-
-      // Gmail
-      if (analysis.needsGmail && gmailPlan && googleConnection) {
-        sourcesNeeded.push('gmail');
-        const maxResults = gmailPlan.intent === 'summary' || gmailPlan.intent === 'count' ? 20 : 10;
-        searchPromises.push(
-          GmailService.search({
-            connection: googleConnection as any,
-            query: gmailPlan.gmailQuery,
-            maxResults,
-            logger: fastify.log,
-            supabaseAdmin: (supabaseAdmin as any) ?? undefined
-          })
-        );
-      }
+  signal?.throwIfAborted();
+
+  // Step 3: Rerank against the question and the planner's keywords / participants
+  const mergedResults = mergeResults(allResults);
+  const { hits: rankedResults, scores: ranking } = await rerankResults(
+    rerankQueryFromPlans(query, plans),
+    mergedResults,
+    { logger: fastify.log }
+  );
+  fastify.log.debug({ ranking }, 'Reranked search results');
+
+  // Step 4: Synthesize
+  signal?.throwIfAborted();
+  fastify.log.info({ totalResults: mergedResults.length, synthesized: rankedResults.length }, 'Synthesizing answer');
+
+  const answer = await synthesizeAnswer(query, rankedResults, conversationHistory, {
+    onAnswerDelta: emit ? text => emit({ type: 'answer_delta', text }) : undefined,
+    timeZone: scheduling.timeZone,
+    signal,
+    historyWindow: historyCappedSources.size > 0
+      ? { days: featureFlags.historyWindowDays, sources: [...historyCappedSources] }
+      : undefined,
+  });
 
-      // Outlook
-      if (analysis.needsOutlook && outlookPlan && microsoftConnection) {
-        sourcesNeeded.push('outlook');
-        const maxResults = outlookPlan.intent === 'summary' || outlookPlan.intent === 'count' ? 20 : 10;
-        searchPromises.push(
-          OutlookService.search({
-            connection: microsoftConnection as any,
-            query: outlookPlan.outlookQuery,
-            maxResults,
-            logger: fastify.log,
-            supabaseAdmin: (supabaseAdmin as any) ?? undefined
-          })
-        );
-      }
+  // Update history
+  if (currentConversationId) {
+    const updatedHistory: Message[] = [
+      ...conversationHistory,
+      {
+        role: 'user',
+        content: query,
+        metadata: {
+          queryAnalysis: analysis,
+          plans,
+        }
+      },
+      { role: 'assistant', content: answer.answer }
+    ];
 
-      // Calendar (Google + Outlook)
-      if (analysis.needsCalendar) {
-        sourcesNeeded.push('calendar');
-        const startDate = analysis.calendarDateRange?.start ? new Date(analysis.calendarDateRange.start) : undefined;
-        const endDate = analysis.calendarDateRange?.end ? new Date(analysis.calendarDateRange.end) : undefined;
-
-        searchPromises.push(
-          CalendarService.getEvents({
-            googleConnection: googleConnection as any,
-            microsoftConnection: microsoftConnection as any,
-            startDate,
-            endDate,
-            logger: fastify.log,
-            supabaseAdmin: (supabaseAdmin as any) ?? undefined
-          })
-        );
-      }
+    await supabase
+      .from('conversations')
+      .update({
+        messages: updatedHistory as any,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', currentConversationId);
+  }
+
+  return {
+    status: 'complete',
+    request_id: requestId,
+    answer,
+    sources_searched: sourcesNeeded,
+    conversationId: currentConversationId,
+    ...(debug ? { ranking } : {}),
+  };
+}
 
-      // WhatsApp
-      if (featureFlags.enableWhatsApp && analysis.needsWhatsApp && whatsappPlan) {
-        sourcesNeeded.push('whatsapp');
-        searchPromises.push(
-          WhatsAppService.search({
-            supabase,
-            userId: authRequest.userId,
-            plan: whatsappPlan,
-            logger: fastify.log
-          })
-        );
-      }
+/**
+ * Write a single Server-Sent Event to a hijacked reply
+ */
+function writeSSE(reply: FastifyReply, event: AskStreamEvent): void {
+  if (reply.raw.writableEnded || reply.raw.destroyed) return;
+  reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
 
-      // Await all searches
-      const resultsSettled = await Promise.allSettled(searchPromises);
-      const allResults: SearchHit[] = [];
+export async function askRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.post('/ask', {
+    preHandler: verifyJWT,
+  }, async (request, reply) => {
+    const authRequest = request as AuthenticatedRequest;
 
-      resultsSettled.forEach(result => {
-        if (result.status === 'fulfilled') {
-          allResults.push(...result.value);
-        } else {
-          fastify.log.error(result.reason, 'A search service failed');
-        }
+    // Validate request body
+    const parseResult = askRequestSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.code(400).send({
+        error: 'Invalid request body',
+        details: parseResult.error.issues,
       });
+    }
 
-      // Step 3: Synthesize
-      const mergedResults = mergeResults(allResults);
-      fastify.log.info({ totalResults: mergedResults.length }, 'Synthesizing answer');
-
-      const answer = await synthesizeAnswer(query, mergedResults, conversationHistory);
-
-      // Update history
-      if (currentConversationId) {
-        const updatedHistory: Message[] = [
-          ...conversationHistory,
-          {
-            role: 'user',
-            content: query,
-            metadata: {
-              queryAnalysis: analysis,
-              ...(gmailPlan ? { gmailPlan } : {}),
-              ...(outlookPlan ? { outlookPlan } : {}),
-              ...(whatsappPlan ? { whatsappPlan } : {}),
-            }
-          },
-          { role: 'assistant', content: answer.answer }
-        ];
-
-        await supabase
-          .from('conversations')
-          .update({
-            messages: updatedHistory as any,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', currentConversationId);
-      }
-
-      return {
-        status: 'complete',
-        request_id: requestId,
-        answer,
-        sources_searched: sourcesNeeded,
-        conversationId: currentConversationId,
-      };
+    const requestId = crypto.randomUUID();
 
+    try {
+      return await runAsk(fastify, authRequest, parseResult.data, requestId);
     } catch (error) {
       fastify.log.error(error, 'Ask processing failed');
       return reply.code(500).send({
@@ -336,6 +340,56 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // Streaming variant of /ask: emits plan, per-source search progress,
+  // answer text deltas and the final answer as Server-Sent Events
+  fastify.post('/ask/stream', {
+    preHandler: verifyJWT,
+  }, async (request, reply) => {
+    const authRequest = request as AuthenticatedRequest;
+
+    const parseResult = askRequestSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.code(400).send({
+        error: 'Invalid request body',
+        details: parseResult.error.issues,
+      });
+    }
+
+    const requestId = crypto.randomUUID();
+
+    // Take over the raw response; keep headers already set by plugins (CORS, helmet)
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) reply.raw.setHeader(name, value);
+    }
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    // Stop the pipeline when the client goes away; the response closes before it finishes only on disconnect
+    const abort = new AbortController();
+    reply.raw.on('close', () => {
+      if (!reply.raw.writableFinished) abort.abort();
+    });
+
+    try {
+      const result = await runAsk(fastify, authRequest, parseResult.data, requestId, event => writeSSE(reply, event), abort.signal);
+      writeSSE(reply, { type: 'done', ...result });
+    } catch (error) {
+      if (abort.signal.aborted) {
+        fastify.log.info({ requestId }, 'Ask stream client disconnected');
+        return;
+      }
+      fastify.log.error(error, 'Ask stream processing failed');
+      writeSSE(reply, { type: 'error', request_id: requestId, error: 'Failed to process query' });
+    } finally {
+      reply.raw.end();
+    }
+  });
+
   // Get pending search status
   fastify.get('/ask/:requestId', {
     preHandler: verifyJWT,
@@ -343,7 +397,7 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
     const authRequest = request as AuthenticatedRequest;
     const { requestId } = request.params as { requestId: string };
 
-    const pendingSearch = pendingSearches.get(requestId);
+    const pendingSearch = await pendingSearchStore.get(requestId);
 
     if (!pendingSearch) {
       return reply.code(404).send({ error: 'Search not found' });
@@ -373,7 +427,7 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
     const authRequest = request as AuthenticatedRequest;
     const { requestId } = request.params as { requestId: string };
 
-    const pendingSearch = pendingSearches.get(requestId);
+    const pendingSearch = await pendingSearchStore.get(requestId);
 
     if (!pendingSearch) {
       return reply.code(404).send({ error: 'Search not found' });
@@ -404,13 +458,13 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
     const { requestId } = request.params as { requestId: string };
     const { source, snippets } = request.body as { source: string; snippets: string[] };
 
-    const pendingSearch = pendingSearches.get(requestId);
+    const existing = await pendingSearchStore.get(requestId);
 
-    if (!pendingSearch) {
+    if (!existing) {
       return reply.code(404).send({ error: 'Search not found' });
     }
 
-    if (pendingSearch.user_id !== authRequest.userId) {
+    if (existing.user_id !== authRequest.userId) {
       return reply.code(403).send({ error: 'Not authorized' });
     }
 
@@ -422,7 +476,10 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
       relevance: 0.9,
     }));
 
-    pendingSearch.results[source] = normalizedResults;
+    const pendingSearch = await pendingSearchStore.addResults(requestId, source, normalizedResults);
+    if (!pendingSearch) {
+      return reply.code(404).send({ error: 'Search not found' });
+    }
 
     const allSourcesComplete = pendingSearch.sources_needed.every(
       src => pendingSearch.results[src] && pendingSearch.results[src]!.length >= 0
@@ -448,7 +505,14 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
             }
           }
 
-          const answer = await synthesizeAnswer(pendingSearch.query, allResults, conversationHistory);
+          const { hits: rankedResults } = await rerankResults(
+            // Searches started by /dom/instructions have no planner plans; their query is the keywords
+            rerankQueryFromPlans(pendingSearch.query, pendingSearch.metadata?.plans ?? {}),
+            allResults,
+            { logger: fastify.log }
+          );
+          const { timeZone } = await getSchedulingPreferences(authRequest.userId, clientTimeZone(authRequest));
+          const answer = await synthesizeAnswer(pendingSearch.query, rankedResults, conversationHistory, { timeZone });
 
           if (pendingSearch.conversation_id) {
             const updatedHistory: Message[] = [
@@ -470,15 +534,19 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
               .eq('id', pendingSearch.conversation_id);
           }
 
-          pendingSearch.answer = answer;
-          pendingSearch.status = 'complete';
+          await pendingSearchStore.update(requestId, { answer, status: 'complete' });
 
+          // Give pollers a moment to pick up the answer; the TTL cleanup covers restarts
           setTimeout(() => {
-            pendingSearches.delete(requestId);
+            pendingSearchStore.delete(requestId).catch(error => {
+              fastify.log.error(error, 'Failed to delete pending search');
+            });
           }, 30000);
         } catch (error) {
           fastify.log.error(error, 'Background synthesis failed');
-          pendingSearch.status = 'failed';
+          await pendingSearchStore.update(requestId, { status: 'failed' }).catch(updateError => {
+            fastify.log.error(updateError, 'Failed to mark pending search as failed');
+          });
         }
       })();
 
@@ -488,7 +556,7 @@ export async function askRoutes(fastify: FastifyInstance): Promise<void> {
       };
     }
 
-    pendingSearch.status = 'partial';
+    await pendingSearchStore.update(requestId, { status: 'partial' });
     return {
       status: 'partial',
       request_id: requestId,
@@ -1,26 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { verifyJWT, type AuthenticatedRequest } from '../proxy/auth.js';
+import { PendingSearchExistsError, pendingSearchStore } from '../lib/pending-search-store.js';
 import type { DOMInstruction, SearchHit } from '../types/search.js';
 
-// In-memory store for pending requests (in production, use Redis)
-const pendingRequests = new Map<string, {
-  user_id: string;
-  instructions: DOMInstruction[];
-  results: Map<string, SearchHit[]>;
-  created_at: Date;
-}>();
-
-// Cleanup old requests every 5 minutes
-setInterval(() => {
-  const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-  for (const [id, request] of pendingRequests) {
-    if (request.created_at < fiveMinutesAgo) {
-      pendingRequests.delete(id);
-    }
-  }
-}, 5 * 60 * 1000);
-
 const createInstructionsSchema = z.object({
   request_id: z.string().uuid(),
   sources: z.array(z.enum(['linkedin', 'whatsapp'])),
@@ -59,12 +42,25 @@ export async function domRoutes(fastify: FastifyInstance): Promise<void> {
     }));
 
     // Store pending request
-    pendingRequests.set(request_id, {
-      user_id: authRequest.userId,
-      instructions,
-      results: new Map(),
-      created_at: new Date(),
-    });
+    try {
+      await pendingSearchStore.create({
+        request_id,
+        user_id: authRequest.userId,
+        query: keywords.join(' '),
+        requires_extension: true,
+        sources_needed: sources,
+        instructions,
+        results: {},
+        status: 'pending',
+        created_at: new Date(),
+      });
+    } catch (error) {
+      if (error instanceof PendingSearchExistsError) {
+        return reply.code(409).send({ error: 'A search with this request_id already exists' });
+      }
+      fastify.log.error(error, 'Failed to store pending DOM request');
+      return reply.code(500).send({ error: 'Failed to create instructions' });
+    }
 
     return {
       request_id,
@@ -89,13 +85,13 @@ export async function domRoutes(fastify: FastifyInstance): Promise<void> {
     const { request_id, source, snippets } = parseResult.data;
 
     // Find pending request
-    const pending = pendingRequests.get(request_id);
-    if (!pending) {
+    const existing = await pendingSearchStore.get(request_id);
+    if (!existing) {
       return reply.code(404).send({ error: 'Request not found or expired' });
     }
 
     // Verify ownership
-    if (pending.user_id !== authRequest.userId) {
+    if (existing.user_id !== authRequest.userId) {
       return reply.code(403).send({ error: 'Not authorized' });
     }
 
@@ -109,11 +105,14 @@ export async function domRoutes(fastify: FastifyInstance): Promise<void> {
     }));
 
     // Store results
-    pending.results.set(source, hits);
+    const pending = await pendingSearchStore.addResults(request_id, source, hits);
+    if (!pending) {
+      return reply.code(404).send({ error: 'Request not found or expired' });
+    }
 
     // Check if all results are in
     const expectedSources = pending.instructions.map(i => i.source);
-    const receivedSources = Array.from(pending.results.keys());
+    const receivedSources = Object.keys(pending.results);
     const isComplete = expectedSources.every(s => receivedSources.includes(s));
 
     return {
@@ -131,7 +130,7 @@ export async function domRoutes(fastify: FastifyInstance): Promise<void> {
     const authRequest = request as AuthenticatedRequest;
     const { request_id } = request.params as { request_id: string };
 
-    const pending = pendingRequests.get(request_id);
+    const pending = await pendingSearchStore.get(request_id);
     if (!pending) {
       return reply.code(404).send({ error: 'Request not found or expired' });
     }
@@ -142,12 +141,12 @@ export async function domRoutes(fastify: FastifyInstance): Promise<void> {
 
     // Collect all results
     const allHits: SearchHit[] = [];
-    for (const hits of pending.results.values()) {
-      allHits.push(...hits);
+    for (const hits of Object.values(pending.results)) {
+      if (hits) allHits.push(...hits);
     }
 
     const expectedSources = pending.instructions.map(i => i.source);
-    const receivedSources = Array.from(pending.results.keys());
+    const receivedSources = Object.keys(pending.results);
     const isComplete = expectedSources.every(s => receivedSources.includes(s));
 
     return {
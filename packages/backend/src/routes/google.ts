@@ -16,6 +16,11 @@ const callbackSchema = z.object({
   state: z.string(),
 });
 
+const updateConnectionSchema = z.object({
+  label: z.string().max(50).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
 /*
 interface GoogleConnection {
   email?: string | null;
@@ -41,8 +46,9 @@ export async function googleRoutes(fastify: FastifyInstance): Promise<void> {
 
       const { data, error } = await supabase
         .from("connections")
-        .select("type, email, scopes, created_at, token_expires_at, sync_config")
-        .eq("user_id", authRequest.userId);
+        .select("id, type, email, label, enabled, scopes, created_at, token_expires_at, sync_config, needs_reauth")
+        .eq("user_id", authRequest.userId)
+        .order("created_at", { ascending: true });
 
       if (error) {
         fastify.log.error(error, "Failed to fetch connections");
@@ -50,11 +56,15 @@ export async function googleRoutes(fastify: FastifyInstance): Promise<void> {
       }
 
       const connections = (data || []).map((conn: any) => ({
+        id: conn.id,
         type: conn.type,
         email: conn.email,
+        label: conn.label,
+        enabled: conn.enabled,
         scopes: conn.scopes,
         connectedAt: conn.created_at,
         needsRefresh: new Date(conn.token_expires_at) < new Date(),
+        needsReauth: !!conn.needs_reauth,
         syncConfig: conn.sync_config,
       }));
 
@@ -62,6 +72,52 @@ export async function googleRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 
+  // Update an account's label or search toggle
+  fastify.patch(
+    "/connections/:id",
+    {
+      preHandler: verifyJWT,
+    },
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+      const { id } = request.params as { id: string };
+
+      const parseResult = updateConnectionSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.code(400).send({
+          error: "Invalid request body",
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { label, enabled } = parseResult.data;
+      const supabase = createUserClient(authRequest.accessToken);
+
+      const { data, error } = await supabase
+        .from("connections")
+        .update({
+          ...(label !== undefined ? { label: label?.trim() || null } : {}),
+          ...(enabled !== undefined ? { enabled } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .eq("user_id", authRequest.userId)
+        .select("id, label, enabled")
+        .maybeSingle();
+
+      if (error) {
+        fastify.log.error(error, "Failed to update connection");
+        return reply.code(500).send({ error: "Failed to update connection" });
+      }
+
+      if (!data) {
+        return reply.code(404).send({ error: "Connection not found" });
+      }
+
+      return data;
+    }
+  );
+
   // Get Google connection status
   fastify.get(
     "/google/status",
@@ -72,34 +128,39 @@ export async function googleRoutes(fastify: FastifyInstance): Promise<void> {
       const authRequest = request as AuthenticatedRequest;
       const supabase = createUserClient(authRequest.accessToken);
 
-      // Get google connection
+      // Get google connections (a user may link several accounts)
       const { data, error } = await supabase
         .from("connections")
-        .select("email, scopes, created_at, token_expires_at")
+        .select("id, email, label, enabled, scopes, created_at, token_expires_at")
         .eq("user_id", authRequest.userId)
         .eq("type", "google")
-        .single();
+        .order("created_at", { ascending: true });
 
-      if (error && error.code !== "PGRST116") {
+      if (error) {
         fastify.log.error(error, "Failed to fetch google connection");
         return reply
           .code(500)
           .send({ error: "Failed to fetch connection status" });
       }
 
-      if (!data) {
+      const primary = data?.[0];
+      if (!primary) {
         return { connected: false };
       }
 
-      // Check if token is expired
-      const isExpired = new Date(data.token_expires_at) < new Date();
-
       return {
         connected: true,
-        email: data.email,
-        scopes: data.scopes,
-        connectedAt: data.created_at,
-        needsRefresh: isExpired,
+        email: primary.email,
+        scopes: primary.scopes,
+        connectedAt: primary.created_at,
+        // Check if token is expired
+        needsRefresh: new Date(primary.token_expires_at) < new Date(),
+        accounts: data.map(conn => ({
+          id: conn.id,
+          email: conn.email,
+          label: conn.label,
+          enabled: conn.enabled,
+        })),
       };
     }
   );
@@ -229,9 +290,10 @@ export async function googleRoutes(fastify: FastifyInstance): Promise<void> {
             refresh_token: encryptedTokens.refresh_token,
             token_expires_at: expiresAt.toISOString(),
             scopes: SCOPES,
+            needs_reauth: false,
           },
           {
-            onConflict: "user_id,type",
+            onConflict: "user_id,type,email",
           }
         );
 
@@ -260,11 +322,17 @@ export async function googleRoutes(fastify: FastifyInstance): Promise<void> {
       const authRequest = request as AuthenticatedRequest;
       const supabase = createUserClient(authRequest.accessToken);
 
-      const { error } = await supabase
+      // Disconnect one account when an id is given, otherwise all Google accounts
+      const { id } = request.query as { id?: string };
+
+      let query = supabase
         .from("connections")
         .delete()
         .eq("user_id", authRequest.userId)
         .eq("type", "google");
+      if (id) query = query.eq("id", id);
+
+      const { error } = await query;
 
       if (error) {
         fastify.log.error(error, "Failed to disconnect google");
@@ -23,30 +23,35 @@ export async function microsoftRoutes(fastify: FastifyInstance): Promise<void> {
 
       const { data, error } = await supabase
         .from("connections")
-        .select("email, scopes, created_at, token_expires_at")
+        .select("id, email, label, enabled, scopes, created_at, token_expires_at")
         .eq("user_id", authRequest.userId)
         .eq("type", "microsoft")
-        .single();
+        .order("created_at", { ascending: true });
 
-      if (error && error.code !== "PGRST116") {
+      if (error) {
         fastify.log.error(error, "Failed to fetch microsoft connection");
         return reply
           .code(500)
           .send({ error: "Failed to fetch connection status" });
       }
 
-      if (!data) {
+      const primary = data?.[0];
+      if (!primary) {
         return { connected: false };
       }
 
-      const isExpired = new Date(data.token_expires_at) < new Date();
-
       return {
         connected: true,
-        email: data.email,
-        scopes: data.scopes,
-        connectedAt: data.created_at,
-        needsRefresh: isExpired,
+        email: primary.email,
+        scopes: primary.scopes,
+        connectedAt: primary.created_at,
+        needsRefresh: new Date(primary.token_expires_at) < new Date(),
+        accounts: data.map(conn => ({
+          id: conn.id,
+          email: conn.email,
+          label: conn.label,
+          enabled: conn.enabled,
+        })),
       };
     }
   );
@@ -124,9 +129,10 @@ export async function microsoftRoutes(fastify: FastifyInstance): Promise<void> {
             refresh_token: encrypted.refresh_token,
             token_expires_at: expiresAt.toISOString(),
             scopes: tokens.scope.split(' '),
+            needs_reauth: false,
             updated_at: now,
           }, {
-            onConflict: 'user_id,type',
+            onConflict: 'user_id,type,email',
             ignoreDuplicates: false
           })
           .select();
@@ -161,11 +167,17 @@ export async function microsoftRoutes(fastify: FastifyInstance): Promise<void> {
       const authRequest = request as AuthenticatedRequest;
       const supabase = createUserClient(authRequest.accessToken);
 
-      const { error } = await supabase
+      // Disconnect one account when an id is given, otherwise all Microsoft accounts
+      const { id } = request.query as { id?: string };
+
+      let query = supabase
         .from("connections")
         .delete()
         .eq("user_id", authRequest.userId)
         .eq("type", "microsoft");
+      if (id) query = query.eq("id", id);
+
+      const { error } = await query;
 
       if (error) {
         fastify.log.error(error, "Failed to disconnect microsoft");
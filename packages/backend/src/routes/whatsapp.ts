@@ -2,6 +2,12 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { z } from "zod";
 import { verifyJWT, type AuthenticatedRequest } from "../proxy/auth.js";
 import { supabaseAdmin } from "../lib/supabase.js";
+import { embedSyncedMessages } from "../lib/embeddings.js";
+import { messageText } from "../lib/whatsapp-context.js";
+import { contactNames, findContacts, whatsappPhone, type ResolvedContact } from "../lib/contacts.js";
+import { effectiveBackfillStatus, summarizeBackfill } from "../lib/whatsapp-backfill.js";
+import { getSchedulingPreferences } from "../lib/user-preferences.js";
+import { zonedDateTimeToUtc } from "../lib/time-zone.js";
 
 // WA Browser Server URL
 const WA_SERVER_URL = process.env.WA_BROWSER_SERVER_URL ?? "http://localhost:3002";
@@ -25,6 +31,22 @@ const MessageBatchSchema = z.object({
       content: z.string(),
       timestamp: z.string(),
       isFromMe: z.boolean(),
+      // Media details; absent from WA servers that only send text
+      type: z.string().default("chat"),
+      caption: z.string().nullable().optional(),
+      media: z.object({
+        filename: z.string().nullable(),
+        mimetype: z.string().nullable(),
+        size: z.number().nullable(),
+        durationSeconds: z.number().nullable(),
+      }).nullable().optional(),
+      location: z.object({
+        latitude: z.number(),
+        longitude: z.number(),
+        name: z.string().nullable(),
+        address: z.string().nullable(),
+      }).nullable().optional(),
+      quotedMessageId: z.string().nullable().optional(),
     })
   ),
   receivedAt: z.string(),
@@ -38,6 +60,7 @@ const ContactSchema = z.object({
       name: z.string().optional().nullable(),
       short_name: z.string().optional().nullable(),
       pushname: z.string().optional().nullable(),
+      phone: z.string().optional().nullable(),
       is_business: z.boolean().optional(),
       is_group: z.boolean().optional(),
       profile_pic_url: z.string().optional().nullable(),
@@ -55,8 +78,54 @@ const SyncStatusSchema = z.object({
   userId: z.string().uuid(),
   lastSyncAt: z.string(),
   syncCount: z.number(),
+  // Chat id -> newest synced message (epoch ms), handed back by /wa/linked after a restart
+  highWaterMarks: z.record(z.string(), z.number()).optional(),
 });
 
+const BackfillStartSchema = z.object({
+  // First day to backfill, in the user's time zone
+  since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  // Chat names; empty = the 10 most recent chats
+  chats: z.array(z.string()).default([]),
+});
+
+const BackfillProgressSchema = z.object({
+  userId: z.string().uuid(),
+  status: z.enum(["running", "completed", "failed", "cancelled", "interrupted"]),
+  since: z.string(),
+  chats: z.array(
+    z.object({
+      chatId: z.string(),
+      chatName: z.string(),
+      status: z.enum(["pending", "done", "truncated", "failed"]),
+      messagesUploaded: z.number().int().nonnegative(),
+      oldestUploadedAt: z.string().nullable(),
+    })
+  ),
+  messagesUploaded: z.number().int().nonnegative(),
+  error: z.string().nullable(),
+});
+
+/**
+ * Ask the WA server to start (or resume) a user's backfill
+ */
+async function startBackfillOnServer(body: {
+  userId: string;
+  since: string;
+  chats: string[];
+  checkpoints?: unknown;
+}): Promise<{ ok: boolean; status: number; result: unknown }> {
+  const response = await fetch(`${WA_SERVER_URL}/backfill/start`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-API-Key": WA_API_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+  return { ok: response.ok, status: response.status, result: await response.json() };
+}
+
 /**
  * Verify API key from WA browser server
  */
@@ -121,7 +190,7 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
       // Also check with WA server for live status
       let liveStatus: { isRunning?: boolean; isLinked?: boolean } | null = null;
       try {
-        const response = await fetch(`${WA_SERVER_URL}/browser/status`, {
+        const response = await fetch(`${WA_SERVER_URL}/browser/status?userId=${authRequest.userId}`, {
           headers: { "X-API-Key": WA_API_KEY },
         });
         if (response.ok) {
@@ -160,9 +229,11 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     {
       preHandler: verifyJWT,
     },
-    async (_request, reply) => {
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
       try {
-        const response = await fetch(`${WA_SERVER_URL}/screenshot`, {
+        const response = await fetch(`${WA_SERVER_URL}/screenshot?userId=${authRequest.userId}`, {
           headers: { "X-API-Key": WA_API_KEY },
         });
 
@@ -353,14 +424,18 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     {
       preHandler: verifyJWT,
     },
-    async (_request, reply) => {
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
       // Forward to WA server
       try {
         const response = await fetch(`${WA_SERVER_URL}/sync/trigger`, {
           method: "POST",
           headers: {
+            "Content-Type": "application/json",
             "X-API-Key": WA_API_KEY,
           },
+          body: JSON.stringify({ userId: authRequest.userId }),
         });
 
         const result = await response.json();
@@ -390,10 +465,12 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     {
       preHandler: verifyJWT,
     },
-    async (_request, reply) => {
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
       // Forward to WA server
       try {
-        const response = await fetch(`${WA_SERVER_URL}/sync/status`, {
+        const response = await fetch(`${WA_SERVER_URL}/sync/status?userId=${authRequest.userId}`, {
           headers: { "X-API-Key": WA_API_KEY },
         });
 
@@ -419,9 +496,11 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     {
       preHandler: verifyJWT,
     },
-    async (_request, reply) => {
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
       try {
-        const response = await fetch(`${WA_SERVER_URL}/wa/chats`, {
+        const response = await fetch(`${WA_SERVER_URL}/wa/chats?userId=${authRequest.userId}`, {
           headers: {
             "X-API-Key": WA_API_KEY,
           },
@@ -487,7 +566,7 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
             "Content-Type": "application/json",
             "X-API-Key": WA_API_KEY,
           },
-          body: JSON.stringify({ monitoredChats }),
+          body: JSON.stringify({ userId: authRequest.userId, monitoredChats }),
         });
       } catch (error) {
         // Log but don't fail, as DB update succeeded
@@ -498,6 +577,226 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * GET /wa/backfill
+   * Progress of the user's history backfill
+   */
+  fastify.get(
+    "/wa/backfill",
+    {
+      preHandler: verifyJWT,
+    },
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
+      if (!supabaseAdmin) {
+        return reply.code(500).send({ error: "Database not configured" });
+      }
+
+      const { data: backfill, error } = await supabaseAdmin
+        .from("whatsapp_backfills")
+        .select("*")
+        .eq("user_id", authRequest.userId)
+        .maybeSingle();
+
+      if (error) {
+        fastify.log.error(error, "Failed to fetch backfill");
+        return reply.code(500).send({ error: "Failed to fetch backfill" });
+      }
+
+      return { backfill: backfill ? summarizeBackfill(backfill) : null };
+    }
+  );
+
+  /**
+   * POST /wa/backfill
+   * Start backfilling chat history back to a date, replacing any earlier backfill
+   */
+  fastify.post(
+    "/wa/backfill",
+    {
+      preHandler: verifyJWT,
+    },
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
+      const body = BackfillStartSchema.safeParse(request.body);
+      if (!body.success) {
+        return reply.code(400).send({ error: "Invalid request", details: body.error.issues });
+      }
+
+      if (!supabaseAdmin) {
+        return reply.code(500).send({ error: "Database not configured" });
+      }
+
+      const clientTimeZone = request.headers["x-time-zone"];
+      const { timeZone } = await getSchedulingPreferences(
+        authRequest.userId,
+        typeof clientTimeZone === "string" ? clientTimeZone : undefined
+      );
+      const since = zonedDateTimeToUtc(body.data.since, "00:00", timeZone);
+      if (since.getTime() >= Date.now()) {
+        return reply.code(400).send({ error: "Backfill date must be in the past" });
+      }
+
+      const { data: existing } = await supabaseAdmin
+        .from("whatsapp_backfills")
+        .select("*")
+        .eq("user_id", authRequest.userId)
+        .maybeSingle();
+
+      if (existing && effectiveBackfillStatus(existing) === "running") {
+        return reply.code(409).send({ error: "Backfill already running" });
+      }
+
+      const now = new Date().toISOString();
+      const { data: backfill, error } = await supabaseAdmin
+        .from("whatsapp_backfills")
+        .upsert({
+          user_id: authRequest.userId,
+          status: "running",
+          since: since.toISOString(),
+          requested_chats: body.data.chats,
+          chats: [],
+          messages_uploaded: 0,
+          error: null,
+          started_at: now,
+          updated_at: now,
+          finished_at: null,
+        })
+        .select("*")
+        .single();
+
+      if (error || !backfill) {
+        fastify.log.error(error, "Failed to create backfill");
+        return reply.code(500).send({ error: "Failed to create backfill" });
+      }
+
+      try {
+        const { ok, status, result } = await startBackfillOnServer({
+          userId: authRequest.userId,
+          since: since.toISOString(),
+          chats: body.data.chats,
+        });
+
+        if (!ok) {
+          await supabaseAdmin
+            .from("whatsapp_backfills")
+            .update({ status: "failed", error: (result as { error?: string }).error ?? "Failed to start", finished_at: now })
+            .eq("user_id", authRequest.userId);
+          return reply.code(status).send(result);
+        }
+      } catch (err) {
+        fastify.log.error(err, "Failed to start backfill");
+        await supabaseAdmin
+          .from("whatsapp_backfills")
+          .update({ status: "failed", error: "Failed to connect to browser server", finished_at: now })
+          .eq("user_id", authRequest.userId);
+        return reply.code(502).send({ error: "Failed to connect to browser server" });
+      }
+
+      return { success: true, backfill: summarizeBackfill(backfill) };
+    }
+  );
+
+  /**
+   * POST /wa/backfill/resume
+   * Resume an interrupted, failed or cancelled backfill from its checkpoints
+   */
+  fastify.post(
+    "/wa/backfill/resume",
+    {
+      preHandler: verifyJWT,
+    },
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
+      if (!supabaseAdmin) {
+        return reply.code(500).send({ error: "Database not configured" });
+      }
+
+      const { data: backfill } = await supabaseAdmin
+        .from("whatsapp_backfills")
+        .select("*")
+        .eq("user_id", authRequest.userId)
+        .maybeSingle();
+
+      if (!backfill) {
+        return reply.code(404).send({ error: "No backfill to resume" });
+      }
+
+      const status = effectiveBackfillStatus(backfill);
+      if (status === "running" || status === "completed") {
+        return reply.code(409).send({ error: `Backfill already ${status}` });
+      }
+
+      try {
+        const { ok, status: code, result } = await startBackfillOnServer({
+          userId: authRequest.userId,
+          since: new Date(backfill.since).toISOString(),
+          chats: backfill.requested_chats,
+          checkpoints: backfill.chats,
+        });
+
+        if (!ok) {
+          return reply.code(code).send(result);
+        }
+      } catch (err) {
+        fastify.log.error(err, "Failed to resume backfill");
+        return reply.code(502).send({ error: "Failed to connect to browser server" });
+      }
+
+      const { data: resumed } = await supabaseAdmin
+        .from("whatsapp_backfills")
+        .update({ status: "running", error: null, updated_at: new Date().toISOString(), finished_at: null })
+        .eq("user_id", authRequest.userId)
+        .select("*")
+        .single();
+
+      return { success: true, backfill: resumed ? summarizeBackfill(resumed) : null };
+    }
+  );
+
+  /**
+   * DELETE /wa/backfill
+   * Cancel the user's running backfill; uploaded history is kept
+   */
+  fastify.delete(
+    "/wa/backfill",
+    {
+      preHandler: verifyJWT,
+    },
+    async (request, reply) => {
+      const authRequest = request as AuthenticatedRequest;
+
+      if (!supabaseAdmin) {
+        return reply.code(500).send({ error: "Database not configured" });
+      }
+
+      try {
+        await fetch(`${WA_SERVER_URL}/backfill/cancel`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-API-Key": WA_API_KEY,
+          },
+          body: JSON.stringify({ userId: authRequest.userId }),
+        });
+      } catch {
+        // The browser may already be gone; the row is still marked cancelled
+      }
+
+      const now = new Date().toISOString();
+      await supabaseAdmin
+        .from("whatsapp_backfills")
+        .update({ status: "cancelled", updated_at: now, finished_at: now })
+        .eq("user_id", authRequest.userId)
+        .eq("status", "running");
+
+      return { success: true };
+    }
+  );
+
   /**
    * POST /wa/linked
    * Called by browser server when WhatsApp linkage is detected
@@ -550,10 +849,12 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
         linked_at: linked ? timestamp : null,
         last_heartbeat: timestamp,
         updated_at: timestamp,
+        // Marks of an unlinked account mean nothing to the next one linked
+        ...(linked ? {} : { sync_marks: {} }),
       }, {
         onConflict: 'user_id',
       })
-      .select('id')
+      .select('id, sync_marks')
       .single();
 
     if (browserError) {
@@ -633,7 +934,8 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
 
     fastify.log.info(`WhatsApp ${linked ? "linked" : "unlinked"} for user ${userId}`);
 
-    return { success: true, linked, browserInstanceId };
+    // Sync high-water marks from the previous session, so its scheduler resumes where that one stopped
+    return { success: true, linked, browserInstanceId, syncMarks: browserInstance?.sync_marks ?? {} };
   });
 
   /**
@@ -652,7 +954,7 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
       return reply.code(500).send({ error: "Database not configured" });
     }
 
-    const { userId, lastSyncAt, syncCount } = body.data;
+    const { userId, lastSyncAt, syncCount, highWaterMarks } = body.data;
 
     // Update browser instance with sync info
     await supabaseAdmin
@@ -661,6 +963,7 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
         last_sync_at: lastSyncAt,
         sync_count: syncCount,
         last_seen_at: lastSyncAt,
+        ...(highWaterMarks ? { sync_marks: highWaterMarks } : {}),
       })
       .eq("user_id", userId);
 
@@ -669,6 +972,42 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     return { success: true };
   });
 
+  /**
+   * POST /wa/backfill/progress
+   * Checkpoint reported by the browser server after each backfill batch
+   */
+  fastify.post("/wa/backfill/progress", async (request, reply) => {
+    if (!verifyApiKey(request, reply)) return;
+
+    const body = BackfillProgressSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.code(400).send({ error: "Invalid request", details: body.error.issues });
+    }
+
+    if (!supabaseAdmin) {
+      return reply.code(500).send({ error: "Database not configured" });
+    }
+
+    const { userId, status, since, chats, messagesUploaded, error } = body.data;
+    const now = new Date().toISOString();
+
+    // Matching `since` keeps a report from an older, replaced backfill from overwriting the new one
+    await supabaseAdmin
+      .from("whatsapp_backfills")
+      .update({
+        status,
+        chats,
+        messages_uploaded: messagesUploaded,
+        error,
+        updated_at: now,
+        finished_at: status === "running" ? null : now,
+      })
+      .eq("user_id", userId)
+      .eq("since", since);
+
+    return { success: true };
+  });
+
   /**
    * POST /wa/contacts
    * Store synced contacts
@@ -686,11 +1025,43 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     }
 
     const { userId, contacts } = body.data;
-    
-    // Note: whatsapp_contacts table is deprecated/removed. 
-    // Skipping storage for now until a generic contacts solution is in place.
+    const now = new Date().toISOString();
 
-    fastify.log.info(`Synced ${contacts.length} contacts for user ${userId} (Storage skipped - table removed)`);
+    const rows = contacts.map(c => {
+      const phone = c.phone?.replace(/\D/g, "") || whatsappPhone(c.wa_id);
+      return {
+        user_id: userId,
+        source: "whatsapp",
+        external_id: c.wa_id,
+        display_name: c.name || c.pushname || c.short_name || phone,
+        names: contactNames(c.name, c.short_name, c.pushname),
+        phone,
+        is_group: c.is_group ?? false,
+        is_business: c.is_business ?? false,
+        updated_at: now,
+      };
+    });
+
+    for (let i = 0; i < rows.length; i += 500) {
+      const { error } = await supabaseAdmin
+        .from("contacts")
+        .upsert(rows.slice(i, i + 500), { onConflict: "user_id,source,external_id" });
+
+      if (error) {
+        fastify.log.error(error, `Failed to store contacts for user ${userId}`);
+        return reply.code(500).send({ error: "Failed to store contacts" });
+      }
+    }
+
+    // Messages synced before their sender's contact now get its name
+    const { data: resolved, error: resolveError } = await supabaseAdmin
+      .rpc("resolve_message_senders", { p_user_id: userId, p_source: "whatsapp" });
+
+    if (resolveError) {
+      fastify.log.error(resolveError, `Failed to resolve message senders for user ${userId}`);
+    }
+
+    fastify.log.info(`Synced ${contacts.length} contacts for user ${userId}, resolved ${resolved ?? 0} message senders`);
     return { success: true, count: contacts.length };
   });
 
@@ -712,6 +1083,14 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
 
     const { userId, messages, receivedAt } = body.data;
 
+    // Senders arrive as WhatsApp ids; show the contact's name where we have one
+    let senderContacts = new Map<string, ResolvedContact>();
+    try {
+      senderContacts = await findContacts(supabaseAdmin, userId, "whatsapp", [...new Set(messages.map(m => m.sender))]);
+    } catch (err) {
+      fastify.log.error(err, `Failed to resolve senders for user ${userId}`);
+    }
+
     // Group messages by chat
     const chats: Record<string, any[]> = {};
     const chatNames: Record<string, string> = {};
@@ -719,12 +1098,20 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     for (const msg of messages) {
       if (!chats[msg.chatId]) chats[msg.chatId] = [];
       
+      const contact = senderContacts.get(msg.sender);
       chats[msg.chatId]!.push({
         id: msg.id,
-        sender: msg.sender,
+        sender: contact?.display_name || msg.sender,
+        senderExternalId: msg.sender,
+        senderContactId: contact?.id ?? null,
         content: msg.content,
         timestamp: msg.timestamp,
         isFromMe: msg.isFromMe,
+        type: msg.type,
+        caption: msg.caption ?? null,
+        media: msg.media ?? null,
+        location: msg.location ?? null,
+        quotedMessageId: msg.quotedMessageId ?? null,
         receivedAt: receivedAt
       });
       
@@ -732,6 +1119,9 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
     }
 
     let storedCount = 0;
+    const messagesToEmbed: Array<{ id: string; content: string | null }> = [];
+    // Chats whose messages weren't stored; the caller must not treat them as synced
+    const failedChats: string[] = [];
 
     // Process each chat
     for (const [chatId, chatMessages] of Object.entries(chats)) {
@@ -776,36 +1166,61 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
           if (newConv) conversationId = newConv.id;
         }
 
-        if (conversationId) {
+        if (!conversationId) {
+          fastify.log.error(`Failed to find or create conversation ${chatId}`);
+          failedChats.push(chatId);
+        } else {
           // 2. Insert individual synced_messages
           const messagesToInsert = chatMessages.map(m => ({
             conversation_id: conversationId,
             user_id: userId,
             external_id: m.id,
             sender: m.sender,
+            sender_external_id: m.senderExternalId,
+            sender_contact_id: m.senderContactId,
             content: m.content,
             timestamp: m.timestamp,
             received_at: m.receivedAt,
             is_from_me: m.isFromMe,
+            message_type: m.type,
+            caption: m.caption,
+            media_filename: m.media?.filename ?? null,
+            media_mimetype: m.media?.mimetype ?? null,
+            media_size: m.media?.size ?? null,
+            media_duration_seconds: m.media?.durationSeconds ?? null,
+            quoted_external_id: m.quotedMessageId,
+            metadata: m.location ? { location: m.location } : null,
             created_at: new Date().toISOString()
           }));
 
           // Use upsert to avoid duplicates
-          const { error } = await supabaseAdmin
+          const { data: storedMessages, error } = await supabaseAdmin
             .from('synced_messages')
-            .upsert(messagesToInsert, { onConflict: 'user_id,conversation_id,external_id' });
+            .upsert(messagesToInsert, { onConflict: 'user_id,conversation_id,external_id' })
+            .select('id, content, message_type, caption, media_filename, media_size, media_duration_seconds');
             
           if (error) {
              fastify.log.error(error, `Failed to insert synced messages for ${chatId}`);
+             failedChats.push(chatId);
           } else {
              storedCount += chatMessages.length;
+             // Media messages are embedded with their placeholder and caption, so "the PDF" finds them
+             messagesToEmbed.push(...(storedMessages || []).map(m => ({ id: m.id, content: messageText(m) })));
           }
         }
       } catch (err) {
         fastify.log.error(err, `Failed to sync conversation ${chatId}`);
+        failedChats.push(chatId);
       }
     }
 
+    // Embed for semantic search in the background so the WA server isn't held up by the model
+    if (messagesToEmbed.length > 0) {
+      embedSyncedMessages(supabaseAdmin, messagesToEmbed, fastify.log).catch(err => {
+        fastify.log.error(err, "Failed to embed synced messages");
+      });
+    }
+
     // Update last seen
     await supabaseAdmin
       .from("browser_instances")
@@ -814,6 +1229,12 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
 
     fastify.log.info(`Stored ${storedCount} messages for user ${userId} in synced_messages table`);
 
+    // Any 2xx tells the WA server the whole batch is stored and moves its sync marks past it,
+    // so a partly failed batch is an error; the stored part is upserted again on retry
+    if (failedChats.length > 0) {
+      return reply.code(500).send({ error: "Failed to store some chats", stored: storedCount, failedChats });
+    }
+
     return { success: true, stored: storedCount };
   });
 
@@ -833,13 +1254,19 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
 
     fastify.log.info({ event, data, timestamp }, "WA event received");
 
-    // Handle specific events
-    if (event === "browser:idle-timeout" && supabaseAdmin) {
+    // Handle specific events: the user's browser was closed by the WA server
+    // (idle without linking, or evicted to make room for another user's session)
+    const closedStatus: Record<string, string> = {
+      "browser:idle-timeout": "idle-timeout",
+      "browser:evicted": "evicted",
+    };
+    const status = closedStatus[event];
+    if (status && supabaseAdmin) {
       const eventData = data as { userId?: string };
       if (eventData.userId) {
         await supabaseAdmin
           .from("browser_instances")
-          .update({ status: "idle-timeout" })
+          .update({ status })
           .eq("user_id", eventData.userId);
       }
     }
@@ -892,6 +1319,13 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
              chat_name: m.synced_conversations?.title,
              sender: m.sender,
              content: m.content,
+             message_type: m.message_type,
+             caption: m.caption,
+             media_filename: m.media_filename,
+             media_mimetype: m.media_mimetype,
+             media_size: m.media_size,
+             media_duration_seconds: m.media_duration_seconds,
+             quoted_message_id: m.quoted_external_id,
              message_timestamp: m.timestamp,
              is_from_me: m.is_from_me,
              received_at: m.received_at
@@ -936,7 +1370,7 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
       const chats = await Promise.all((data || []).map(async (conv: any) => {
         const { data: lastMsg } = await supabaseAdmin!
             .from("synced_messages")
-            .select("content, timestamp")
+            .select("content, timestamp, message_type, caption, media_filename, media_size, media_duration_seconds")
             .eq("conversation_id", conv.id)
             .order("timestamp", { ascending: false })
             .limit(1)
@@ -945,7 +1379,7 @@ export async function whatsappRoutes(fastify: FastifyInstance): Promise<void> {
         return {
           chatId: conv.external_id,
           chatName: conv.title || conv.external_id,
-          lastMessage: lastMsg?.content || "",
+          lastMessage: lastMsg ? messageText(lastMsg) : "",
           lastMessageAt: lastMsg?.timestamp || conv.updated_at
         };
       }));
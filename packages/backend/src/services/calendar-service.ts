@@ -1,8 +1,7 @@
-import { getCalendarEvents, refreshAccessToken } from '../lib/calendar.js';
+import { getCalendarEvents } from '../lib/calendar.js';
 import { getOutlookEvents } from '../lib/microsoft-graph.js';
 import { normalizeCalendarResults, normalizeOutlookCalendarResults } from '../lib/normalizer.js';
-import { refreshAccessToken as refreshMicrosoftToken } from '../lib/microsoft.js';
-import { encrypt, encryptTokens } from '../lib/encryption.js';
+import { ConnectionTokenManager } from './connection-token-manager.js';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { FastifyBaseLogger } from 'fastify';
 import type { SearchHit } from '../types/search.js';
@@ -12,66 +11,70 @@ interface CalendarServiceParams {
     microsoftConnection?: any;
     startDate?: Date | undefined;
     endDate?: Date | undefined;
+    // Free text matched against title, description, location and people
+    query?: string | null | undefined;
+    // Only events one of these people organizes or attends (name or email, partial match)
+    attendees?: string[] | null | undefined;
+    // Events per account across all calendars
+    maxResults?: number | undefined;
     logger: FastifyBaseLogger;
     supabaseAdmin?: SupabaseClient;
 }
 
+export interface CalendarEventsResult {
+    hits: SearchHit[];
+    // false when an account or calendar couldn't be read, or events were cut at maxResults
+    complete: boolean;
+}
+
+function eventText(hit: SearchHit): string {
+    return [hit.metadata.subject, hit.content, hit.metadata.location, hit.metadata.sender, ...(hit.metadata.attendees ?? [])]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+}
+
+// Every word of the query appears somewhere in the event (Google's `q` semantics)
+function matchesQuery(hit: SearchHit, query: string): boolean {
+    const text = eventText(hit);
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word));
+}
+
+function matchesAttendees(hit: SearchHit, attendees: string[]): boolean {
+    const people = [hit.metadata.sender, ...(hit.metadata.attendees ?? [])].filter(Boolean).join(' ').toLowerCase();
+    return attendees.some(attendee => people.includes(attendee.toLowerCase()));
+}
+
 export class CalendarService {
-    static async getEvents({ googleConnection, microsoftConnection, startDate, endDate, logger, supabaseAdmin }: CalendarServiceParams): Promise<SearchHit[]> {
+    static async getEvents({ googleConnection, microsoftConnection, startDate, endDate, query, attendees, maxResults, logger, supabaseAdmin }: CalendarServiceParams): Promise<CalendarEventsResult> {
         const results: SearchHit[] = [];
         const promises: Promise<void>[] = [];
+        let complete = true;
 
-        // Helper for unauthorized check
-        const isUnauthorized = (error: any) =>
-            error?.code === 401 ||
-            error?.status === 401 ||
-            error?.response?.status === 401 ||
-            error?.response?.data?.error?.code === 401 ||
-            error?.message?.includes('401');
+        const tokenContext = { logger, supabaseAdmin };
 
         // Google Calendar Logic
         if (googleConnection) {
             promises.push((async () => {
-                let accessToken = googleConnection.access_token_decrypted;
-                const refreshToken = googleConnection.refresh_token_decrypted;
-
-                if (!accessToken) return;
-
                 try {
-                    let calendarResults;
-                    try {
-                        calendarResults = await getCalendarEvents(accessToken, startDate, endDate);
-                    } catch (error: any) {
-                        if (isUnauthorized(error)) {
-                            logger.info('Calendar API returned 401, refreshing token and retrying');
-                            try {
-                                const newTokens = await refreshAccessToken(refreshToken);
-                                if (!newTokens.access_token) throw new Error('No access token returned');
-                                accessToken = newTokens.access_token;
-
-                                if (supabaseAdmin) {
-                                    const encrypted = encrypt(newTokens.access_token);
-                                    await supabaseAdmin.from('connections').update({
-                                        access_token: encrypted,
-                                        token_expires_at: new Date(newTokens.expiry_date || Date.now() + 3600000).toISOString(),
-                                    }).eq('id', googleConnection.id);
-                                }
-                                calendarResults = await getCalendarEvents(accessToken, startDate, endDate);
-                            } catch (refreshError) {
-                                logger.error(refreshError, 'Failed to refresh Google token after 401');
-                                return;
-                            }
-                        } else {
-                            throw error;
-                        }
-                    }
+                    const calendarResults = await ConnectionTokenManager.withAccessToken(
+                        googleConnection,
+                        tokenContext,
+                        accessToken => getCalendarEvents(accessToken, startDate, endDate, { query, maxResults })
+                    );
 
                     if (calendarResults) {
-                        logger.info({ count: calendarResults.events.length }, 'Calendar fetch complete');
-                        results.push(...normalizeCalendarResults(calendarResults.events));
+                        logger.info({ count: calendarResults.events.length, complete: calendarResults.complete }, 'Calendar fetch complete');
+                        // Text matching already happened in the API (q)
+                        results.push(...normalizeCalendarResults(calendarResults.events)
+                            .filter(hit => !attendees?.length || matchesAttendees(hit, attendees)));
+                        if (!calendarResults.complete) complete = false;
+                    } else {
+                        complete = false;
                     }
                 } catch (error) {
                     logger.error(error, 'Calendar fetch failed');
+                    complete = false;
                 }
             })());
         }
@@ -79,58 +82,34 @@ export class CalendarService {
         // Outlook Calendar Logic
         if (microsoftConnection) {
             promises.push((async () => {
-                let accessToken = microsoftConnection.access_token_decrypted;
-                const refreshToken = microsoftConnection.refresh_token_decrypted;
-
-                if (!accessToken) return;
-
                 try {
                     const s = startDate || new Date();
                     const e = endDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
-                    let outlookEvents;
-                    try {
-                        outlookEvents = await getOutlookEvents(accessToken, s, e);
-                    } catch (error: any) {
-                        if (isUnauthorized(error)) {
-                            logger.info('Outlook Calendar API returned 401, refreshing token');
-                            try {
-                                const newTokens = await refreshMicrosoftToken(refreshToken || '');
-                                if (!newTokens.access_token) throw new Error('No access token returned');
-                                accessToken = newTokens.access_token;
-
-                                if (supabaseAdmin) {
-                                    const encrypted = encryptTokens({
-                                        access_token: newTokens.access_token,
-                                        refresh_token: newTokens.refresh_token || refreshToken,
-                                    });
-                                    await supabaseAdmin.from('connections').update({
-                                        access_token: encrypted.access_token,
-                                        refresh_token: encrypted.refresh_token,
-                                        token_expires_at: new Date(Date.now() + newTokens.expires_in * 1000).toISOString(),
-                                    }).eq('id', microsoftConnection.id);
-                                }
-                                outlookEvents = await getOutlookEvents(accessToken, s, e);
-                            } catch (refreshError) {
-                                logger.error(refreshError, 'Failed to refresh Microsoft token');
-                                return;
-                            }
-                        } else {
-                            throw error;
-                        }
-                    }
+                    const outlookEvents = await ConnectionTokenManager.withAccessToken(
+                        microsoftConnection,
+                        tokenContext,
+                        accessToken => getOutlookEvents(accessToken, s, e, maxResults)
+                    );
 
                     if (outlookEvents) {
-                        logger.info({ count: outlookEvents.length }, 'Outlook calendar fetch complete');
-                        results.push(...normalizeOutlookCalendarResults(outlookEvents));
+                        logger.info({ count: outlookEvents.events.length, complete: outlookEvents.complete }, 'Outlook calendar fetch complete');
+                        // calendarView can't search, so text matching happens here
+                        results.push(...normalizeOutlookCalendarResults(outlookEvents.events)
+                            .filter(hit => !query || matchesQuery(hit, query))
+                            .filter(hit => !attendees?.length || matchesAttendees(hit, attendees)));
+                        if (!outlookEvents.complete) complete = false;
+                    } else {
+                        complete = false;
                     }
                 } catch (error) {
                     logger.error(error, 'Outlook calendar fetch failed');
+                    complete = false;
                 }
             })());
         }
 
         await Promise.allSettled(promises);
-        return results;
+        return { hits: results, complete };
     }
 }
@@ -0,0 +1,198 @@
+import { refreshAccessToken as refreshGoogleToken } from '../lib/calendar.js';
+import { refreshAccessToken as refreshMicrosoftToken } from '../lib/microsoft.js';
+import { decryptTokens, encryptTokens } from '../lib/encryption.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FastifyBaseLogger } from 'fastify';
+
+interface TokenManagerContext {
+    logger: FastifyBaseLogger;
+    supabaseAdmin?: SupabaseClient | null | undefined;
+}
+
+/**
+ * Thrown when the provider rejected the refresh token (invalid_grant).
+ * The connection has been flagged `needs_reauth` and the user must reconnect.
+ */
+export class ReauthRequiredError extends Error {
+    constructor(public readonly connectionType: string) {
+        super(`${connectionType} connection needs to be re-authorized`);
+        this.name = 'ReauthRequiredError';
+    }
+}
+
+// In-flight refreshes keyed by connection id, so concurrent 401s share one refresh
+const inFlightRefreshes = new Map<string, Promise<string>>();
+
+// Refresh a little before the recorded expiry to avoid using a token that dies mid-request
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+const isUnauthorized = (error: any) =>
+    error?.code === 401 ||
+    error?.status === 401 ||
+    error?.response?.status === 401 ||
+    error?.response?.data?.error?.code === 401 ||
+    error?.message?.includes('401');
+
+const isInvalidGrant = (error: any) =>
+    error?.response?.data?.error === 'invalid_grant' ||
+    error?.message?.includes('invalid_grant');
+
+/**
+ * Single owner of OAuth token handling for `connections` rows:
+ * decryption, expiry checks, refresh (one at a time per connection),
+ * persistence and re-auth flagging.
+ *
+ * Connections are decorated in place with `access_token_decrypted` and
+ * `refresh_token_decrypted`, so every service sharing a connection object
+ * sees the refreshed token.
+ */
+export class ConnectionTokenManager {
+    /**
+     * Decrypt the stored tokens onto the connection. Returns false if they can't be decrypted.
+     */
+    static decrypt(connection: any, logger: FastifyBaseLogger): boolean {
+        if (connection.access_token_decrypted) return true;
+        try {
+            const tokens = decryptTokens({
+                access_token: connection.access_token,
+                refresh_token: connection.refresh_token,
+            });
+            connection.access_token_decrypted = tokens.access_token;
+            connection.refresh_token_decrypted = tokens.refresh_token;
+            return true;
+        } catch (error) {
+            logger.error(error, `Failed to decrypt ${connection.type} tokens`);
+            return false;
+        }
+    }
+
+    /**
+     * A usable access token for the connection, refreshed first if it has expired.
+     * Returns null when the connection can't be used (undecryptable or needs re-auth).
+     */
+    static async getAccessToken(connection: any, context: TokenManagerContext): Promise<string | null> {
+        if (!connection || connection.needs_reauth) return null;
+        if (!this.decrypt(connection, context.logger)) return null;
+
+        const expires = connection.token_expires_at ? new Date(connection.token_expires_at).getTime() : null;
+        if (expires && expires - EXPIRY_SKEW_MS > Date.now()) {
+            return connection.access_token_decrypted;
+        }
+
+        try {
+            return await this.refresh(connection, context);
+        } catch (error) {
+            if (!(error instanceof ReauthRequiredError)) {
+                context.logger.error(error, `Failed to refresh ${connection.type} token`);
+            }
+            return null;
+        }
+    }
+
+    /**
+     * Refresh the connection's access token. Concurrent callers for the same
+     * connection share a single refresh request and DB write.
+     */
+    static refresh(connection: any, context: TokenManagerContext): Promise<string> {
+        const existing = inFlightRefreshes.get(connection.id);
+        if (existing) return existing;
+
+        const refreshPromise = this.performRefresh(connection, context).finally(() => {
+            inFlightRefreshes.delete(connection.id);
+        });
+        inFlightRefreshes.set(connection.id, refreshPromise);
+        return refreshPromise;
+    }
+
+    /**
+     * Run `fn` with a valid access token. On a 401 the token is refreshed
+     * (or a refresh already done by another caller is picked up) and `fn` is retried once.
+     */
+    static async withAccessToken<T>(
+        connection: any,
+        context: TokenManagerContext,
+        fn: (accessToken: string) => Promise<T>
+    ): Promise<T | null> {
+        const accessToken = await this.getAccessToken(connection, context);
+        if (!accessToken) return null;
+
+        try {
+            return await fn(accessToken);
+        } catch (error) {
+            if (!isUnauthorized(error)) throw error;
+
+            context.logger.info(`${connection.type} API returned 401, refreshing token and retrying`);
+            // Another caller may have refreshed while this request was in flight
+            const freshToken = connection.access_token_decrypted !== accessToken
+                ? connection.access_token_decrypted
+                : await this.refresh(connection, context);
+
+            return await fn(freshToken);
+        }
+    }
+
+    private static async performRefresh(connection: any, { logger, supabaseAdmin }: TokenManagerContext): Promise<string> {
+        const refreshToken: string | undefined = connection.refresh_token_decrypted;
+        if (!refreshToken) {
+            throw new Error(`No refresh token for ${connection.type} connection`);
+        }
+
+        logger.info(`Refreshing ${connection.type} access token`);
+
+        let accessToken: string;
+        let newRefreshToken = refreshToken;
+        let expiresAt: Date;
+
+        try {
+            if (connection.type === 'google') {
+                const tokens = await refreshGoogleToken(refreshToken);
+                if (!tokens.access_token) throw new Error('No access token returned');
+                accessToken = tokens.access_token;
+                expiresAt = new Date(tokens.expiry_date || Date.now() + 3600000);
+            } else if (connection.type === 'microsoft') {
+                const tokens = await refreshMicrosoftToken(refreshToken);
+                if (!tokens.access_token) throw new Error('No access token returned');
+                accessToken = tokens.access_token;
+                // Microsoft may rotate the refresh token
+                newRefreshToken = tokens.refresh_token || refreshToken;
+                expiresAt = new Date(Date.now() + tokens.expires_in * 1000);
+            } else {
+                throw new Error(`Token refresh not supported for ${connection.type} connections`);
+            }
+        } catch (error) {
+            if (isInvalidGrant(error)) {
+                logger.warn({ connectionId: connection.id, type: connection.type }, 'Refresh token rejected, marking connection for re-auth');
+                connection.needs_reauth = true;
+                if (supabaseAdmin) {
+                    const { error: updateError } = await supabaseAdmin.from('connections').update({
+                        needs_reauth: true,
+                        updated_at: new Date().toISOString(),
+                    }).eq('id', connection.id);
+                    if (updateError) logger.error(updateError, 'Failed to flag connection for re-auth');
+                }
+                throw new ReauthRequiredError(connection.type);
+            }
+            throw error;
+        }
+
+        connection.access_token_decrypted = accessToken;
+        connection.refresh_token_decrypted = newRefreshToken;
+        connection.token_expires_at = expiresAt.toISOString();
+
+        if (supabaseAdmin) {
+            const encrypted = encryptTokens({
+                access_token: accessToken,
+                refresh_token: newRefreshToken,
+            });
+            const { error: updateError } = await supabaseAdmin.from('connections').update({
+                access_token: encrypted.access_token,
+                refresh_token: encrypted.refresh_token,
+                token_expires_at: expiresAt.toISOString(),
+                updated_at: new Date().toISOString(),
+            }).eq('id', connection.id);
+            if (updateError) logger.error(updateError, 'Failed to persist refreshed tokens');
+        }
+
+        return accessToken;
+    }
+}
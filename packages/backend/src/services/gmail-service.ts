@@ -1,7 +1,7 @@
-import { searchGmail } from '../lib/gmail.js';
-import { normalizeGmailResults } from '../lib/normalizer.js';
-import { refreshAccessToken } from '../lib/calendar.js';
-import { encrypt } from '../lib/encryption.js';
+import { searchGmail, deepReadMessages, getGmailAttachment, countGmailMessages } from '../lib/gmail.js';
+import { readAttachments } from '../lib/attachments.js';
+import { normalizeAttachmentResult, normalizeCountResult, normalizeGmailResults } from '../lib/normalizer.js';
+import { ConnectionTokenManager } from './connection-token-manager.js';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { FastifyBaseLogger } from 'fastify';
 import type { SearchHit } from '../types/search.js';
@@ -10,66 +10,81 @@ interface GmailServiceParams {
     connection: any;
     query: string;
     maxResults: number;
+    // Fetch full bodies / threads for the top hits instead of snippets only
+    deepRead?: boolean | undefined;
+    // Download and extract text from the top hits' attachments
+    includeAttachments?: boolean | undefined;
     logger: FastifyBaseLogger;
     supabaseAdmin?: SupabaseClient;
 }
 
 export class GmailService {
-    static async search({ connection, query, maxResults, logger, supabaseAdmin }: GmailServiceParams): Promise<SearchHit[]> {
+    static async search({ connection, query, maxResults, deepRead, includeAttachments, logger, supabaseAdmin }: GmailServiceParams): Promise<SearchHit[]> {
         if (!connection) return [];
 
-        let accessToken = connection.access_token_decrypted; // Assumes caller decrypted it
-        const refreshToken = connection.refresh_token_decrypted; // Assumes caller decrypted it
-
-        if (!accessToken) return [];
-
-        // Helper for unauthorized check
-        const isUnauthorized = (error: any) =>
-            error?.code === 401 ||
-            error?.status === 401 ||
-            error?.response?.status === 401 ||
-            error?.response?.data?.error?.code === 401;
-
         try {
-            logger.info({ query }, 'Gmail query ready');
-            let gmailResults;
+            logger.info({ query, deepRead: !!deepRead, includeAttachments: !!includeAttachments }, 'Gmail query ready');
+            const results = await ConnectionTokenManager.withAccessToken(
+                connection,
+                { logger, supabaseAdmin },
+                async accessToken => {
+                    // Deep reads and attachment extraction need each message's MIME structure
+                    const { messages } = await searchGmail(accessToken, query, maxResults, !!(deepRead || includeAttachments));
+                    const [read, attachments] = await Promise.all([
+                        deepRead ? deepReadMessages(accessToken, messages, logger) : messages,
+                        includeAttachments
+                            ? readAttachments(messages, (messageId, attachmentId) => getGmailAttachment(accessToken, messageId, attachmentId))
+                            : [],
+                    ]);
+                    return { messages: read, attachments };
+                }
+            );
 
-            try {
-                gmailResults = await searchGmail(accessToken, query, maxResults);
-            } catch (error: any) {
-                if (isUnauthorized(error)) {
-                    logger.info('Gmail API returned 401, refreshing token and retrying');
-                    try {
-                        const newTokens = await refreshAccessToken(refreshToken);
-                        if (!newTokens.access_token) throw new Error('No access token returned');
+            if (results) {
+                logger.info({ count: results.messages.length, attachments: results.attachments.length }, 'Gmail search complete');
+                const hits = normalizeGmailResults(results.messages);
+                return [
+                    ...hits,
+                    ...results.attachments.flatMap(({ messageId, attachment, text }) => {
+                        const parent = hits.find(hit => hit.id === messageId);
+                        return parent ? [normalizeAttachmentResult(parent, attachment, text)] : [];
+                    }),
+                ];
+            }
+        } catch (error) {
+            logger.error(error, 'Gmail search failed');
+        }
 
-                        accessToken = newTokens.access_token;
+        return [];
+    }
 
-                        if (supabaseAdmin) {
-                            const encrypted = encrypt(newTokens.access_token);
-                            await supabaseAdmin.from('connections').update({
-                                access_token: encrypted,
-                                token_expires_at: new Date(newTokens.expiry_date || Date.now() + 3600000).toISOString(),
-                            }).eq('id', connection.id);
-                        }
+    /**
+     * Count every message matching the query (paging through IDs only) and
+     * return the count as a hit, followed by a sample of the messages for context.
+     */
+    static async count({ connection, query, maxResults, logger, supabaseAdmin }: GmailServiceParams): Promise<SearchHit[]> {
+        if (!connection) return [];
 
-                        // Retry
-                        gmailResults = await searchGmail(accessToken, query, maxResults);
-                    } catch (refreshError) {
-                        logger.error(refreshError, 'Failed to refresh token after 401');
-                        return [];
-                    }
-                } else {
-                    throw error;
+        try {
+            logger.info({ query }, 'Gmail count query ready');
+            const results = await ConnectionTokenManager.withAccessToken(
+                connection,
+                { logger, supabaseAdmin },
+                async accessToken => {
+                    const [count, sample] = await Promise.all([
+                        countGmailMessages(accessToken, query),
+                        searchGmail(accessToken, query, maxResults),
+                    ]);
+                    return { count, messages: sample.messages };
                 }
-            }
+            );
 
-            if (gmailResults) {
-                logger.info({ count: gmailResults.messages.length }, 'Gmail search complete');
-                return normalizeGmailResults(gmailResults.messages);
+            if (results) {
+                logger.info({ count: results.count.value, exact: results.count.exact }, 'Gmail count complete');
+                return [normalizeCountResult('gmail', connection.email ?? connection.id, results.count), ...normalizeGmailResults(results.messages)];
             }
         } catch (error) {
-            logger.error(error, 'Gmail search failed');
+            logger.error(error, 'Gmail count failed');
         }
 
         return [];
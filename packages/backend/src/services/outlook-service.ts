@@ -1,80 +1,87 @@
-import { searchOutlook } from '../lib/microsoft-graph.js';
-import { normalizeOutlookMailResults } from '../lib/normalizer.js';
-import { refreshAccessToken as refreshMicrosoftToken } from '../lib/microsoft.js';
-import { encryptTokens } from '../lib/encryption.js';
+import { searchOutlook, countOutlookMessages, getOutlookAttachment } from '../lib/microsoft-graph.js';
+import { readAttachments } from '../lib/attachments.js';
+import { normalizeAttachmentResult, normalizeCountResult, normalizeOutlookMailResults } from '../lib/normalizer.js';
+import { ConnectionTokenManager } from './connection-token-manager.js';
+import type { OutlookFolder } from '../lib/outlook-kql.js';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { FastifyBaseLogger } from 'fastify';
 import type { SearchHit } from '../types/search.js';
 
 interface OutlookServiceParams {
     connection: any;
+    // KQL, see buildOutlookKql
     query: string;
     maxResults: number;
+    // Search one well-known folder instead of the whole mailbox
+    folder?: OutlookFolder | null | undefined;
+    // Download and extract text from the top hits' attachments
+    includeAttachments?: boolean | undefined;
     logger: FastifyBaseLogger;
     supabaseAdmin?: SupabaseClient;
 }
 
 export class OutlookService {
-    static async search({ connection, query, maxResults, logger, supabaseAdmin }: OutlookServiceParams): Promise<SearchHit[]> {
+    static async search({ connection, query, maxResults, folder, includeAttachments, logger, supabaseAdmin }: OutlookServiceParams): Promise<SearchHit[]> {
         if (!connection) return [];
 
-        let accessToken = connection.access_token_decrypted; // Assumes caller decrypted it
-        const refreshToken = connection.refresh_token_decrypted; // Assumes caller decrypted it
-
-        if (!accessToken) return [];
-
-        // Helper for unauthorized check
-        const isUnauthorized = (error: any) =>
-            error?.code === 401 ||
-            error?.status === 401 ||
-            error?.response?.status === 401 ||
-            error?.response?.data?.error?.code === 401 ||
-            error?.message?.includes('401');
-
         try {
-            logger.info({ query }, 'Outlook query start');
-            let outlookResults;
-
-            try {
-                outlookResults = await searchOutlook(accessToken, query, maxResults);
-            } catch (error: any) {
-                if (isUnauthorized(error)) {
-                    logger.info('Outlook API returned 401, refreshing token');
-                    try {
-                        const newTokens = await refreshMicrosoftToken(refreshToken || '');
-                        if (!newTokens.access_token) throw new Error('No access token returned');
+            logger.info({ query, folder, includeAttachments: !!includeAttachments }, 'Outlook query start');
+            const results = await ConnectionTokenManager.withAccessToken(
+                connection,
+                { logger, supabaseAdmin },
+                async accessToken => {
+                    const messages = await searchOutlook(accessToken, query, maxResults, folder);
+                    const attachments = includeAttachments
+                        ? await readAttachments(messages, (messageId, attachmentId) => getOutlookAttachment(accessToken, messageId, attachmentId))
+                        : [];
+                    return { messages, attachments };
+                }
+            );
 
-                        accessToken = newTokens.access_token;
+            if (results) {
+                logger.info({ count: results.messages.length, attachments: results.attachments.length }, 'Outlook search complete');
+                const hits = normalizeOutlookMailResults(results.messages);
+                return [
+                    ...hits,
+                    ...results.attachments.flatMap(({ messageId, attachment, text }) => {
+                        const parent = hits.find(hit => hit.id === messageId);
+                        return parent ? [normalizeAttachmentResult(parent, attachment, text)] : [];
+                    }),
+                ];
+            }
+        } catch (error) {
+            logger.error(error, 'Outlook search failed');
+        }
 
-                        if (supabaseAdmin) {
-                            const encrypted = encryptTokens({
-                                access_token: newTokens.access_token,
-                                refresh_token: newTokens.refresh_token || refreshToken,
-                            });
+        return [];
+    }
+    /**
+     * Count every message matching the query (paging through ids only) and
+     * return the count as a hit, followed by a sample of the messages for context.
+     */
+    static async count({ connection, query, maxResults, folder, logger, supabaseAdmin }: OutlookServiceParams): Promise<SearchHit[]> {
+        if (!connection) return [];
 
-                            await supabaseAdmin.from('connections').update({
-                                access_token: encrypted.access_token,
-                                refresh_token: encrypted.refresh_token,
-                                token_expires_at: new Date(Date.now() + newTokens.expires_in * 1000).toISOString(),
-                            }).eq('id', connection.id);
-                        }
-                        // Retry
-                        outlookResults = await searchOutlook(accessToken, query, maxResults);
-                    } catch (refreshError) {
-                        logger.error(refreshError, 'Failed to refresh Microsoft token');
-                        return [];
-                    }
-                } else {
-                    throw error;
+        try {
+            logger.info({ query, folder }, 'Outlook count query start');
+            const results = await ConnectionTokenManager.withAccessToken(
+                connection,
+                { logger, supabaseAdmin },
+                async accessToken => {
+                    const [count, messages] = await Promise.all([
+                        countOutlookMessages(accessToken, query, folder),
+                        searchOutlook(accessToken, query, maxResults, folder),
+                    ]);
+                    return { count, messages };
                 }
-            }
+            );
 
-            if (outlookResults) {
-                logger.info({ count: outlookResults.length }, 'Outlook search complete');
-                return normalizeOutlookMailResults(outlookResults);
+            if (results) {
+                logger.info({ count: results.count.value, exact: results.count.exact }, 'Outlook count complete');
+                return [normalizeCountResult('outlook', connection.email ?? connection.id, results.count), ...normalizeOutlookMailResults(results.messages)];
             }
         } catch (error) {
-            logger.error(error, 'Outlook search failed');
+            logger.error(error, 'Outlook count failed');
         }
 
         return [];
@@ -2,21 +2,23 @@ import { searchWhatsApp } from '../lib/whatsapp.js';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { FastifyBaseLogger } from 'fastify';
 import type { SearchHit } from '../types/search.js';
-import type { WhatsAppQueryPlan } from '../lib/openai.js';
+import type { WhatsAppQueryPlan } from '../providers/whatsapp.js';
 
 interface WhatsAppServiceParams {
     supabase: SupabaseClient;
     userId: string;
     plan: WhatsAppQueryPlan;
+    query?: string | undefined; // original question, used for semantic matching
+    timeZone?: string | undefined; // message times are written in the user's time zone
     logger: FastifyBaseLogger;
 }
 
 export class WhatsAppService {
-    static async search({ supabase, userId, plan, logger }: WhatsAppServiceParams): Promise<SearchHit[]> {
+    static async search({ supabase, userId, plan, query, timeZone, logger }: WhatsAppServiceParams): Promise<SearchHit[]> {
         try {
             logger.info({ plan }, 'WhatsApp query ready');
 
-            const waResults = await searchWhatsApp(supabase, userId, plan);
+            const waResults = await searchWhatsApp(supabase, userId, plan, query, timeZone);
             logger.info({ count: waResults.length }, 'WhatsApp search complete');
             return waResults;
         } catch (error) {
@@ -24,6 +24,9 @@ export type Database = {
           refresh_token: string
           token_expires_at: string
           scopes: string[]
+          needs_reauth: boolean
+          label: string | null
+          enabled: boolean
           created_at: string
           updated_at: string
         }
@@ -36,6 +39,9 @@ export type Database = {
           refresh_token: string
           token_expires_at: string
           scopes?: string[]
+          needs_reauth?: boolean
+          label?: string | null
+          enabled?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -48,6 +54,9 @@ export type Database = {
           refresh_token?: string
           token_expires_at?: string
           scopes?: string[]
+          needs_reauth?: boolean
+          label?: string | null
+          enabled?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -57,20 +66,32 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          time_zone: string | null
           updated_at: string
           user_id: string
+          working_days: number[]
+          working_hours_end: string
+          working_hours_start: string
         }
         Insert: {
           created_at?: string
           id?: string
+          time_zone?: string | null
           updated_at?: string
           user_id: string
+          working_days?: number[]
+          working_hours_end?: string
+          working_hours_start?: string
         }
         Update: {
           created_at?: string
           id?: string
+          time_zone?: string | null
           updated_at?: string
           user_id?: string
+          working_days?: number[]
+          working_hours_end?: string
+          working_hours_start?: string
         }
         Relationships: []
       }
@@ -102,6 +123,7 @@ export type Database = {
           enable_linkedin: boolean | null
           enable_whatsapp: boolean | null
           enable_async_mode: boolean | null
+          history_window_days: number | null
           created_at: string
           updated_at: string
         }
@@ -111,6 +133,7 @@ export type Database = {
           enable_linkedin?: boolean | null
           enable_whatsapp?: boolean | null
           enable_async_mode?: boolean | null
+          history_window_days?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -120,6 +143,7 @@ export type Database = {
           enable_linkedin?: boolean | null
           enable_whatsapp?: boolean | null
           enable_async_mode?: boolean | null
+          history_window_days?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -166,6 +190,7 @@ export type Database = {
           last_seen_at: string
           last_sync_at: string | null
           sync_count: number
+          sync_marks: Json
           created_at: string
           updated_at: string
         }
@@ -176,6 +201,7 @@ export type Database = {
           last_seen_at?: string
           last_sync_at?: string | null
           sync_count?: number
+          sync_marks?: Json
           created_at?: string
           updated_at?: string
         }
@@ -186,6 +212,7 @@ export type Database = {
           last_seen_at?: string
           last_sync_at?: string | null
           sync_count?: number
+          sync_marks?: Json
           created_at?: string
           updated_at?: string
         }
@@ -231,11 +258,22 @@ export type Database = {
           user_id: string
           external_id: string
           sender: string
+          sender_external_id: string | null
+          sender_contact_id: string | null
           content: string | null
           received_at: string
           timestamp: string
           is_from_me: boolean
+          message_type: string
+          caption: string | null
+          media_filename: string | null
+          media_mimetype: string | null
+          media_size: number | null
+          media_duration_seconds: number | null
+          quoted_external_id: string | null
           metadata: Json | null
+          embedding: string | null
+          embedding_model: string | null
           created_at: string
         }
         Insert: {
@@ -244,11 +282,22 @@ export type Database = {
           user_id: string
           external_id: string
           sender: string
+          sender_external_id?: string | null
+          sender_contact_id?: string | null
           content?: string | null
           received_at?: string
           timestamp: string
           is_from_me?: boolean
+          message_type?: string
+          caption?: string | null
+          media_filename?: string | null
+          media_mimetype?: string | null
+          media_size?: number | null
+          media_duration_seconds?: number | null
+          quoted_external_id?: string | null
           metadata?: Json | null
+          embedding?: string | null
+          embedding_model?: string | null
           created_at?: string
         }
         Update: {
@@ -257,11 +306,22 @@ export type Database = {
           user_id?: string
           external_id?: string
           sender?: string
+          sender_external_id?: string | null
+          sender_contact_id?: string | null
           content?: string | null
           received_at?: string
           timestamp?: string
           is_from_me?: boolean
+          message_type?: string
+          caption?: string | null
+          media_filename?: string | null
+          media_mimetype?: string | null
+          media_size?: number | null
+          media_duration_seconds?: number | null
+          quoted_external_id?: string | null
           metadata?: Json | null
+          embedding?: string | null
+          embedding_model?: string | null
           created_at?: string
         }
         Relationships: [
@@ -270,15 +330,226 @@ export type Database = {
             columns: ["conversation_id"]
             referencedRelation: "synced_conversations"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "synced_messages_sender_contact_id_fkey"
+            columns: ["sender_contact_id"]
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
           }
         ]
       }
+      contacts: {
+        Row: {
+          id: string
+          user_id: string
+          source: string
+          external_id: string
+          display_name: string | null
+          names: string[]
+          phone: string | null
+          email: string | null
+          is_group: boolean
+          is_business: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          source: string
+          external_id: string
+          display_name?: string | null
+          names?: string[]
+          phone?: string | null
+          email?: string | null
+          is_group?: boolean
+          is_business?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          source?: string
+          external_id?: string
+          display_name?: string | null
+          names?: string[]
+          phone?: string | null
+          email?: string | null
+          is_group?: boolean
+          is_business?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pending_searches: {
+        Row: {
+          request_id: string
+          user_id: string
+          query: string
+          requires_extension: boolean
+          sources_needed: string[]
+          instructions: Json
+          results: Json
+          status: string
+          answer: Json | null
+          conversation_id: string | null
+          metadata: Json | null
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          request_id: string
+          user_id: string
+          query?: string
+          requires_extension?: boolean
+          sources_needed?: string[]
+          instructions?: Json
+          results?: Json
+          status?: string
+          answer?: Json | null
+          conversation_id?: string | null
+          metadata?: Json | null
+          created_at?: string
+          expires_at: string
+        }
+        Update: {
+          request_id?: string
+          user_id?: string
+          query?: string
+          requires_extension?: boolean
+          sources_needed?: string[]
+          instructions?: Json
+          results?: Json
+          status?: string
+          answer?: Json | null
+          conversation_id?: string | null
+          metadata?: Json | null
+          created_at?: string
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      whatsapp_backfills: {
+        Row: {
+          user_id: string
+          status: string
+          since: string
+          requested_chats: string[]
+          chats: Json
+          messages_uploaded: number
+          error: string | null
+          started_at: string
+          updated_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          user_id: string
+          status?: string
+          since: string
+          requested_chats?: string[]
+          chats?: Json
+          messages_uploaded?: number
+          error?: string | null
+          started_at?: string
+          updated_at?: string
+          finished_at?: string | null
+        }
+        Update: {
+          user_id?: string
+          status?: string
+          since?: string
+          requested_chats?: string[]
+          chats?: Json
+          messages_uploaded?: number
+          error?: string | null
+          started_at?: string
+          updated_at?: string
+          finished_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_pending_search_results: {
+        Args: {
+          p_request_id: string
+          p_source: string
+          p_hits: Json
+          p_expires_at?: string | null
+        }
+        Returns: Database["public"]["Tables"]["pending_searches"]["Row"][]
+      }
+      match_whatsapp_messages: {
+        Args: {
+          p_user_id: string
+          p_query_embedding: string
+          p_embedding_model: string
+          p_limit?: number
+          p_sender?: string | null
+          p_since?: string | null
+          p_chat?: string | null
+          p_from_me?: boolean | null
+          p_min_similarity?: number
+        }
+        Returns: {
+          id: string
+          conversation_id: string
+          sender: string
+          content: string | null
+          timestamp: string | null
+          conversation_title: string | null
+          conversation_external_id: string | null
+          is_from_me: boolean
+          message_type: string
+          caption: string | null
+          media_filename: string | null
+          media_mimetype: string | null
+          media_size: number | null
+          media_duration_seconds: number | null
+          similarity: number
+        }[]
+      }
+      resolve_message_senders: {
+        Args: {
+          p_user_id: string
+          p_source?: string
+        }
+        Returns: number
+      }
+      search_whatsapp_messages: {
+        Args: {
+          p_user_id: string
+          p_keywords?: string[]
+          p_sender?: string | null
+          p_limit?: number
+          p_since?: string | null
+          p_chat?: string | null
+          p_from_me?: boolean | null
+        }
+        Returns: {
+          id: string
+          conversation_id: string
+          sender: string
+          content: string | null
+          timestamp: string | null
+          conversation_title: string | null
+          conversation_external_id: string | null
+          is_from_me: boolean
+          message_type: string
+          caption: string | null
+          media_filename: string | null
+          media_mimetype: string | null
+          media_size: number | null
+          media_duration_seconds: number | null
+          rank: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
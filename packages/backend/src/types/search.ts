@@ -1,21 +1,73 @@
-import type { Answer } from '../lib/synthesizer.js';
-import type { GmailQueryPlan, QueryAnalysis } from '../lib/openai.js';
+import type { Answer, AnswerWithLinks } from '../lib/synthesizer.js';
+import type { UnifiedQueryPlan } from '../lib/openai.js';
+import type { RerankScores } from '../lib/reranker.js';
+
+// File attached to an email
+export interface AttachmentInfo {
+  id: string; // provider attachment id, used to download it
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+}
+
+// Number of items matching a query, for "how many" questions
+export interface ResultCount {
+  value: number;
+  // false when counting stopped at the ceiling; `value` is then a lower bound or the provider's estimate
+  exact: boolean;
+  query: string;
+}
+
+// Local working day used for free/busy answers
+export interface WorkingHours {
+  start: string; // HH:MM
+  end: string;   // HH:MM
+  days: number[]; // ISO weekdays, 1 = Monday ... 7 = Sunday
+}
+
+// A free stretch of time between calendar events
+export interface FreeSlot {
+  start: string; // ISO instant
+  end: string;
+  durationMinutes: number;
+  date: string;  // Local date (YYYY-MM-DD) in the user's time zone
+}
+
+// Free time found for a scheduling question across all linked calendars
+export interface Availability {
+  timeZone: string;
+  // Local dates searched (inclusive)
+  startDate: string;
+  endDate: string;
+  slots: FreeSlot[];
+  // Accounts whose events couldn't all be read; their busy time is missing, so slots may not be free
+  incompleteAccounts?: string[] | undefined;
+}
 
 // Unified search result format
 export interface SearchHit {
   id: string;
-  source: 'gmail' | 'calendar' | 'linkedin' | 'whatsapp' | 'outlook';
+  source: string; // id of the SearchProvider that produced the hit
   content: string;
   metadata: {
     date?: string | undefined;
+    dateEnd?: string | undefined;   // End of the covered period when the hit spans a range (e.g. a chat excerpt)
     sender?: string | undefined;
     subject?: string | undefined;
     attendees?: string[] | undefined;
+    location?: string | undefined;  // Calendar event location
+    calendar?: string | undefined;  // Name of the calendar an event belongs to
     messageId?: string | undefined; // Gmail message ID for linking
     threadId?: string | undefined;  // Gmail thread ID
     eventId?: string | undefined;   // Calendar event ID
     webLink?: string | undefined;   // Direct link to source (e.g. Outlook web link)
     recipients?: string | undefined; // To: recipients
+    account?: string | undefined;   // Email of the linked account the hit came from
+    attachments?: AttachmentInfo[] | undefined; // Files attached to the message
+    attachment?: AttachmentInfo | undefined;    // Set when the hit is the extracted text of this attachment
+    count?: ResultCount | undefined;            // Set when the hit reports how many items match a query
+    free?: boolean | undefined;                 // Calendar event that doesn't block time (transparent, declined, shown as free)
+    availability?: Availability | undefined;    // Set when the hit reports free slots for a scheduling question
   };
   relevance: number;
 }
@@ -41,7 +93,7 @@ export interface PendingSearch {
   user_id: string;
   query: string;
   requires_extension: boolean;
-  sources_needed: ('gmail' | 'calendar' | 'linkedin' | 'whatsapp')[];
+  sources_needed: string[];
   instructions: DOMInstruction[];
   results: Partial<Record<string, SearchHit[]>>;
   status: 'pending' | 'partial' | 'complete' | 'failed';
@@ -49,8 +101,31 @@ export interface PendingSearch {
   answer?: Answer;
   conversation_id?: string;
   metadata?: {
-    queryAnalysis?: QueryAnalysis;
-    gmailPlan?: GmailQueryPlan;
+    queryAnalysis?: UnifiedQueryPlan['analysis'];
+    plans?: UnifiedQueryPlan['plans'];
   };
 }
 
+
+// Events streamed by POST /ask/stream (one SSE `event:` per type)
+export type AskStreamEvent =
+  | {
+    type: 'plan';
+    request_id: string;
+    conversationId?: string | undefined;
+    sources: string[];
+    analysis: UnifiedQueryPlan['analysis'];
+  }
+  | { type: 'search_started'; source: string }
+  | { type: 'search_finished'; source: string; hits: number; error?: string | undefined }
+  | { type: 'answer_delta'; text: string }
+  | {
+    type: 'done';
+    status: 'complete';
+    request_id: string;
+    answer: AnswerWithLinks;
+    sources_searched: string[];
+    conversationId?: string | undefined;
+    ranking?: RerankScores[] | undefined; // only when the request set `debug`
+  }
+  | { type: 'error'; request_id: string; error: string };
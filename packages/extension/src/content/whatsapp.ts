@@ -15,6 +15,13 @@ const SELECTORS = {
   searchInput: 'div[aria-label="Search input textbox"]',
   sidePanel: '#pane-side',
   searchResultItem: 'div[role="gridcell"][aria-colindex="2"]',
+  // Media messages
+  documentTitle: '[data-testid="document-title"]',
+  documentIcon: '[data-icon^="document"], [data-testid="document-thumb"]',
+  voiceNote: '[data-icon="audio-play"], [data-testid="audio-play"]',
+  mediaDuration: '[data-testid="audio-duration"]',
+  image: 'img[src^="blob:"]',
+  location: 'a[href*="maps.google.com"]',
 };
 
 // Handle search requests from background script
@@ -345,15 +352,17 @@ function scrapeCurrentChat(keywords: string[]): string[] {
   
   // Extract text from messages
   const allMessages = messageRows.map(row => {
-    // Try to find copyable text container
+    const media = describeMedia(row);
+    // Try to find copyable text container (a media message's caption lives here too)
     const copyableText = row.querySelector(SELECTORS.messageText);
     if (copyableText) {
       // Get the data-pre-plain-text attribute which contains timestamp and sender
       const meta = copyableText.getAttribute('data-pre-plain-text') || '';
       const content = copyableText.textContent || '';
-      return `${meta}${content}`.trim();
+      return `${meta}${media ? `${media} ` : ''}${content}`.trim();
     }
-    return '';
+    // Media without a caption has no copyable text; keep a placeholder so it can still be found
+    return media;
   }).filter(text => text.length > 0);
 
   if (keywords.length > 0) {
@@ -396,5 +405,23 @@ function scrapeCurrentChat(keywords: string[]): string[] {
   return messageSnippets;
 }
 
+/**
+ * Placeholder for a message row's media, matching what the backend shows for synced messages:
+ * `[Document: proposal.pdf]`, `[Voice note: 0:42]`, `[Photo]`, `[Location]`. Empty for text.
+ */
+function describeMedia(row: Element): string {
+  if (row.querySelector(SELECTORS.documentIcon) || row.querySelector(SELECTORS.documentTitle)) {
+    const filename = row.querySelector(SELECTORS.documentTitle)?.textContent?.trim();
+    return filename ? `[Document: ${filename}]` : '[Document]';
+  }
+  if (row.querySelector(SELECTORS.voiceNote)) {
+    const duration = row.querySelector(SELECTORS.mediaDuration)?.textContent?.trim();
+    return duration ? `[Voice note: ${duration}]` : '[Voice note]';
+  }
+  if (row.querySelector(SELECTORS.location)) return '[Location]';
+  if (row.querySelector(SELECTORS.image)) return '[Photo]';
+  return '';
+}
+
 // Log that content script is active (for debugging)
 console.log('[Dotor] WhatsApp content script loaded');
@@ -30,6 +30,8 @@ async function fetchWithAuth<T>(
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${token}`,
+        // Browser time zone, used by the backend when the profile has none
+        'X-Time-Zone': Intl.DateTimeFormat().resolvedOptions().timeZone,
         ...options.headers,
       },
     });
@@ -220,3 +222,68 @@ export async function executeDOMInstructions(
 
   return results;
 }
+
+// Events emitted by the backend's POST /ask/stream
+export type AskStreamEvent =
+  | { type: 'plan'; request_id: string; conversationId?: string; sources: string[] }
+  | { type: 'search_started'; source: string }
+  | { type: 'search_finished'; source: string; hits: number; error?: string }
+  | { type: 'answer_delta'; text: string }
+  | { type: 'done'; status: 'complete'; request_id: string; answer: any; sources_searched: string[]; conversationId?: string }
+  | { type: 'error'; request_id: string; error: string };
+
+// Ask a question and receive progress as Server-Sent Events
+export async function streamAsk(
+  token: string,
+  query: string,
+  onEvent: (event: AskStreamEvent) => void
+): Promise<void> {
+  const response = await fetch(`${API_BASE}/ask/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'Authorization': `Bearer ${token}`,
+      'X-Time-Zone': Intl.DateTimeFormat().resolvedOptions().timeZone,
+    },
+    body: JSON.stringify({ query }),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Request failed: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const data = buffer
+        .slice(0, boundary)
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      buffer = buffer.slice(boundary + 2);
+
+      if (data) {
+        let event: AskStreamEvent | null = null;
+        try {
+          event = JSON.parse(data) as AskStreamEvent;
+        } catch (error) {
+          console.warn('[Dotor API] Failed to parse stream event:', error);
+        }
+        if (event) onEvent(event);
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
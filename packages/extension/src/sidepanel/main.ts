@@ -3,7 +3,7 @@ import {
   signUp, 
   signOut
 } from '../lib/auth.js';
-import { getGoogleStatus } from '../lib/api.js';
+import { getGoogleStatus, streamAsk, type AskStreamEvent } from '../lib/api.js';
 import { getUser, type User } from '../lib/session.js';
 
 // UI Elements
@@ -219,6 +219,29 @@ async function pollAskResults(requestId: string, token: string) {
   poll();
 }
 
+// Render live progress while an answer streams in
+function renderProgress(sources: Map<string, string>, partialAnswer: string) {
+  const card = document.createElement('div');
+  card.className = 'answer-card';
+
+  if (sources.size > 0) {
+    const progress = document.createElement('div');
+    progress.className = 'source-progress';
+    progress.textContent = Array.from(sources.entries())
+      .map(([source, status]) => `${source}: ${status}`)
+      .join(' · ');
+    card.appendChild(progress);
+  }
+
+  const text = document.createElement('div');
+  text.className = 'answer-text streaming';
+  text.textContent = partialAnswer || (sources.size > 0 ? 'Searching...' : 'Thinking...');
+  card.appendChild(text);
+
+  resultsDiv.innerHTML = '';
+  resultsDiv.appendChild(card);
+}
+
 // Handle ask form
 askForm.addEventListener('submit', async (e) => {
   e.preventDefault();
@@ -233,18 +256,35 @@ askForm.addEventListener('submit', async (e) => {
   try {
     const tokenResponse = await chrome.runtime.sendMessage({ type: 'GET_TOKEN' });
     const token = tokenResponse.token;
-    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
-    
-    const response = await fetch(`${API_URL}/ask`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
-      body: JSON.stringify({ query }),
+    const sources = new Map<string, string>();
+    let partialAnswer = '';
+    let data: any = null;
+
+    await streamAsk(token, query, (event: AskStreamEvent) => {
+      switch (event.type) {
+        case 'plan':
+          event.sources.forEach(source => sources.set(source, 'searching'));
+          break;
+        case 'search_finished':
+          sources.set(event.source, event.error ? 'failed' : `${event.hits} found`);
+          break;
+        case 'answer_delta':
+          partialAnswer += event.text;
+          break;
+        case 'done':
+          data = event;
+          return;
+        case 'error':
+          throw new Error(event.error);
+        default:
+          return;
+      }
+      renderProgress(sources, partialAnswer);
     });
-    
-    const data = await response.json();
+
+    if (!data) {
+      throw new Error('No answer received');
+    }
     
     // If extension is required, execute instructions
     if (data.requires_extension && data.request_id && data.instructions) {
@@ -5,6 +5,13 @@
 const BACKEND_URL = process.env.BACKEND_API_URL ?? 'http://localhost:3001';
 const API_SECRET_KEY = process.env.API_SECRET_KEY ?? '';
 
+export class BackendRequestError extends Error {
+  constructor(public readonly status: number, public readonly body: unknown, text: string) {
+    super(`Backend request failed: ${status} ${text}`);
+    this.name = 'BackendRequestError';
+  }
+}
+
 export async function forwardToBackend(path: string, data: unknown): Promise<unknown> {
   const url = `${BACKEND_URL}${path}`;
   
@@ -19,7 +26,13 @@ export async function forwardToBackend(path: string, data: unknown): Promise<unk
 
   if (!response.ok) {
     const text = await response.text();
-    throw new Error(`Backend request failed: ${response.status} ${text}`);
+    let body: unknown = null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not a JSON error body
+    }
+    throw new BackendRequestError(response.status, body, text);
   }
 
   return response.json();
@@ -0,0 +1,149 @@
+import { forwardToBackend } from './backend-client.js';
+import type { WhatsAppClient } from './whatsapp-client.js';
+
+export type BackfillStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+/**
+ * Where one chat's backfill stands. Chats are walked newest to oldest, so everything
+ * from `oldestUploadedAt` up to the job's start is already with the backend.
+ * `truncated` chats had more history than the browser can load; it stops at `oldestUploadedAt`.
+ */
+export interface BackfillChatCheckpoint {
+  chatId: string;
+  chatName: string;
+  status: 'pending' | 'done' | 'truncated' | 'failed';
+  messagesUploaded: number;
+  oldestUploadedAt: string | null;
+}
+
+export interface BackfillProgress {
+  status: BackfillStatus;
+  since: string;
+  chats: BackfillChatCheckpoint[];
+  messagesUploaded: number;
+  error: string | null;
+}
+
+const BATCH_SIZE = 200;
+
+/**
+ * BackfillJob uploads one session's chat history back to a chosen date
+ * - Walks the selected chats one at a time, newest messages first
+ * - Uploads in batches to /wa/messages/batch and reports a checkpoint after each
+ *   to /wa/backfill/progress, where the backend keeps it
+ * - Started again with those checkpoints, it skips what was already uploaded
+ */
+export class BackfillJob {
+  private status: BackfillStatus = 'running';
+  private error: string | null = null;
+
+  constructor(
+    private readonly client: WhatsAppClient,
+    private readonly since: Date,
+    private readonly chats: BackfillChatCheckpoint[]
+  ) {}
+
+  /**
+   * Checkpoints for `onlyChats` (default: the 10 most recent), reusing `resumeFrom` where it has them
+   */
+  static async create(
+    client: WhatsAppClient,
+    since: Date,
+    onlyChats: string[],
+    resumeFrom: BackfillChatCheckpoint[] = []
+  ): Promise<BackfillJob> {
+    const chats = resumeFrom.length > 0
+      // A truncated chat would stop at the same message again
+      ? resumeFrom.map(chat => ({ ...chat, status: chat.status === 'done' || chat.status === 'truncated' ? chat.status : 'pending' as const }))
+      : (await client.resolveChats(onlyChats)).map(chat => ({
+          chatId: chat.id,
+          chatName: chat.name,
+          status: 'pending' as const,
+          messagesUploaded: 0,
+          oldestUploadedAt: null,
+        }));
+    return new BackfillJob(client, since, chats);
+  }
+
+  get isRunning(): boolean {
+    return this.status === 'running';
+  }
+
+  getProgress(): BackfillProgress {
+    return {
+      status: this.status,
+      since: this.since.toISOString(),
+      chats: this.chats.map(chat => ({ ...chat })),
+      messagesUploaded: this.chats.reduce((sum, chat) => sum + chat.messagesUploaded, 0),
+      error: this.error,
+    };
+  }
+
+  /**
+   * Stop after the batch in flight. `interrupted` jobs are expected to be resumed.
+   */
+  cancel(status: 'cancelled' | 'interrupted' = 'cancelled'): void {
+    if (this.status === 'running') this.status = status;
+  }
+
+  async run(): Promise<void> {
+    const userId = this.client.userId;
+    console.log(`[BackfillJob] User ${userId}: backfilling ${this.chats.length} chats since ${this.since.toISOString()}`);
+    await this.report();
+
+    for (const chat of this.chats) {
+      if (!this.isRunning) break;
+      if (chat.status === 'done' || chat.status === 'truncated') continue;
+
+      try {
+        const until = chat.oldestUploadedAt ? new Date(chat.oldestUploadedAt) : undefined;
+        const { messages, truncated } = await this.client.fetchHistory(chat.chatId, this.since, until);
+
+        for (let i = 0; i < messages.length && this.isRunning; i += BATCH_SIZE) {
+          const batch = messages.slice(i, i + BATCH_SIZE);
+          await forwardToBackend('/wa/messages/batch', {
+            userId,
+            messages: batch,
+            receivedAt: new Date().toISOString(),
+          });
+          chat.messagesUploaded += batch.length;
+          chat.oldestUploadedAt = batch[batch.length - 1]!.timestamp;
+          await this.report();
+        }
+
+        if (this.isRunning) chat.status = truncated ? 'truncated' : 'done';
+        if (truncated) {
+          console.warn(`[BackfillJob] User ${userId}: history of chat ${chat.chatName} is too long to load back to ${this.since.toISOString()}`);
+        }
+      } catch (err) {
+        // A cancelled job's browser may already be closing; that's not the chat's fault
+        if (!this.isRunning) break;
+        console.error(`[BackfillJob] User ${userId}: failed to backfill chat ${chat.chatName}:`, err);
+        chat.status = 'failed';
+      }
+      await this.report();
+    }
+
+    if (this.isRunning) {
+      const failed = this.chats.filter(chat => chat.status === 'failed').length;
+      const truncated = this.chats.filter(chat => chat.status === 'truncated').length;
+      this.status = failed === this.chats.length && failed > 0 ? 'failed' : 'completed';
+      const problems = [
+        failed > 0 ? `${failed} of ${this.chats.length} chats failed` : null,
+        truncated > 0 ? `${truncated} of ${this.chats.length} chats have more history than can be loaded and stop short of the start date` : null,
+      ].filter(Boolean);
+      if (problems.length > 0) this.error = problems.join('; ');
+    }
+
+    console.log(`[BackfillJob] User ${userId}: ${this.status}, ${this.getProgress().messagesUploaded} messages uploaded`);
+    await this.report();
+  }
+
+  private async report(): Promise<void> {
+    try {
+      await forwardToBackend('/wa/backfill/progress', { userId: this.client.userId, ...this.getProgress() });
+    } catch (err) {
+      console.error(`[BackfillJob] User ${this.client.userId}: failed to report progress:`, err);
+    }
+  }
+}
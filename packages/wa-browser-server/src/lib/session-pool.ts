@@ -0,0 +1,271 @@
+import path from 'path';
+import { WhatsAppClient } from './whatsapp-client.js';
+import { SyncScheduler } from './sync-scheduler.js';
+import type { BackfillJob } from './backfill-job.js';
+import { forwardToBackend, notifyBackend } from './backend-client.js';
+
+export interface SessionSummary {
+  userId: string;
+  isRunning: boolean;
+  isLinked: boolean;
+  pushname: string | null;
+  debugPort: number;
+  profileDir: string;
+  startedAt: string;
+  lastActivityAt: string;
+  idleTimeMs: number;
+}
+
+/**
+ * One user's browser: an isolated Chrome profile and debug port, the WhatsApp
+ * client driving it, the scheduler syncing its messages and any history backfill
+ */
+export interface BrowserSession {
+  userId: string;
+  debugPort: number;
+  client: WhatsAppClient;
+  scheduler: SyncScheduler;
+  backfill: BackfillJob | null;
+  startedAt: Date;
+  lastActivityAt: Date;
+}
+
+const MAX_SESSIONS = Math.max(1, parseInt(process.env.MAX_BROWSER_SESSIONS ?? '2', 10));
+const BASE_DEBUG_PORT = parseInt(process.env.CHROME_DEBUG_PORT ?? '9222', 10);
+const IDLE_TIMEOUT_MS = parseInt(process.env.IDLE_TIMEOUT_MS ?? '600000', 10); // 10 min default
+const DATA_DIR = process.env.CHROME_USER_DATA_DIR || './.wwebjs_auth';
+
+/**
+ * SessionPool runs one Chrome session per user
+ * - At most MAX_BROWSER_SESSIONS browsers at once; starting another closes the least recently used
+ * - Each session gets its own profile directory and remote debugging port
+ * - Sessions still waiting for a QR scan are closed after IDLE_TIMEOUT_MS without activity
+ */
+export class SessionPool {
+  // Map iteration order is least recently used first
+  private sessions = new Map<string, BrowserSession>();
+  // Sessions being started, keyed by user, so concurrent acquires for one user share a browser
+  private starting = new Map<string, Promise<BrowserSession>>();
+  // Tail of the queue that evicts and reserves slots one acquire at a time
+  private slotQueue: Promise<unknown> = Promise.resolve();
+  private idleCheckInterval: NodeJS.Timeout | null = null;
+
+  get maxSessions(): number {
+    return MAX_SESSIONS;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * The user's session, marked as most recently used
+   */
+  get(userId: string): BrowserSession | undefined {
+    const session = this.sessions.get(userId);
+    if (session) this.touch(session);
+    return session;
+  }
+
+  /**
+   * The user's session without marking it as used, for status polls that shouldn't keep it alive
+   */
+  peek(userId: string): BrowserSession | undefined {
+    return this.sessions.get(userId);
+  }
+
+  /**
+   * Return the user's session, starting a browser for them if needed.
+   * When the pool is full the least recently used session is closed first.
+   */
+  async acquire(userId: string): Promise<BrowserSession> {
+    const existing = this.get(userId);
+    if (existing) return existing;
+
+    const inFlight = this.starting.get(userId);
+    if (inFlight) return inFlight;
+
+    const starting = this.withSlotLock(() => this.start(userId))
+      .finally(() => this.starting.delete(userId));
+    this.starting.set(userId, starting);
+    return starting;
+  }
+
+  private async start(userId: string): Promise<BrowserSession> {
+    while (this.sessions.size >= MAX_SESSIONS) {
+      const [lruUserId] = this.sessions.keys();
+      if (!lruUserId) break;
+      console.log(`[SessionPool] Pool full (${MAX_SESSIONS}), evicting least recently used session of user ${lruUserId}`);
+      await this.release(lruUserId);
+      await notifyBackend('browser:evicted', { userId: lruUserId, reason: 'lru' });
+    }
+
+    const debugPort = this.allocateDebugPort();
+    const client = new WhatsAppClient(userId, { dataDir: DATA_DIR, debugPort });
+    const session: BrowserSession = {
+      userId,
+      debugPort,
+      client,
+      scheduler: new SyncScheduler(client),
+      backfill: null,
+      startedAt: new Date(),
+      lastActivityAt: new Date(),
+    };
+    this.sessions.set(userId, session);
+    this.watch(session);
+    this.startIdleMonitor();
+
+    console.log(`[SessionPool] Starting session for user ${userId} on debug port ${debugPort} (${this.sessions.size}/${MAX_SESSIONS})`);
+    // Initialization runs in the background; progress is reported through client events
+    void client.initialize();
+    return session;
+  }
+
+  // Run `task` after every earlier one, so two acquires can't both see a free slot (or evict the same session)
+  private withSlotLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.slotQueue.then(task);
+    this.slotQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Close the user's browser and free its slot
+   */
+  async release(userId: string): Promise<boolean> {
+    const session = this.sessions.get(userId);
+    if (!session) return false;
+
+    this.sessions.delete(userId);
+    session.client.removeAllListeners();
+    session.backfill?.cancel('interrupted');
+    await session.scheduler.stop();
+    await session.client.destroy();
+    if (this.sessions.size === 0) this.stopIdleMonitor();
+
+    console.log(`[SessionPool] Closed session for user ${userId}`);
+    return true;
+  }
+
+  async releaseAll(): Promise<void> {
+    await Promise.all([...this.sessions.keys()].map(userId => this.release(userId)));
+  }
+
+  /**
+   * Record user activity (extends the idle timeout and LRU recency)
+   */
+  recordActivity(userId: string): boolean {
+    return this.get(userId) !== undefined;
+  }
+
+  list(): SessionSummary[] {
+    return [...this.sessions.values()].map(summarize);
+  }
+
+  private touch(session: BrowserSession): void {
+    session.lastActivityAt = new Date();
+    // Re-insert to move the session to the most recently used end
+    this.sessions.delete(session.userId);
+    this.sessions.set(session.userId, session);
+  }
+
+  // Lowest port at or above CHROME_DEBUG_PORT not used by another session
+  private allocateDebugPort(): number {
+    const used = new Set([...this.sessions.values()].map(s => s.debugPort));
+    let port = BASE_DEBUG_PORT;
+    while (used.has(port)) port++;
+    return port;
+  }
+
+  private watch(session: BrowserSession): void {
+    const { client, scheduler, userId } = session;
+
+    client.on('ready', async () => {
+      console.log(`[SessionPool] WhatsApp ready for user ${userId}`);
+      try {
+        const linked = await forwardToBackend('/wa/linked', {
+          userId,
+          linked: true,
+          timestamp: new Date().toISOString(),
+        }) as { syncMarks?: Record<string, number> };
+        scheduler.restoreHighWaterMarks(linked.syncMarks ?? {});
+        await syncContacts(session);
+      } catch (error) {
+        console.error(`[SessionPool] Error notifying backend for user ${userId}:`, error);
+      }
+      scheduler.start();
+    });
+
+    client.on('message', message => scheduler.ingest(message));
+
+    // Initialization failures and disconnects reset the client; drop the session so the slot frees up
+    client.on('status', state => {
+      if (!state.isInitialized && this.sessions.get(userId) === session) {
+        console.log(`[SessionPool] Session for user ${userId} ended`);
+        void this.release(userId);
+      }
+    });
+  }
+
+  private startIdleMonitor(): void {
+    if (this.idleCheckInterval) return;
+
+    this.idleCheckInterval = setInterval(() => {
+      const now = Date.now();
+      for (const session of [...this.sessions.values()]) {
+        const idleTime = now - session.lastActivityAt.getTime();
+        if (!session.client.getState().isLinked && idleTime > IDLE_TIMEOUT_MS) {
+          console.log(`[SessionPool] Session for user ${session.userId} idle for ${idleTime}ms without linking, closing`);
+          void this.release(session.userId)
+            .then(() => notifyBackend('browser:idle-timeout', { userId: session.userId }));
+        }
+      }
+    }, 30000); // Check every 30 seconds
+  }
+
+  private stopIdleMonitor(): void {
+    if (this.idleCheckInterval) {
+      clearInterval(this.idleCheckInterval);
+      this.idleCheckInterval = null;
+    }
+  }
+}
+
+function summarize(session: BrowserSession): SessionSummary {
+  const state = session.client.getState();
+  return {
+    userId: session.userId,
+    isRunning: state.isInitialized,
+    isLinked: state.isLinked,
+    pushname: state.pushname ?? null,
+    debugPort: session.debugPort,
+    profileDir: path.join(DATA_DIR, `session-${session.userId}`),
+    startedAt: session.startedAt.toISOString(),
+    lastActivityAt: session.lastActivityAt.toISOString(),
+    idleTimeMs: Date.now() - session.lastActivityAt.getTime(),
+  };
+}
+
+async function syncContacts({ client, userId }: BrowserSession): Promise<void> {
+  try {
+    const contacts = await client.getContacts();
+
+    const formattedContacts = contacts.map(c => ({
+      wa_id: c.id._serialized,
+      name: c.name || c.pushname || c.shortName,
+      short_name: c.shortName,
+      pushname: c.pushname,
+      phone: c.number,
+      is_business: c.isBusiness,
+      is_group: c.isGroup,
+      // profile_pic_url: can fetch separately but expensive
+    }));
+
+    await forwardToBackend('/wa/contacts', { userId, contacts: formattedContacts });
+    console.log(`[SessionPool] Synced ${contacts.length} contacts for user ${userId}`);
+  } catch (error) {
+    console.error(`[SessionPool] Failed to sync contacts for user ${userId}:`, error);
+  }
+}
+
+// Singleton instance
+export const sessionPool = new SessionPool();
@@ -1,285 +1,288 @@
 import { EventEmitter } from 'events';
-import { browserManager } from './browser-manager.js';
-import { forwardToBackend } from './backend-client.js';
-import { whatsAppController } from './whatsapp-controller.js';
+import { BackendRequestError, forwardToBackend } from './backend-client.js';
+import type { SyncedMessage, WhatsAppClient } from './whatsapp-client.js';
 
 export interface SyncState {
   lastSyncAt: Date | null;
   nextSyncAt: Date | null;
   isSyncing: boolean;
   syncCount: number;
+  // Live ingestion
+  liveMessageCount: number;
+  lastLiveForwardAt: Date | null;
+  pendingLiveMessages: number;
+  // How far behind the backend is: the oldest unsent live message's age, else the
+  // delay of the last live batch (message sent -> batch accepted), null before any
+  lagMs: number | null;
+  // Chats with a high-water mark; scheduled syncs only fetch what is newer
+  trackedChats: number;
+}
+
+type SchedulerState = Omit<SyncState, 'pendingLiveMessages' | 'lagMs' | 'trackedChats'> & {
+  lastLiveLagMs: number | null;
+};
+
+const SYNC_INTERVAL_MS = parseInt(process.env.SYNC_INTERVAL_MS ?? '1800000', 10); // 30 min default
+// Live messages are sent once no new one has arrived for this long...
+const LIVE_BATCH_DELAY_MS = parseInt(process.env.LIVE_BATCH_DELAY_MS ?? '2000', 10);
+// ...but never held longer than this, or past this many messages
+const LIVE_BATCH_MAX_WAIT_MS = 10000;
+const LIVE_BATCH_MAX_SIZE = 100;
+
+const timestampMs = (message: SyncedMessage) => new Date(message.timestamp).getTime();
+
+// The chats a partly failed /wa/messages/batch reports it couldn't store
+function failedChatsOf(body: unknown): string[] | null {
+  if (typeof body !== 'object' || body === null || !('failedChats' in body)) return null;
+  const { failedChats } = body;
+  return Array.isArray(failedChats) && failedChats.every(id => typeof id === 'string') ? failedChats : null;
 }
 
 /**
- * SyncScheduler handles periodic message sync
- * - Triggers sync every N minutes (configurable, default 30)
- * - Only syncs when browser is running and linked
- * - Tracks sync state and timing
+ * SyncScheduler moves one session's messages to the backend
+ * - Live: forwards messages as they arrive, in debounced batches
+ * - Scheduled: syncs shortly after the session links, then every SYNC_INTERVAL_MS,
+ *   fetching only messages newer than each chat's high-water mark
+ * - A failed live batch clears its chats' marks, so the next scheduled sync refetches them
+ * - Marks are saved to the backend after each scheduled sync and restored when the session links
  */
 export class SyncScheduler extends EventEmitter {
-  private syncIntervalMs: number;
   private syncTimer: NodeJS.Timeout | null = null;
-  private state: SyncState = {
+  private state: SchedulerState = {
     lastSyncAt: null,
     nextSyncAt: null,
     isSyncing: false,
     syncCount: 0,
+    liveMessageCount: 0,
+    lastLiveForwardAt: null,
+    lastLiveLagMs: null,
   };
-
-  // Pending sync request that content script should pick up
-  private pendingSyncRequest: { id: string; requestedAt: Date } | null = null;
   private monitoredChats: string[] = [];
+  // Chat id -> timestamp (epoch ms) of the newest message the backend has
+  private highWaterMarks = new Map<string, number>();
+  private pendingLive: SyncedMessage[] = [];
+  private pendingSince: number | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(private readonly client: WhatsAppClient) {
     super();
-    // Default: 30 minutes, configurable via env
-    this.syncIntervalMs = parseInt(process.env.SYNC_INTERVAL_MS ?? '1800000', 10);
   }
 
   getState(): SyncState {
-    return { ...this.state };
+    const oldestPending = this.pendingLive.length > 0
+      ? Math.min(...this.pendingLive.map(timestampMs))
+      : null;
+
+    return {
+      lastSyncAt: this.state.lastSyncAt,
+      nextSyncAt: this.state.nextSyncAt,
+      isSyncing: this.state.isSyncing,
+      syncCount: this.state.syncCount,
+      liveMessageCount: this.state.liveMessageCount,
+      lastLiveForwardAt: this.state.lastLiveForwardAt,
+      pendingLiveMessages: this.pendingLive.length,
+      lagMs: oldestPending !== null ? Math.max(0, Date.now() - oldestPending) : this.state.lastLiveLagMs,
+      trackedChats: this.highWaterMarks.size,
+    };
   }
 
-  getPendingSyncRequest(): { id: string; requestedAt: Date } | null {
-    return this.pendingSyncRequest;
+  /**
+   * Restore the high-water marks saved by an earlier session, so a restart neither
+   * resyncs from scratch nor skips what arrived while it was down
+   */
+  restoreHighWaterMarks(marks: Record<string, number>): void {
+    for (const [chatId, timestamp] of Object.entries(marks)) {
+      if (!this.highWaterMarks.has(chatId)) this.highWaterMarks.set(chatId, timestamp);
+    }
+    console.log(`[SyncScheduler] User ${this.client.userId}: restored ${Object.keys(marks).length} high-water marks`);
   }
 
   setMonitoredChats(chats: string[]) {
     this.monitoredChats = chats;
-    console.log(`[SyncScheduler] Setup to monitor ${chats.length} chats`);
+    console.log(`[SyncScheduler] User ${this.client.userId}: monitoring ${chats.length} chats`);
   }
 
   /**
-   * Start the sync scheduler
+   * Start syncing: an initial sync once the page has settled, then on the interval
    */
   start(): void {
     if (this.syncTimer) {
       return; // Already running
     }
 
-    console.log(`[SyncScheduler] Starting with interval ${this.syncIntervalMs}ms (${this.syncIntervalMs / 60000} min)`);
-    
-    // Schedule next sync
-    this.scheduleNextSync();
-
-    // Listen to browser events
-    browserManager.on('browser:spawn', () => this.onBrowserSpawn());
-    browserManager.on('browser:exit', () => this.onBrowserExit());
-    browserManager.on('browser:linked', ({ linked }) => {
-      if (linked) {
-        this.onBrowserLinked();
-      }
-    });
+    console.log(`[SyncScheduler] User ${this.client.userId}: starting with interval ${SYNC_INTERVAL_MS}ms`);
+    this.scheduleNextSync(5000); // Wait 5s for page to stabilize
   }
 
   /**
-   * Stop the sync scheduler
+   * Stop scheduled syncs and send any live messages still waiting
    */
-  stop(): void {
+  async stop(): Promise<void> {
     if (this.syncTimer) {
       clearTimeout(this.syncTimer);
       this.syncTimer = null;
     }
     this.state.nextSyncAt = null;
-    console.log('[SyncScheduler] Stopped');
+    await this.flushLive();
   }
 
   /**
-   * Request an immediate sync
+   * Queue a message that just arrived; it is sent with the next live batch
    */
-  requestSync(manual: boolean = false): { success: boolean; syncId?: string; error?: string } {
-    const browserState = browserManager.getState();
-    
-    if (!browserState.isRunning) {
-      return { success: false, error: 'Browser not running' };
-    }
-
-    if (!browserState.isLinked) {
-      return { success: false, error: 'WhatsApp not linked' };
-    }
-
-    if (this.state.isSyncing) {
-      return { success: false, error: 'Sync already in progress' };
+  ingest(message: SyncedMessage): void {
+    if (this.monitoredChats.length > 0
+      && !this.monitoredChats.includes(message.chatName)
+      && !this.monitoredChats.includes(message.chatId)) {
+      return;
     }
 
-    const syncId = `sync-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    this.state.isSyncing = true;
-    this.emit('sync:requested', { syncId, manual });
-    
-    // Launch the sync process (async)
-    this.performSync(syncId).catch(err => {
-      console.error(`[SyncScheduler] Sync execution failed:`, err);
-      this.completeSyncRequest(syncId, false, String(err));
-    });
-
-    return { success: true, syncId };
+    this.pendingLive.push(message);
+    this.pendingSince ??= Date.now();
+
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    const waited = Date.now() - this.pendingSince;
+    const delay = this.pendingLive.length >= LIVE_BATCH_MAX_SIZE
+      ? 0
+      : Math.min(LIVE_BATCH_DELAY_MS, Math.max(0, LIVE_BATCH_MAX_WAIT_MS - waited));
+    this.flushTimer = setTimeout(() => {
+      void this.flushLive();
+    }, delay);
   }
 
   /**
-   * Execute the actual sync logic via WhatsAppController
+   * Sync now and upload the messages to the backend. Returns the number of messages synced.
    */
-  private async performSync(syncId: string): Promise<void> {
-    const browserState = browserManager.getState();
-    
-    console.log(`[SyncScheduler] Performing sync ${syncId} for chats: ${this.monitoredChats.length || 'ALL (top 5)'}`);
-    
-    let results;
-    if (this.monitoredChats.length > 0) {
-      results = await whatsAppController.syncChats(this.monitoredChats);
-    } else {
-      // Default behavior: sync top 5 recent chats
-      const recents = await whatsAppController.getRecentChats();
-      const top5 = recents.slice(0, 5).map(c => c.name);
-      results = await whatsAppController.syncChats(top5);
+  async syncNow(): Promise<number> {
+    const clientState = this.client.getState();
+    if (!clientState.isInitialized || !clientState.isLinked) {
+      throw new Error('WhatsApp not linked');
+    }
+    if (this.state.isSyncing) {
+      throw new Error('Sync already in progress');
     }
 
-    // Process results
-    await this.processSyncResults(results, browserState.userId!);
-    
-    this.completeSyncRequest(syncId, true);
-  }
+    this.state.isSyncing = true;
+    try {
+      const { messages, incompleteChats } = await this.client.syncMessages({
+        limit: 50,
+        onlyChats: this.monitoredChats,
+        highWaterMarks: this.highWaterMarks,
+      });
 
-  /**
-   * Process results and send to backend
-   */
-  private async processSyncResults(results: any[], userId: string): Promise<void> {
-    const messages = [];
-    
-    for (const res of results) {
-      if (!res.success || !res.snippets) continue;
-      
-      const chatName = res.name;
-      
-      for (const snippet of res.snippets) {
-        // Parse snippet: "[Timestamp] Sender: Content" or "[ChatName] [Timestamp] Sender: Content"
-        // The extension adds [ChatName] prefix to some
-        let cleanSnippet = snippet;
-        if (snippet.startsWith(`[${chatName}] `)) {
-          cleanSnippet = snippet.substring(chatName.length + 3);
-        }
-        
-        // Match: [12:00, 1/1/2026] Sender: Message
-        const match = cleanSnippet.match(/^\[(.*?)\] (.*?): (.*)$/);
-        
-        if (match) {
-          const timestampStr = match[1];
-          const sender = match[2];
-          const content = match[3];
-          
-          messages.push({
-            id: Buffer.from(`${chatName}-${timestampStr}-${content.substring(0, 20)}`).toString('base64'),
-            chatId: Buffer.from(chatName).toString('base64'), // Use name as ID for now
-            chatName: chatName,
-            sender: sender,
-            content: content,
-            timestamp: new Date().toISOString(), // We should parse timestampStr but format varies
-            isFromMe: sender === 'You', // Approximation
-          });
+      if (messages.length > 0) {
+        const failedChats = await this.forwardBatch(messages);
+        if (failedChats.size > 0) {
+          console.error(`[SyncScheduler] User ${this.client.userId}: backend failed to store ${failedChats.size} chats`);
         }
+        // A chat that couldn't be loaded back to its mark, or wasn't stored, keeps the mark,
+        // so the next sync loads its gap again instead of skipping it for good
+        const incomplete = new Set(incompleteChats);
+        this.advanceHighWaterMarks(messages.filter(m => !incomplete.has(m.chatId) && !failedChats.has(m.chatId)), true);
+      }
+
+      this.state.lastSyncAt = new Date();
+      this.state.syncCount++;
+      this.emit('sync:completed', { count: messages.length, lastSyncAt: this.state.lastSyncAt });
+
+      try {
+        await forwardToBackend('/wa/sync-status', {
+          userId: this.client.userId,
+          lastSyncAt: this.state.lastSyncAt.toISOString(),
+          syncCount: this.state.syncCount,
+          highWaterMarks: Object.fromEntries(this.highWaterMarks),
+        });
+      } catch (err) {
+        console.error('[SyncScheduler] Failed to update backend sync status:', err);
       }
+
+      return messages.length;
+    } finally {
+      this.state.isSyncing = false;
     }
+  }
 
-    if (messages.length > 0) {
-      await forwardToBackend('/wa/sync/batch', {
-        userId,
-        messages,
-        receivedAt: new Date().toISOString()
-      });
-      console.log(`[SyncScheduler] Sent ${messages.length} messages to backend`);
+  private async flushLive(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const batch = this.pendingLive;
+    if (batch.length === 0) return;
+    this.pendingLive = [];
+    this.pendingSince = null;
+
+    try {
+      const failedChats = await this.forwardBatch(batch);
+      const stored = batch.filter(m => !failedChats.has(m.chatId));
+      if (failedChats.size > 0) {
+        console.error(`[SyncScheduler] User ${this.client.userId}: backend failed to store live messages for ${failedChats.size} chats`);
+        for (const chatId of failedChats) this.highWaterMarks.delete(chatId);
+      }
+      if (stored.length === 0) return;
+
+      const now = Date.now();
+      this.state.liveMessageCount += stored.length;
+      this.state.lastLiveForwardAt = new Date(now);
+      this.state.lastLiveLagMs = Math.max(0, now - Math.min(...stored.map(timestampMs)));
+      // Only chats a scheduled sync has covered have a mark; moving a chat's first mark
+      // here would hide its older, never-synced messages from the next scheduled sync
+      this.advanceHighWaterMarks(stored, false);
+    } catch (err) {
+      console.error(`[SyncScheduler] User ${this.client.userId}: failed to forward ${batch.length} live messages:`, err);
+      for (const message of batch) this.highWaterMarks.delete(message.chatId);
     }
   }
 
   /**
-   * Called by content script when sync is complete
+   * Upload messages to the backend. Returns the chats it failed to store; throws if the
+   * request failed as a whole.
    */
-  async completeSyncRequest(syncId: string, success: boolean, error?: string): Promise<void> {
-    if (this.pendingSyncRequest?.id !== syncId) {
-      console.warn(`[SyncScheduler] Unknown sync ID: ${syncId}`);
-      return;
+  private async forwardBatch(messages: SyncedMessage[]): Promise<Set<string>> {
+    try {
+      await forwardToBackend('/wa/messages/batch', {
+        userId: this.client.userId,
+        messages,
+        receivedAt: new Date().toISOString(),
+      });
+      return new Set();
+    } catch (err) {
+      const failedChats = err instanceof BackendRequestError ? failedChatsOf(err.body) : null;
+      if (!failedChats) throw err;
+      return new Set(failedChats);
     }
+  }
 
-    this.pendingSyncRequest = null;
-    this.state.isSyncing = false;
-
-    if (success) {
-      this.state.lastSyncAt = new Date();
-      this.state.syncCount++;
-      console.log(`[SyncScheduler] Sync completed: ${syncId}`);
-      this.emit('sync:completed', { syncId, lastSyncAt: this.state.lastSyncAt });
-
-      // Update backend with sync status
-      const browserState = browserManager.getState();
-      if (browserState.userId) {
-        try {
-          await forwardToBackend('/wa/sync-status', {
-            userId: browserState.userId,
-            lastSyncAt: this.state.lastSyncAt.toISOString(),
-            syncCount: this.state.syncCount,
-          });
-        } catch (err) {
-          console.error('[SyncScheduler] Failed to update backend sync status:', err);
-        }
-      }
-    } else {
-      console.error(`[SyncScheduler] Sync failed: ${syncId} - ${error}`);
-      this.emit('sync:failed', { syncId, error });
+  private advanceHighWaterMarks(messages: SyncedMessage[], createMissing: boolean): void {
+    for (const message of messages) {
+      const current = this.highWaterMarks.get(message.chatId);
+      if (current === undefined && !createMissing) continue;
+      this.highWaterMarks.set(message.chatId, Math.max(current ?? 0, timestampMs(message)));
     }
-
-    // Reschedule next sync
-    this.scheduleNextSync();
   }
 
-  private scheduleNextSync(): void {
+  private scheduleNextSync(delayMs = SYNC_INTERVAL_MS): void {
     if (this.syncTimer) {
       clearTimeout(this.syncTimer);
     }
 
-    this.state.nextSyncAt = new Date(Date.now() + this.syncIntervalMs);
-    
+    this.state.nextSyncAt = new Date(Date.now() + delayMs);
     this.syncTimer = setTimeout(() => {
-      this.triggerScheduledSync();
-    }, this.syncIntervalMs);
-
-    console.log(`[SyncScheduler] Next sync scheduled at ${this.state.nextSyncAt.toISOString()}`);
+      this.runScheduledSync();
+    }, delayMs);
   }
 
-  private triggerScheduledSync(): void {
-    const browserState = browserManager.getState();
-    
-    if (browserState.isRunning && browserState.isLinked) {
-      console.log('[SyncScheduler] Triggering scheduled sync');
-      this.requestSync(false);
-    } else {
-      console.log('[SyncScheduler] Skipping scheduled sync - browser not ready');
-      // Reschedule for next interval
-      this.scheduleNextSync();
+  private async runScheduledSync(): Promise<void> {
+    try {
+      const count = await this.syncNow();
+      console.log(`[SyncScheduler] User ${this.client.userId}: synced ${count} messages`);
+    } catch (err) {
+      console.error(`[SyncScheduler] User ${this.client.userId}: scheduled sync failed:`, err);
+      this.emit('sync:failed', { error: String(err) });
     }
-  }
-
-  private onBrowserSpawn(): void {
-    console.log('[SyncScheduler] Browser spawned, scheduling sync');
-    this.scheduleNextSync();
-  }
 
-  private onBrowserExit(): void {
-    console.log('[SyncScheduler] Browser exited, pausing sync');
+    // stop() may have been called while the sync was running
     if (this.syncTimer) {
-      clearTimeout(this.syncTimer);
-      this.syncTimer = null;
+      this.scheduleNextSync();
     }
-    this.state.nextSyncAt = null;
-    this.state.isSyncing = false;
-    this.pendingSyncRequest = null;
-  }
-
-  private onBrowserLinked(): void {
-    // Do an initial sync when browser becomes linked
-    console.log('[SyncScheduler] Browser linked, triggering initial sync');
-    setTimeout(() => {
-      this.requestSync(false);
-    }, 5000); // Wait 5s for page to stabilize
   }
 }
-
-// Singleton instance
-export const syncScheduler = new SyncScheduler();
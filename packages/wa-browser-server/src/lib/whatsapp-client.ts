@@ -1,6 +1,6 @@
 import pkg from 'whatsapp-web.js';
 const { Client: ClientClass, LocalAuth } = pkg;
-import { Client } from 'whatsapp-web.js';
+import { Client, type Chat, type Message } from 'whatsapp-web.js';
 import QRCode from 'qrcode';
 import { EventEmitter } from 'events';
 
@@ -16,33 +16,180 @@ export interface WhatsAppState {
   pushname?: string;
 }
 
+// File attached to an image, video, document, audio or voice note message
+export interface SyncedMedia {
+  filename: string | null;
+  mimetype: string | null;
+  size: number | null; // bytes
+  durationSeconds: number | null; // audio, voice notes and video
+}
+
+export interface SyncedLocation {
+  latitude: number;
+  longitude: number;
+  name: string | null;
+  address: string | null;
+}
+
+// A message in the shape the backend's /wa/messages/batch expects
+export interface SyncedMessage {
+  id: string;
+  chatId: string;
+  chatName: string;
+  sender: string;
+  // Message text; for locations, the place name and address
+  content: string;
+  timestamp: string;
+  isFromMe: boolean;
+  // whatsapp-web.js message type: 'chat', 'image', 'video', 'document', 'ptt' (voice note), 'audio', 'location', ...
+  type: string;
+  caption: string | null;
+  media: SyncedMedia | null;
+  location: SyncedLocation | null;
+  // Key id of the message this one replies to
+  quotedMessageId: string | null;
+}
+
+export interface SyncOptions {
+  // Messages fetched from chats without a high-water mark
+  limit?: number;
+  // Chat names or serialized ids; defaults to the 10 most recent chats
+  onlyChats?: string[];
+  // Chat id -> newest message already synced (epoch ms); only newer messages are fetched
+  highWaterMarks?: ReadonlyMap<string, number>;
+}
+
+export interface SyncResult {
+  messages: SyncedMessage[];
+  // Chats with more new messages than could be loaded; their oldest new messages are missing
+  incompleteChats: string[];
+}
+
+// Most messages loaded from one chat's history (the browser holds them all in memory)
+const MAX_HISTORY_MESSAGES = 5000;
+
+// First window when loading a chat backwards; it doubles until it reaches far enough back
+const FIRST_HISTORY_WINDOW = 100;
+
+// `onlyChats` (names or serialized ids), or the 10 most recent chats when empty
+function selectChats(chats: Chat[], onlyChats: string[]): Chat[] {
+  return onlyChats.length > 0
+    ? chats.filter(chat => onlyChats.includes(chat.name) || onlyChats.includes(chat.id._serialized))
+    : chats.slice(0, 10);
+}
+
+/**
+ * A chat's newest messages, oldest first, loaded back until one is at or before
+ * `timestampMs` (or the chat starts). WhatsApp Web only loads a chat backwards from
+ * its newest message, so the window doubles each round. `reached` is false when
+ * MAX_HISTORY_MESSAGES ran out first.
+ */
+async function loadBackTo(chat: Chat, timestampMs: number): Promise<{ messages: Message[]; reached: boolean }> {
+  let limit = FIRST_HISTORY_WINDOW;
+  for (;;) {
+    const messages = await chat.fetchMessages({ limit });
+    const oldest = messages[0];
+    if (!oldest || oldest.timestamp * 1000 <= timestampMs || messages.length < limit) {
+      return { messages, reached: true };
+    }
+    if (limit >= MAX_HISTORY_MESSAGES) return { messages, reached: false };
+    limit = Math.min(limit * 2, MAX_HISTORY_MESSAGES);
+  }
+}
+
+// Fields whatsapp-web.js leaves on the raw message data only
+interface RawMessageData {
+  filename?: string;
+  mimetype?: string;
+  size?: number;
+  quotedStanzaID?: string;
+}
+
+const MEDIA_TYPES = new Set(['image', 'video', 'document', 'audio', 'ptt']);
+
+// Types that carry something worth searching; notifications, reactions, stickers, revoked messages etc. are skipped
+const SYNCED_TYPES = new Set([...MEDIA_TYPES, 'chat', 'location', 'vcard', 'multi_vcard']);
+
+function isSyncable(m: Message): boolean {
+  return SYNCED_TYPES.has(m.type);
+}
+
+function toSyncedMessage(m: Message, chatName: string): SyncedMessage {
+  const raw = (m.rawData ?? {}) as RawMessageData;
+  const isMedia = MEDIA_TYPES.has(m.type);
+  const duration = parseInt(m.duration, 10);
+  // For location messages `body` holds a base64 thumbnail, not text
+  const location = m.type === 'location' && m.location
+    ? {
+        latitude: Number(m.location.latitude),
+        longitude: Number(m.location.longitude),
+        name: m.location.name ?? null,
+        address: m.location.address ?? null,
+      }
+    : null;
+
+  return {
+    id: m.id._serialized,
+    chatId: m.fromMe ? m.to : m.from, // simplified
+    chatName,
+    sender: m.author || m.from,
+    content: location
+      ? [location.name, location.address].filter(Boolean).join(', ')
+      : isMedia ? '' : m.body,
+    timestamp: new Date(m.timestamp * 1000).toISOString(),
+    isFromMe: m.fromMe,
+    type: m.type,
+    // whatsapp-web.js puts a media message's caption in `body`
+    caption: isMedia && m.body ? m.body : null,
+    media: isMedia
+      ? {
+          filename: raw.filename ?? null,
+          mimetype: raw.mimetype ?? null,
+          size: raw.size ?? null,
+          durationSeconds: Number.isFinite(duration) ? duration : null,
+        }
+      : null,
+    location,
+    quotedMessageId: m.hasQuotedMsg ? raw.quotedStanzaID ?? null : null,
+  };
+}
+
+export interface WhatsAppClientOptions {
+  // Root of the LocalAuth store; each user's Chrome profile lives in `<dataDir>/session-<userId>`
+  dataDir: string;
+  // Chrome remote debugging port, unique per running session
+  debugPort: number;
+}
+
+/**
+ * One user's WhatsApp Web session in its own Chrome process.
+ * Sessions are created and owned by the session pool.
+ */
 export class WhatsAppClient extends EventEmitter {
   private client: ClientInstance | null = null;
-  private state: WhatsAppState = {
-    isInitialized: false,
-    isLinked: false,
-    qrCode: null,
-    userId: null,
-  };
-  private dataDir: string;
+  private state: WhatsAppState;
 
-  constructor() {
+  constructor(readonly userId: string, private readonly options: WhatsAppClientOptions) {
     super();
-    this.dataDir = process.env.CHROME_USER_DATA_DIR || './.wwebjs_auth';
+    this.state = {
+      isInitialized: false,
+      isLinked: false,
+      qrCode: null,
+      userId,
+    };
   }
 
   getState(): WhatsAppState {
     return { ...this.state };
   }
 
-  async initialize(userId: string) {
+  async initialize() {
     if (this.client) {
       console.log('[WhatsAppClient] Already initialized');
       return;
     }
 
-    console.log('[WhatsAppClient] Initializing client for user:', userId);
-    this.state.userId = userId;
+    console.log(`[WhatsAppClient] Initializing client for user ${this.userId} on debug port ${this.options.debugPort}`);
     this.state.isInitialized = true; // Mark as starting
     
     // Determine executable path based on environment
@@ -56,8 +203,8 @@ export class WhatsAppClient extends EventEmitter {
     // Use LocalAuth to persist session
     this.client = new ClientClass({
       authStrategy: new LocalAuth({
-        clientId: userId,
-        dataPath: this.dataDir
+        clientId: this.userId,
+        dataPath: this.options.dataDir
       }),
       puppeteer: {
         headless: false,
@@ -70,7 +217,8 @@ export class WhatsAppClient extends EventEmitter {
           '--disable-accelerated-2d-canvas',
           '--no-first-run',
           '--disable-gpu',
-          '--disable-blink-features=AutomationControlled' 
+          '--disable-blink-features=AutomationControlled',
+          `--remote-debugging-port=${this.options.debugPort}`
         ],
         ignoreDefaultArgs: ['--enable-automation']
       }
@@ -126,6 +274,17 @@ export class WhatsAppClient extends EventEmitter {
       this.emit('auth_failure', msg);
     });
 
+    // Fires for incoming messages and for ones the user sends from any device
+    this.client.on('message_create', async (message: Message) => {
+      if (message.isStatus || !isSyncable(message)) return;
+      try {
+        const chat = await message.getChat();
+        this.emit('message', toSyncedMessage(message, chat.name || chat.id.user));
+      } catch (err) {
+        console.error('[WhatsAppClient] Failed to process incoming message:', err);
+      }
+    });
+
     this.client.on('disconnected', (reason: string) => {
       console.log('[WhatsAppClient] Disconnected:', reason);
       this.cleanup();
@@ -151,7 +310,7 @@ export class WhatsAppClient extends EventEmitter {
       isInitialized: false,
       isLinked: false,
       qrCode: null,
-      userId: null,
+      userId: this.userId,
     };
     this.emit('status', this.state);
   }
@@ -170,37 +329,80 @@ export class WhatsAppClient extends EventEmitter {
     return await this.client.getChats();
   }
 
-  async syncMessages(limit = 50) {
+  /**
+   * Fetch what is new since the last sync, skipping chats with nothing newer than
+   * their high-water mark. Chats with a mark are loaded back until the mark, so a
+   * busy gap comes through whole; chats without one get their `limit` newest messages.
+   */
+  async syncMessages({ limit = 50, onlyChats = [], highWaterMarks = new Map() }: SyncOptions = {}): Promise<SyncResult> {
     if (!this.client || !this.state.isLinked) {
       throw new Error('Client not ready');
     }
     
-    console.log('[WhatsAppClient] Syncing messages...');
+    console.log(`[WhatsAppClient] Syncing messages for user ${this.userId}...`);
     const chats = await this.client.getChats();
-    const allMessages = [];
+    const allMessages: SyncedMessage[] = [];
+    const incompleteChats: string[] = [];
     
-    // Process top 10 recent chats for now
-    for (const chat of chats.slice(0, 10)) {
+    for (const chat of selectChats(chats, onlyChats)) {
+       const since = highWaterMarks.get(chat.id._serialized);
+       // chat.timestamp is the time of the chat's latest message
+       if (since !== undefined && chat.timestamp * 1000 <= since) continue;
+
        try { 
         console.log(`[WhatsAppClient] Fetching messages for chat: ${chat.name || chat.id.user}`);
-        const messages = await chat.fetchMessages({ limit });
+        let messages: Message[];
+        if (since === undefined) {
+          messages = await chat.fetchMessages({ limit });
+        } else {
+          const loaded = await loadBackTo(chat, since);
+          messages = loaded.messages;
+          if (!loaded.reached) {
+            console.warn(`[WhatsAppClient] More than ${MAX_HISTORY_MESSAGES} new messages in chat ${chat.id._serialized}, the oldest are missing`);
+            incompleteChats.push(chat.id._serialized);
+          }
+        }
         
-        allMessages.push(...messages.map(m => ({
-          id: m.id._serialized,
-          chatId: m.fromMe ? m.to : m.from, // simplified
-          chatName: chat.name || chat.id.user,
-          sender: m.author || m.from,
-          content: m.body,
-          timestamp: new Date(m.timestamp * 1000).toISOString(),
-          isFromMe: m.fromMe
-        })));
+        allMessages.push(...messages
+          .filter(m => isSyncable(m) && (since === undefined || m.timestamp * 1000 > since))
+          .map(m => toSyncedMessage(m, chat.name || chat.id.user)));
        } catch (err) {
          console.error(`[WhatsAppClient] Failed to fetch messages for chat ${chat.id._serialized}:`, err);
        }
     }
     
-    return allMessages;
+    return { messages: allMessages, incompleteChats };
   }
-}
 
-export const whatsAppClient = new WhatsAppClient();
+  /**
+   * Ids and names of the chats `onlyChats` refers to (default: the 10 most recent)
+   */
+  async resolveChats(onlyChats: string[] = []): Promise<Array<{ id: string; name: string }>> {
+    return selectChats(await this.getChats(), onlyChats)
+      .map(chat => ({ id: chat.id._serialized, name: chat.name || chat.id.user }));
+  }
+
+  /**
+   * One chat's messages sent between `since` and `until` (both inclusive), newest first.
+   * `truncated` is set when the chat has more messages after `since` than
+   * MAX_HISTORY_MESSAGES; the oldest of them are then missing.
+   */
+  async fetchHistory(chatId: string, since: Date, until?: Date): Promise<{ messages: SyncedMessage[]; truncated: boolean }> {
+    if (!this.client || !this.state.isLinked) {
+      throw new Error('Client not ready');
+    }
+
+    const chat = await this.client.getChatById(chatId);
+    const { messages, reached } = await loadBackTo(chat, since.getTime() - 1);
+
+    const from = since.getTime();
+    const to = until?.getTime() ?? Infinity;
+    return {
+      messages: messages
+        .filter(m => isSyncable(m) && m.timestamp * 1000 >= from && m.timestamp * 1000 <= to)
+        .reverse()
+        .map(m => toSyncedMessage(m, chat.name || chat.id.user)),
+      truncated: !reached,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { sessionPool } from '../lib/session-pool.js';
+import { BackfillJob } from '../lib/backfill-job.js';
+import { verifyApiKey } from '../lib/auth.js';
+
+const UserSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+const StartSchema = UserSchema.extend({
+  since: z.string().datetime(),
+  // Chat names or ids; default: the 10 most recent chats
+  chats: z.array(z.string()).default([]),
+  // Checkpoints of an interrupted run to resume from
+  checkpoints: z.array(z.object({
+    chatId: z.string(),
+    chatName: z.string(),
+    status: z.enum(['pending', 'done', 'truncated', 'failed']),
+    messagesUploaded: z.number().int().nonnegative(),
+    oldestUploadedAt: z.string().nullable(),
+  })).default([]),
+});
+
+export async function backfillRoutes(fastify: FastifyInstance) {
+  // Middleware to verify API key
+  fastify.addHook('preHandler', async (request, reply) => {
+    const apiKey = request.headers['x-api-key'] as string;
+    if (!verifyApiKey(apiKey)) {
+      reply.code(401).send({ error: 'Invalid API key' });
+    }
+  });
+
+  /**
+   * GET /backfill/status?userId=
+   * Progress of the user's backfill in this server
+   */
+  fastify.get('/status', async (request, reply) => {
+    const query = UserSchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: query.error.issues });
+    }
+
+    const job = sessionPool.peek(query.data.userId)?.backfill;
+    return { backfill: job?.getProgress() ?? null };
+  });
+
+  /**
+   * POST /backfill/start
+   * Start (or resume from checkpoints) a history backfill for the user
+   */
+  fastify.post('/start', async (request, reply) => {
+    const body = StartSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: body.error.issues });
+    }
+
+    const { userId, since, chats, checkpoints } = body.data;
+    const session = sessionPool.get(userId);
+    if (!session?.client.getState().isLinked) {
+      return reply.code(400).send({ error: 'Browser not running or not linked' });
+    }
+    if (session.backfill?.isRunning) {
+      return reply.code(409).send({ error: 'Backfill already running' });
+    }
+
+    try {
+      const job = await BackfillJob.create(session.client, new Date(since), chats, checkpoints);
+      session.backfill = job;
+      job.run().catch(err => request.log.error(err, 'Backfill failed'));
+      return { success: true, backfill: job.getProgress() };
+    } catch (err: any) {
+      request.log.error(err);
+      return reply.code(500).send({ error: 'Failed to start backfill', details: err.message });
+    }
+  });
+
+  /**
+   * POST /backfill/cancel
+   * Stop the user's backfill after the batch in flight
+   */
+  fastify.post('/cancel', async (request, reply) => {
+    const body = UserSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: body.error.issues });
+    }
+
+    const job = sessionPool.get(body.data.userId)?.backfill;
+    const cancelled = job?.isRunning ?? false;
+    job?.cancel();
+    return { success: true, cancelled };
+  });
+}
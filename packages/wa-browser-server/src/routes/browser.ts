@@ -1,16 +1,12 @@
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { whatsAppClient } from '../lib/whatsapp-client.js';
+import { sessionPool } from '../lib/session-pool.js';
 import { verifyApiKey } from '../lib/auth.js';
 
-const SpawnSchema = z.object({
+const UserSchema = z.object({
   userId: z.string().uuid(),
 });
 
-// const KillSchema = z.object({
-//   userId: z.string().uuid(),
-// });
-
 export async function browserRoutes(fastify: FastifyInstance) {
   // Middleware to verify API key
   fastify.addHook('preHandler', async (request, reply) => {
@@ -21,62 +17,82 @@ export async function browserRoutes(fastify: FastifyInstance) {
   });
 
   /**
-   * GET /browser/status
-   * Get current browser state
+   * GET /browser/status?userId=
+   * Get the user's browser state
+   */
+  fastify.get('/status', async (request, reply) => {
+    const query = UserSchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: query.error.issues });
+    }
+
+    const session = sessionPool.peek(query.data.userId);
+    const state = session?.client.getState();
+    return {
+      isRunning: state?.isInitialized ?? false,
+      userId: query.data.userId,
+      isLinked: state?.isLinked ?? false,
+      startedAt: session?.startedAt.toISOString() ?? null,
+      lastActivityAt: session?.lastActivityAt.toISOString() ?? null,
+      idleTimeMs: session ? Date.now() - session.lastActivityAt.getTime() : 0,
+    };
+  });
+
+  /**
+   * GET /browser/sessions
+   * List all running sessions (admin)
    */
-  fastify.get('/status', async (_request, _reply) => {
-    const state = whatsAppClient.getState();
+  fastify.get('/sessions', async () => {
     return {
-      isRunning: state.isInitialized,
-      userId: state.userId,
-      isLinked: state.isLinked,
-      startedAt: null, // Legacy field
-      lastActivityAt: null,
-      idleTimeMs: 0,
+      maxSessions: sessionPool.maxSessions,
+      sessions: sessionPool.list(),
     };
   });
 
   /**
    * POST /browser/spawn
-   * Spawn a new browser instance for a user
+   * Start a browser for a user, closing the least recently used one if the pool is full
    */
   fastify.post('/spawn', async (request, reply) => {
-    const body = SpawnSchema.safeParse(request.body);
+    const body = UserSchema.safeParse(request.body);
     if (!body.success) {
       return reply.code(400).send({ error: 'Invalid request', details: body.error.issues });
     }
 
-    const { userId } = body.data;
-    
-    // No response needed, init is async
-    whatsAppClient.initialize(userId);
+    const session = await sessionPool.acquire(body.data.userId);
 
-    return { 
-      success: true, 
+    return {
+      success: true,
       message: 'Browser starting',
-      state: whatsAppClient.getState(),
+      state: session.client.getState(),
     };
   });
 
   /**
    * POST /browser/stop
-   * Stop the browser instance
+   * Stop the user's browser
    */
-  fastify.post('/stop', async (_request, _reply) => {
-    // We don't really use the userId for stopping anymore since it's a singleton
-    // but we can check if it matches
-    // const state = whatsAppClient.getState();
-    await whatsAppClient.destroy();
+  fastify.post('/stop', async (request, reply) => {
+    const body = UserSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: body.error.issues });
+    }
+
+    const stopped = await sessionPool.release(body.data.userId);
 
-    return { success: true, message: 'Browser stopped' };
+    return { success: true, message: stopped ? 'Browser stopped' : 'No browser running' };
   });
 
   /**
    * POST /browser/activity
    * Record user activity (extend idle timeout)
    */
-  fastify.post('/activity', async (_request, _reply) => {
-    // Legacy support
-    return { success: true };
+  fastify.post('/activity', async (request, reply) => {
+    const body = UserSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: body.error.issues });
+    }
+
+    return { success: sessionPool.recordActivity(body.data.userId) };
   });
 }
@@ -1,12 +1,39 @@
 import { FastifyPluginAsync } from 'fastify';
-import { whatsAppClient } from '../lib/whatsapp-client.js';
-// import { syncScheduler } from '../lib/sync-scheduler.js';
+import { z } from 'zod';
+import { sessionPool } from '../lib/session-pool.js';
+import { verifyApiKey } from '../lib/auth.js';
+
+const UserSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+const ConfigSchema = UserSchema.extend({
+  monitoredChats: z.array(z.string()),
+});
 
 export const configRoutes: FastifyPluginAsync = async (fastify) => {
-  // Get recent chats for selection
+  // Middleware to verify API key
+  fastify.addHook('preHandler', async (request, reply) => {
+    const apiKey = request.headers['x-api-key'] as string;
+    if (!verifyApiKey(apiKey)) {
+      reply.code(401).send({ error: 'Invalid API key' });
+    }
+  });
+
+  // Get the user's recent chats for selection
   fastify.get('/chats', async (request, reply) => {
+    const query = UserSchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: query.error.issues });
+    }
+
+    const session = sessionPool.get(query.data.userId);
+    if (!session) {
+      return reply.code(400).send({ error: 'Browser not running' });
+    }
+
     try {
-      const chats = await whatsAppClient.getChats();
+      const chats = await session.client.getChats();
       // Format chats for frontend
       const formattedChats = chats.map(c => ({
         name: c.name || c.id.user, // Use phone number if no name
@@ -20,20 +47,19 @@ export const configRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.code(500).send({ error: 'Failed to fetch chats' });
     }
   });
-  
-  // Set sync configuration
+
+  // Set the chats the user's sync scheduler fetches
   fastify.post('/config', async (request, reply) => {
-    const body = request.body as { monitoredChats: string[] };
-    if (!body.monitoredChats || !Array.isArray(body.monitoredChats)) {
+    const body = ConfigSchema.safeParse(request.body);
+    if (!body.success) {
       return reply.code(400).send({ error: 'Invalid config' });
     }
-    
-    // syncScheduler.setMonitoredChats(body.monitoredChats);
-    // Store in client or database? Ideally database handles it.
-    // The backend stores it, so we just acknowledge here.
-    // We might need to tell the sync logic about it later.
-    
-    request.log.info(`Updated sync config with ${body.monitoredChats.length} chats`);
+
+    const { userId, monitoredChats } = body.data;
+    // The backend stores the config; a running session picks it up immediately
+    sessionPool.get(userId)?.scheduler.setMonitoredChats(monitoredChats);
+
+    request.log.info(`Updated sync config for user ${userId} with ${monitoredChats.length} chats`);
     return { success: true };
   });
 };
@@ -1,5 +1,5 @@
 import type { FastifyInstance } from 'fastify';
-import { browserManager } from '../lib/browser-manager.js';
+import { sessionPool } from '../lib/session-pool.js';
 
 export async function healthRoutes(fastify: FastifyInstance) {
   /**
@@ -7,14 +7,15 @@ export async function healthRoutes(fastify: FastifyInstance) {
    * Health check endpoint
    */
   fastify.get('/health', async () => {
-    const state = browserManager.getState();
+    const sessions = sessionPool.list();
     return {
       status: 'ok',
       service: 'wa-browser-server',
       timestamp: new Date().toISOString(),
-      browser: {
-        isRunning: state.isRunning,
-        isLinked: state.isLinked,
+      browsers: {
+        running: sessions.length,
+        linked: sessions.filter(s => s.isLinked).length,
+        maxSessions: sessionPool.maxSessions,
       },
       memory: process.memoryUsage(),
     };
@@ -1,11 +1,16 @@
 import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
 import { verifyApiKey } from '../lib/auth.js';
-import { whatsAppClient } from '../lib/whatsapp-client.js';
+import { sessionPool } from '../lib/session-pool.js';
+
+const UserSchema = z.object({
+  userId: z.string().uuid(),
+});
 
 export async function screenshotRoutes(fastify: FastifyInstance) {
   /**
-   * GET /screenshot
-   * Get the latest QR code
+   * GET /screenshot?userId=
+   * Get the latest QR code for the user's browser
    */
   fastify.get('/', async (request, reply) => {
     const apiKey = request.headers['x-api-key'] as string;
@@ -13,9 +18,14 @@ export async function screenshotRoutes(fastify: FastifyInstance) {
       return reply.code(401).send({ error: 'Invalid API key' });
     }
 
-    const state = whatsAppClient.getState();
+    const query = UserSchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: query.error.issues });
+    }
+
+    const state = sessionPool.peek(query.data.userId)?.client.getState();
     
-    if (!state.isInitialized) {
+    if (!state?.isInitialized) {
       return reply.code(400).send({ 
         error: 'Browser not running',
         browserRunning: false,
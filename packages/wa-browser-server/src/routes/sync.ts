@@ -1,21 +1,16 @@
 import type { FastifyInstance } from 'fastify';
-// import { z } from 'zod';
-import { whatsAppClient } from '../lib/whatsapp-client.js';
+import { z } from 'zod';
+import { sessionPool } from '../lib/session-pool.js';
 import { verifyApiKey } from '../lib/auth.js';
 
-/*
-const SyncCompleteSchema = z.object({
-  syncId: z.string(),
-  success: z.boolean(),
-  messagesFound: z.number().optional(),
-  error: z.string().optional(),
+const UserSchema = z.object({
+  userId: z.string().uuid(),
 });
-*/
 
 export async function syncRoutes(fastify: FastifyInstance) {
   /**
-   * GET /sync/status
-   * Get current sync status
+   * GET /sync/status?userId=
+   * Get the user's sync status, including live ingestion lag
    */
   fastify.get('/status', async (request, reply) => {
     const apiKey = request.headers['x-api-key'] as string;
@@ -23,21 +18,35 @@ export async function syncRoutes(fastify: FastifyInstance) {
       return reply.code(401).send({ error: 'Invalid API key' });
     }
 
-    const state = whatsAppClient.getState();
+    const query = UserSchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: query.error.issues });
+    }
+
+    const session = sessionPool.peek(query.data.userId);
+    const syncState = session?.scheduler.getState();
+    const state = session?.client.getState();
 
     return {
-      lastSyncAt: null, // to be implemented
-      nextSyncAt: null,
-      isSyncing: false,
-      syncCount: 0,
-      browserRunning: state.isInitialized,
-      browserLinked: state.isLinked,
+      lastSyncAt: syncState?.lastSyncAt?.toISOString() ?? null,
+      nextSyncAt: syncState?.nextSyncAt?.toISOString() ?? null,
+      isSyncing: syncState?.isSyncing ?? false,
+      syncCount: syncState?.syncCount ?? 0,
+      live: {
+        messageCount: syncState?.liveMessageCount ?? 0,
+        pendingMessages: syncState?.pendingLiveMessages ?? 0,
+        lastForwardAt: syncState?.lastLiveForwardAt?.toISOString() ?? null,
+        lagMs: syncState?.lagMs ?? null,
+      },
+      trackedChats: syncState?.trackedChats ?? 0,
+      browserRunning: state?.isInitialized ?? false,
+      browserLinked: state?.isLinked ?? false,
     };
   });
 
   /**
    * POST /sync/trigger
-   * Manually trigger a sync
+   * Manually trigger a sync for a user
    */
   fastify.post('/trigger', async (request, reply) => {
     const apiKey = request.headers['x-api-key'] as string;
@@ -45,40 +54,28 @@ export async function syncRoutes(fastify: FastifyInstance) {
       return reply.code(401).send({ error: 'Invalid API key' });
     }
 
-    const state = whatsAppClient.getState();
-    if (!state.isInitialized || !state.isLinked) {
-      return reply.code(400).send({ 
+    const body = UserSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: body.error.issues });
+    }
+
+    const session = sessionPool.get(body.data.userId);
+    const state = session?.client.getState();
+    if (!session || !state?.isInitialized || !state.isLinked) {
+      return reply.code(400).send({
         error: 'Browser not running or not linked',
-        browserRunning: state.isInitialized,
-        browserLinked: state.isLinked
+        browserRunning: state?.isInitialized ?? false,
+        browserLinked: state?.isLinked ?? false,
       });
     }
 
     try {
-      // Perform sync
-      const messages = await whatsAppClient.syncMessages();
-      
-      // TODO: Send messages to backend
-      const BACKEND_URL = process.env.BACKEND_API_URL ?? process.env.BACKEND_URL ?? 'http://localhost:3001';
-      const WA_API_KEY = process.env.API_SECRET_KEY ?? process.env.WA_API_SECRET_KEY ?? '';
-      
-      await fetch(`${BACKEND_URL}/wa/messages/batch`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': WA_API_KEY,
-        },
-        body: JSON.stringify({ 
-          userId: state.userId,
-          messages,
-          receivedAt: new Date().toISOString()
-        }),
-      });
+      const count = await session.scheduler.syncNow();
 
       return {
         success: true,
-        message: `Synced ${messages.length} messages`,
-        count: messages.length
+        message: `Synced ${count} messages`,
+        count,
       };
     } catch (err: any) {
       request.log.error(err);
@@ -1,6 +1,6 @@
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { browserManager } from '../lib/browser-manager.js';
+import { sessionPool } from '../lib/session-pool.js';
 import { verifyApiKey } from '../lib/auth.js';
 import { forwardToBackend } from '../lib/backend-client.js';
 
@@ -9,6 +9,10 @@ const LinkedSchema = z.object({
   linked: z.boolean(),
 });
 
+const HeartbeatSchema = z.object({
+  userId: z.string().uuid(),
+});
+
 const MessageBatchSchema = z.object({
   userId: z.string().uuid(),
   messages: z.array(z.object({
@@ -43,9 +47,8 @@ export async function webhookRoutes(fastify: FastifyInstance) {
 
     const { userId, linked } = body.data;
     
-    // Update local state
-    browserManager.setLinked(linked);
-    browserManager.recordActivity();
+    // Link state itself comes from the session's client; this only counts as activity
+    sessionPool.recordActivity(userId);
 
     // Forward to main backend
     try {
@@ -74,7 +77,7 @@ export async function webhookRoutes(fastify: FastifyInstance) {
     const { userId, messages } = body.data;
     
     // Record activity
-    browserManager.recordActivity();
+    sessionPool.recordActivity(userId);
 
     // Forward to main backend
     try {
@@ -98,8 +101,12 @@ export async function webhookRoutes(fastify: FastifyInstance) {
    * POST /webhook/heartbeat
    * Called periodically by content script to keep connection alive
    */
-  fastify.post('/heartbeat', async (_request, _reply) => {
-    browserManager.recordActivity();
-    return { success: true };
+  fastify.post('/heartbeat', async (request, reply) => {
+    const body = HeartbeatSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: body.error.issues });
+    }
+
+    return { success: sessionPool.recordActivity(body.data.userId) };
   });
 }
@@ -6,12 +6,11 @@ import { healthRoutes } from './routes/health.js';
 import { syncRoutes } from './routes/sync.js';
 import { screenshotRoutes } from './routes/screenshot.js';
 import { configRoutes } from './routes/config.js';
-import { whatsAppClient } from './lib/whatsapp-client.js';
+import { backfillRoutes } from './routes/backfill.js';
+import { sessionPool } from './lib/session-pool.js';
 
 const PORT = parseInt(process.env.PORT ?? '3002', 10);
 const HOST = process.env.HOST ?? '0.0.0.0';
-const BACKEND_URL = process.env.BACKEND_API_URL ?? process.env.BACKEND_URL ?? 'http://localhost:3001';
-const WA_API_KEY = process.env.API_SECRET_KEY ?? process.env.WA_API_SECRET_KEY ?? '';
 
 async function buildServer() {
   const isDev = process.env.NODE_ENV === 'development';
@@ -60,6 +59,7 @@ async function buildServer() {
   await fastify.register(syncRoutes, { prefix: '/sync' });
   await fastify.register(screenshotRoutes, { prefix: '/screenshot' });
   await fastify.register(configRoutes, { prefix: '/wa' });
+  await fastify.register(backfillRoutes, { prefix: '/backfill' });
 
   return fastify;
 }
@@ -67,51 +67,15 @@ async function buildServer() {
 async function start() {
   const server = await buildServer();
 
-  // Set up WhatsApp client event handlers
-  whatsAppClient.on('ready', async () => {
-    console.log('[Server] WhatsApp Client ready!');
-    const state = whatsAppClient.getState();
-    const userId = state.userId;
-    
-    if (!userId) {
-      console.error('[Server] No userId available on ready event');
-      return;
-    }
-    
-    try {
-      const url = `${BACKEND_URL}/wa/linked`;
-      console.log('[Server] Notifying backend about linkage for user:', userId);
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': WA_API_KEY,
-        },
-        body: JSON.stringify({ 
-          userId,
-          linked: true,
-          timestamp: new Date().toISOString()
-        }),
-      });
-
-      if (!response.ok) {
-        console.error(`[Server] Failed to notify backend: ${response.status} ${response.statusText}`);
-      } else {
-        console.log('[Server] Backend notified successfully');
-        
-        // Fetch and upload contacts immediately
-        await syncContacts(userId);
-      }
-    } catch (error) {
-      console.error('[Server] Error notifying backend:', error);
-    }
-  });
-
-  whatsAppClient.on('disconnected', async () => {
-    console.log('[Server] WhatsApp Client disconnected');
-    // We could notify backend here too
-  });
+  // Close every browser on shutdown so no Chrome process outlives the server
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, async () => {
+      console.log(`[Server] ${signal} received, closing browser sessions`);
+      await sessionPool.releaseAll();
+      await server.close();
+      process.exit(0);
+    });
+  }
 
   try {
     await server.listen({ port: PORT, host: HOST });
@@ -122,34 +86,4 @@ async function start() {
   }
 }
 
-async function syncContacts(userId: string) {
-  try {
-    console.log('[Server] Syncing contacts...');
-    const contacts = await whatsAppClient.getContacts();
-    
-    const formattedContacts = contacts.map(c => ({
-      wa_id: c.id._serialized,
-      name: c.name || c.pushname || c.shortName,
-      short_name: c.shortName,
-      pushname: c.pushname,
-      is_business: c.isBusiness,
-      is_group: c.isGroup,
-      // profile_pic_url: can fetch separately but expensive
-    }));
-
-    const url = `${BACKEND_URL}/wa/contacts`;
-    await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-Key': WA_API_KEY,
-      },
-      body: JSON.stringify({ userId, contacts: formattedContacts }),
-    });
-    console.log(`[Server] Synced ${contacts.length} contacts`);
-  } catch (error) {
-    console.error('[Server] Failed to sync contacts:', error);
-  }
-}
-
 start();
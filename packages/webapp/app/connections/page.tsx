@@ -4,15 +4,20 @@ import { useEffect, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { getBackendUrl } from '@/lib/config';
+import { timeZoneHeader } from '@/lib/ask-stream';
 import { Plus, X, ChevronRight } from 'lucide-react';
 import styles from './page.module.css';
 
 interface Connection {
+  id: string;
   type: string;
   email: string | null;
+  label: string | null;
+  enabled: boolean;
   scopes: string[];
   connectedAt: string;
   needsRefresh: boolean;
+  needsReauth?: boolean;
 }
 
 interface WhatsAppStatus {
@@ -25,6 +30,32 @@ interface WhatsAppStatus {
   isLinked: boolean;
 }
 
+interface WhatsAppBackfill {
+  status: 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+  since: string;
+  chatsTotal: number;
+  chatsDone: number;
+  chatsTruncated: number;
+  chatsFailed: number;
+  messagesUploaded: number;
+  progress: number;
+  etaSeconds: number | null;
+  error: string | null;
+}
+
+// Default backfill start: three months ago, as YYYY-MM-DD in local time
+function defaultBackfillSince(): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() - 3);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return 'less than a minute left';
+  if (seconds < 3600) return `~${Math.round(seconds / 60)} min left`;
+  return `~${(seconds / 3600).toFixed(1)} h left`;
+}
+
 interface AvailableChat {
   name: string;
   id: string;
@@ -54,6 +85,11 @@ function SettingsContent() {
   const [loadingChats, setLoadingChats] = useState(false);
   const [savingConfig, setSavingConfig] = useState(false);
   const [accessToken, setAccessToken] = useState<string | null>(null);
+
+  // History backfill state
+  const [backfill, setBackfill] = useState<WhatsAppBackfill | null>(null);
+  const [backfillSince, setBackfillSince] = useState(defaultBackfillSince);
+  const [backfillLoading, setBackfillLoading] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
 
   // Handle OAuth callback params
@@ -135,6 +171,17 @@ function SettingsContent() {
           const waData = await waResponse.json();
           setWhatsappStatus(waData);
         }
+
+        // Fetch history backfill progress
+        const backfillResponse = await fetch(`${backendUrl}/wa/backfill`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (backfillResponse.ok) {
+          setBackfill((await backfillResponse.json()).backfill);
+        }
       } catch (error) {
         console.error('Failed to check auth:', error);
         router.push('/login');
@@ -249,6 +296,33 @@ function SettingsContent() {
     };
   }, [whatsappStatus?.browserRunning, whatsappStatus?.isLinked]);
 
+  // Poll backfill progress while it runs
+  useEffect(() => {
+    if (backfill?.status !== 'running') return;
+
+    const interval = setInterval(async () => {
+      try {
+        const supabase = createClient();
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
+
+        const response = await fetch(`${getBackendUrl()}/wa/backfill`, {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+        });
+
+        if (response.ok) {
+          setBackfill((await response.json()).backfill);
+        }
+      } catch (err) {
+        console.error('Failed to fetch backfill progress:', err);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [backfill?.status]);
+
 
   const handleConnect = async (type: string) => {
     const backendUrl = getBackendUrl();
@@ -278,7 +352,7 @@ function SettingsContent() {
     }
   };
 
-  const handleDisconnect = async (type: string) => {
+  const handleDisconnect = async (type: string, connectionId?: string) => {
     const backendUrl = getBackendUrl();
 
     try {
@@ -289,7 +363,8 @@ function SettingsContent() {
         throw new Error('Not authenticated');
       }
 
-      const response = await fetch(`${backendUrl}/${type}/disconnect`, {
+      const query = connectionId ? `?id=${encodeURIComponent(connectionId)}` : '';
+      const response = await fetch(`${backendUrl}/${type}/disconnect${query}`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${session.access_token}`,
@@ -313,6 +388,85 @@ function SettingsContent() {
     }
   };
 
+  // Update an account's label or whether it's included in searches
+  const handleUpdateConnection = async (connectionId: string, update: { label?: string; enabled?: boolean }) => {
+    const backendUrl = getBackendUrl();
+    const previous = connections;
+
+    setConnections(prev => prev.map(conn => (
+      conn.id === connectionId
+        ? {
+          ...conn,
+          ...(update.enabled !== undefined ? { enabled: update.enabled } : {}),
+          ...(update.label !== undefined ? { label: update.label.trim() || null } : {}),
+        }
+        : conn
+    )));
+
+    try {
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${backendUrl}/connections/${connectionId}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update account');
+      }
+    } catch (error: any) {
+      console.error('Failed to update connection:', error);
+      setConnections(previous);
+      setProfileMessage({ type: 'error', text: error.message || 'Failed to update account' });
+      setTimeout(() => setProfileMessage(null), 3000);
+    }
+  };
+
+  // Label, search toggle and disconnect for a single Google / Microsoft account
+  const renderAccountControls = (conn: Connection) => (
+    <div className={styles.accountRow}>
+      <div className={styles.accountIdentity}>
+        <input
+          className={styles.labelInput}
+          defaultValue={conn.label ?? ''}
+          placeholder="Label (e.g. Work)"
+          maxLength={50}
+          onBlur={(e) => {
+            if (e.target.value.trim() !== (conn.label ?? '')) {
+              handleUpdateConnection(conn.id, { label: e.target.value });
+            }
+          }}
+        />
+        {conn.email && (
+          <div className={styles.connectionEmail}>{conn.email}</div>
+        )}
+      </div>
+      <label className={styles.enableToggle}>
+        <input
+          type="checkbox"
+          checked={conn.enabled}
+          onChange={(e) => handleUpdateConnection(conn.id, { enabled: e.target.checked })}
+        />
+        <span>Include in search</span>
+      </label>
+      <button
+        onClick={() => handleDisconnect(conn.type, conn.id)}
+        className={styles.disconnectButton}
+      >
+        Disconnect
+      </button>
+    </div>
+  );
+
   // WhatsApp handlers
   const handleWhatsAppConnect = async () => {
     const backendUrl = getBackendUrl();
@@ -565,6 +719,51 @@ function SettingsContent() {
     }
   };
 
+  // Start, resume or cancel the history backfill
+  const handleBackfill = async (action: 'start' | 'resume' | 'cancel') => {
+    setBackfillLoading(true);
+    setWhatsappError(null);
+
+    try {
+      const backendUrl = getBackendUrl();
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${backendUrl}/wa/backfill${action === 'resume' ? '/resume' : ''}`, {
+        method: action === 'cancel' ? 'DELETE' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          ...(action === 'start' ? { 'Content-Type': 'application/json', ...timeZoneHeader() } : {}),
+        },
+        ...(action === 'start' ? { body: JSON.stringify({ since: backfillSince, chats: monitoredChats }) } : {}),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} backfill`);
+      }
+
+      const progressResponse = await fetch(`${backendUrl}/wa/backfill`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (progressResponse.ok) {
+        setBackfill((await progressResponse.json()).backfill);
+      }
+    } catch (error: any) {
+      setWhatsappError(error.message || `Failed to ${action} backfill`);
+    } finally {
+      setBackfillLoading(false);
+    }
+  };
+
   const isGoogleConnected = connections.some(conn => conn.type === 'google');
   const isMicrosoftConnected = connections.some(conn => conn.type === 'microsoft');
 
@@ -611,7 +810,7 @@ function SettingsContent() {
             </div>
           )}
 
-          {/* Google Account - Only if connected */}
+          {/* Google Accounts - Only if connected */}
           {isGoogleConnected && (
             <div className={styles.accountProvider}>
               <div className={styles.providerHeader}>
@@ -625,59 +824,59 @@ function SettingsContent() {
                   <span className={styles.providerName}>Google</span>
                 </div>
                 <button
-                  onClick={() => handleDisconnect('google')}
-                  className={styles.disconnectButton}
+                  onClick={() => handleConnect('google')}
+                  className={styles.addAnotherButton}
                 >
-                  Disconnect
+                  <Plus size={14} />
+                  <span>Add account</span>
                 </button>
               </div>
-              {(() => {
-                const googleConn = connections.find(conn => conn.type === 'google');
-                if (!googleConn) return null;
-
-                const scopeLabels: Record<string, string> = {
-                  'gmail.readonly': '📧 Gmail (read-only)',
-                  'calendar.readonly': '📅 Calendar (read-only)',
-                  'userinfo.email': '👤 Email address',
-                };
-
-                const displayedScopes = googleConn.scopes
-                  .map(scope => {
-                    if (scope.includes('gmail')) return scopeLabels['gmail.readonly'];
-                    if (scope.includes('calendar')) return scopeLabels['calendar.readonly'];
-                    if (scope.includes('userinfo')) return scopeLabels['userinfo.email'];
-                    return null;
-                  })
-                  .filter(Boolean) as string[];
-
-                return (
-                  <div className={styles.connectionDetails}>
-                    {googleConn.email && (
-                      <div className={styles.connectionEmail}>{googleConn.email}</div>
-                    )}
-                    <div className={styles.connectionMeta}>
-                      <span>Connected {new Date(googleConn.connectedAt).toLocaleDateString()}</span>
-                      {googleConn.needsRefresh && (
-                        <span className={styles.needsRefresh}>• Needs refresh</span>
+              {connections
+                .filter(conn => conn.type === 'google')
+                .map(googleConn => {
+                  const scopeLabels: Record<string, string> = {
+                    'gmail.readonly': '📧 Gmail (read-only)',
+                    'calendar.readonly': '📅 Calendar (read-only)',
+                    'userinfo.email': '👤 Email address',
+                  };
+
+                  const displayedScopes = googleConn.scopes
+                    .map(scope => {
+                      if (scope.includes('gmail')) return scopeLabels['gmail.readonly'];
+                      if (scope.includes('calendar')) return scopeLabels['calendar.readonly'];
+                      if (scope.includes('userinfo')) return scopeLabels['userinfo.email'];
+                      return null;
+                    })
+                    .filter(Boolean) as string[];
+
+                  return (
+                    <div key={googleConn.id} className={styles.connectionDetails}>
+                      {renderAccountControls(googleConn)}
+                      <div className={styles.connectionMeta}>
+                        <span>Connected {new Date(googleConn.connectedAt).toLocaleDateString()}</span>
+                        {googleConn.needsReauth ? (
+                          <span className={styles.needsRefresh}>• Access expired, reconnect to keep searching</span>
+                        ) : googleConn.needsRefresh && (
+                          <span className={styles.needsRefresh}>• Needs refresh</span>
+                        )}
+                      </div>
+                      {displayedScopes.length > 0 && (
+                        <div className={styles.scopes}>
+                          <span className={styles.scopesLabel}>Permissions:</span>
+                          <ul className={styles.scopesList}>
+                            {displayedScopes.map((label, idx) => (
+                              <li key={idx} className={styles.scopeItem}>{label}</li>
+                            ))}
+                          </ul>
+                        </div>
                       )}
                     </div>
-                    {displayedScopes.length > 0 && (
-                      <div className={styles.scopes}>
-                        <span className={styles.scopesLabel}>Permissions:</span>
-                        <ul className={styles.scopesList}>
-                          {displayedScopes.map((label, idx) => (
-                            <li key={idx} className={styles.scopeItem}>{label}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                  </div>
-                );
-              })()}
+                  );
+                })}
             </div>
           )}
 
-          {/* Microsoft Account - Only if connected */}
+          {/* Microsoft Accounts - Only if connected */}
           {isMicrosoftConnected && (
             <div className={styles.accountProvider}>
               <div className={styles.providerHeader}>
@@ -691,24 +890,23 @@ function SettingsContent() {
                   <span className={styles.providerName}>Outlook</span>
                 </div>
                 <button
-                  onClick={() => handleDisconnect('microsoft')}
-                  className={styles.disconnectButton}
+                  onClick={() => handleConnect('microsoft')}
+                  className={styles.addAnotherButton}
                 >
-                  Disconnect
+                  <Plus size={14} />
+                  <span>Add account</span>
                 </button>
               </div>
-              {(() => {
-                const msConn = connections.find(conn => conn.type === 'microsoft');
-                if (!msConn) return null;
-
-                return (
-                  <div className={styles.connectionDetails}>
-                    {msConn.email && (
-                      <div className={styles.connectionEmail}>{msConn.email}</div>
-                    )}
+              {connections
+                .filter(conn => conn.type === 'microsoft')
+                .map(msConn => (
+                  <div key={msConn.id} className={styles.connectionDetails}>
+                    {renderAccountControls(msConn)}
                     <div className={styles.connectionMeta}>
                       <span>Connected {new Date(msConn.connectedAt).toLocaleDateString()}</span>
-                      {msConn.needsRefresh && (
+                      {msConn.needsReauth ? (
+                        <span className={styles.needsRefresh}>• Access expired, reconnect to keep searching</span>
+                      ) : msConn.needsRefresh && (
                         <span className={styles.needsRefresh}>• Needs refresh</span>
                       )}
                     </div>
@@ -720,8 +918,7 @@ function SettingsContent() {
                       </ul>
                     </div>
                   </div>
-                );
-              })()}
+                ))}
             </div>
           )}
 
@@ -880,6 +1077,78 @@ function SettingsContent() {
                     )}
                   </div>
 
+                  <div className={styles.backfill}>
+                    <h4 className={styles.backfillTitle}>History Backfill</h4>
+                    <p className={styles.backfillHint}>
+                      Import older messages from {monitoredChats.length > 0 ? 'the selected chats' : 'your 10 most recent chats'} so they can be searched.
+                    </p>
+
+                    {backfill && (
+                      <div className={styles.backfillProgress}>
+                        <div className={styles.backfillBar}>
+                          <div
+                            className={styles.backfillBarFill}
+                            style={{ width: `${Math.round(backfill.progress * 100)}%` }}
+                          />
+                        </div>
+                        <div className={styles.backfillMeta}>
+                          <span>
+                            {backfill.status === 'running' ? 'Backfilling' : backfill.status.charAt(0).toUpperCase() + backfill.status.slice(1)}
+                            {' · '}{backfill.chatsDone}/{backfill.chatsTotal} chats
+                            {backfill.chatsTruncated > 0 && ` (${backfill.chatsTruncated} truncated)`}
+                            {' · '}{backfill.messagesUploaded.toLocaleString()} messages
+                          </span>
+                          {backfill.status === 'running' && backfill.etaSeconds !== null && (
+                            <span>{formatEta(backfill.etaSeconds)}</span>
+                          )}
+                        </div>
+                        {backfill.error && (
+                          <div className={styles.backfillMeta}>{backfill.error}</div>
+                        )}
+                      </div>
+                    )}
+
+                    <div className={styles.backfillControls}>
+                      {backfill?.status === 'running' ? (
+                        <button
+                          onClick={() => handleBackfill('cancel')}
+                          disabled={backfillLoading}
+                          className={styles.syncButton}
+                        >
+                          Cancel
+                        </button>
+                      ) : (
+                        <>
+                          <label className={styles.backfillSince}>
+                            Since
+                            <input
+                              type="date"
+                              value={backfillSince}
+                              max={new Date().toISOString().slice(0, 10)}
+                              onChange={(e) => setBackfillSince(e.target.value)}
+                            />
+                          </label>
+                          <button
+                            onClick={() => handleBackfill('start')}
+                            disabled={backfillLoading || !backfillSince}
+                            className={styles.connectButton}
+                          >
+                            {backfillLoading ? 'Starting...' : 'Start Backfill'}
+                          </button>
+                          {(backfill?.status === 'interrupted' || backfill?.status === 'failed' || backfill?.status === 'cancelled') && (
+                            <button
+                              onClick={() => handleBackfill('resume')}
+                              disabled={backfillLoading}
+                              className={styles.syncButton}
+                            >
+                              Resume
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </div>
+
                   <div className={styles.scopes}>
                     <span className={styles.scopesLabel}>Features:</span>
                     <ul className={styles.scopesList}>
@@ -919,12 +1188,10 @@ function SettingsContent() {
               <div className={styles.modalBody}>
                 {/* Google */}
                 <div
-                  className={`${styles.providerOption} ${isGoogleConnected ? styles.providerOptionDisabled : ''}`}
+                  className={styles.providerOption}
                   onClick={() => {
-                    if (!isGoogleConnected) {
-                      handleConnect('google');
-                      setShowAddModal(false);
-                    }
+                    handleConnect('google');
+                    setShowAddModal(false);
                   }}
                 >
                   <div className={styles.providerLabel}>
@@ -940,7 +1207,7 @@ function SettingsContent() {
                     </div>
                   </div>
                   {isGoogleConnected ? (
-                    <span className={styles.providerStatusLabel}>Connected</span>
+                    <span className={styles.providerStatusLabel}>Add another</span>
                   ) : (
                     <ChevronRight size={20} color="var(--text-secondary)" />
                   )}
@@ -948,12 +1215,10 @@ function SettingsContent() {
 
                 {/* Microsoft */}
                 <div
-                  className={`${styles.providerOption} ${isMicrosoftConnected ? styles.providerOptionDisabled : ''}`}
+                  className={styles.providerOption}
                   onClick={() => {
-                    if (!isMicrosoftConnected) {
-                      handleConnect('microsoft');
-                      setShowAddModal(false);
-                    }
+                    handleConnect('microsoft');
+                    setShowAddModal(false);
                   }}
                 >
                   <div className={styles.providerLabel}>
@@ -969,7 +1234,7 @@ function SettingsContent() {
                     </div>
                   </div>
                   {isMicrosoftConnected ? (
-                    <span className={styles.providerStatusLabel}>Connected</span>
+                    <span className={styles.providerStatusLabel}>Add another</span>
                   ) : (
                     <ChevronRight size={20} color="var(--text-secondary)" />
                   )}
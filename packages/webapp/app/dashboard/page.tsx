@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, Suspense, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { getBackendUrl } from '@/lib/config';
+import { streamAsk, timeZoneHeader, type AskStreamEvent } from '@/lib/ask-stream';
 import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
 import styles from './page.module.css';
 import { AnswerCard } from '@/components/AnswerCard';
@@ -21,6 +22,20 @@ interface Answer {
   }>;
   confidence: number;
   insufficient: boolean;
+  omitted?: Array<{ id: string; source: string; reason: 'duplicate' | 'budget' }>;
+  historyWindow?: { days: number; sources: string[] };
+  availability?: {
+    timeZone: string;
+    startDate: string;
+    endDate: string;
+    slots: Array<{ start: string; end: string; durationMinutes: number; date: string }>;
+  };
+}
+
+interface SourceProgress {
+  source: string;
+  status: 'searching' | 'done' | 'failed';
+  hits?: number;
 }
 
 interface Message {
@@ -30,6 +45,49 @@ interface Message {
   answer?: Answer;
   status?: 'pending' | 'processing' | 'complete' | 'failed';
   requestId?: string;
+  // Live progress while the answer is streaming in
+  sources?: SourceProgress[];
+  partialAnswer?: string | undefined;
+}
+
+/**
+ * Fold a single /ask/stream event into the assistant message it belongs to
+ */
+function applyStreamEvent(msg: Message, event: AskStreamEvent): Message {
+  switch (event.type) {
+    case 'plan':
+      return {
+        ...msg,
+        requestId: event.request_id,
+        status: 'processing',
+        sources: event.sources.map(source => ({ source, status: 'searching' })),
+      };
+    case 'search_started':
+      return msg;
+    case 'search_finished':
+      return {
+        ...msg,
+        sources: (msg.sources ?? []).map(s => s.source === event.source
+          ? { ...s, status: event.error ? 'failed' : 'done', hits: event.hits }
+          : s),
+      };
+    case 'answer_delta':
+      return { ...msg, partialAnswer: (msg.partialAnswer ?? '') + event.text };
+    case 'done':
+      return { ...msg, status: 'complete', answer: event.answer, partialAnswer: undefined };
+    case 'error':
+      return {
+        ...msg,
+        status: 'failed',
+        partialAnswer: undefined,
+        answer: {
+          answer: 'An error occurred. Please try again.',
+          citations: [],
+          confidence: 0,
+          insufficient: true,
+        },
+      };
+  }
 }
 
 interface GoogleStatus {
@@ -237,6 +295,7 @@ function AskPageContent() {
               headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${session.access_token}`,
+                ...timeZoneHeader(),
               },
               body: JSON.stringify({
                 source: result.source,
@@ -493,6 +552,7 @@ function AskPageContent() {
           headers: {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${session.access_token}`,
+            ...timeZoneHeader(),
           },
           body: JSON.stringify({
             source: result.source,
@@ -540,40 +600,36 @@ function AskPageContent() {
         return;
       }
 
-      const backendUrl = getBackendUrl();
+      let data: any = null;
+      let streamFailed = false;
 
-      const res = await fetch(`${backendUrl}/ask`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          query: currentQuery,
-          conversationId,
-          // flags removed - sources are decided by backend
-        }),
-      });
+      await streamAsk(
+        session.access_token,
+        { query: currentQuery, conversationId },
+        (event) => {
+          if (event.type === 'plan' && event.conversationId) {
+            setConversationId(event.conversationId);
+          }
+          if (event.type === 'done') {
+            data = event;
+            if (event.conversationId) setConversationId(event.conversationId);
+          }
+          if (event.type === 'error') {
+            console.error('[ASK PAGE] Ask stream error:', event.error);
+            streamFailed = true;
+          }
 
-      const data = await res.json();
+          setMessages(prev => prev.map(msg =>
+            msg.id === assistantMsgId ? applyStreamEvent(msg, event) : msg
+          ));
+        }
+      );
 
-      if (data.conversationId) {
-        setConversationId(data.conversationId);
+      if (!data) {
+        if (streamFailed) return;
+        throw new Error('Ask stream ended without an answer');
       }
 
-      // Update assistant message with initial response
-      setMessages(prev => prev.map(msg => {
-        if (msg.id === assistantMsgId) {
-          return {
-            ...msg,
-            requestId: data.request_id,
-            status: data.status === 'complete' ? 'complete' : 'processing',
-            answer: data.answer
-          };
-        }
-        return msg;
-      }));
-
       if (data.requires_extension && data.request_id && data.instructions) {
         console.log('[ASK PAGE] Extension required, instructions:', data.instructions);
 
@@ -837,12 +893,30 @@ function AskPageContent() {
               ) : (
                 <div className={styles.assistantMessage}>
                   {msg.status === 'pending' || msg.status === 'processing' ? (
-                    <div className={styles.messageLoading}>
-                      <span className={styles.spinner} />
-                      <p>
-                        {msg.status === 'processing' ? 'Searching sources...' : 'Thinking...'}
-                      </p>
-                    </div>
+                    <>
+                      {msg.sources && msg.sources.length > 0 && (
+                        <ul className={styles.sourceProgress}>
+                          {msg.sources.map(s => (
+                            <li key={s.source} className={styles[`source_${s.status}`]}>
+                              {s.status === 'searching' && <span className={styles.spinner} />}
+                              <span>{s.source}</span>
+                              {s.status === 'done' && <span>{s.hits} found</span>}
+                              {s.status === 'failed' && <span>failed</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {msg.partialAnswer ? (
+                        <p className={styles.partialAnswer}>{msg.partialAnswer}</p>
+                      ) : (
+                        <div className={styles.messageLoading}>
+                          <span className={styles.spinner} />
+                          <p>
+                            {msg.status === 'processing' ? 'Searching sources...' : 'Thinking...'}
+                          </p>
+                        </div>
+                      )}
+                    </>
                   ) : msg.answer ? (
                     <>
                       <ConfidenceBar confidence={msg.answer.confidence} />
@@ -9,6 +9,50 @@ import styles from './page.module.css';
 
 type TabType = 'profile' | 'security' | 'subscription';
 
+// How far back searches go when a question names no time range (0 = all history)
+const HISTORY_WINDOW_OPTIONS = [
+    { days: 90, label: 'Last 3 months' },
+    { days: 180, label: 'Last 6 months' },
+    { days: 365, label: 'Last year' },
+    { days: 730, label: 'Last 2 years' },
+    { days: 0, label: 'All history' },
+];
+
+// Common IANA zones; the browser's own zone is added when it isn't listed
+const TIME_ZONE_OPTIONS = [
+    'UTC',
+    'America/Los_Angeles',
+    'America/Denver',
+    'America/Chicago',
+    'America/New_York',
+    'America/Sao_Paulo',
+    'Europe/London',
+    'Europe/Paris',
+    'Europe/Berlin',
+    'Africa/Johannesburg',
+    'Asia/Dubai',
+    'Asia/Kolkata',
+    'Asia/Singapore',
+    'Asia/Tokyo',
+    'Australia/Sydney',
+];
+
+const WEEKDAY_OPTIONS = [
+    { day: 1, label: 'Mon' },
+    { day: 2, label: 'Tue' },
+    { day: 3, label: 'Wed' },
+    { day: 4, label: 'Thu' },
+    { day: 5, label: 'Fri' },
+    { day: 6, label: 'Sat' },
+    { day: 7, label: 'Sun' },
+];
+
+interface WorkingHours {
+    start: string;
+    end: string;
+    days: number[];
+}
+
 function ProfileContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
@@ -21,6 +65,16 @@ function ProfileContent() {
     const [name, setName] = useState('');
     const [updating, setUpdating] = useState(false);
 
+    // Search settings state
+    const [historyWindowDays, setHistoryWindowDays] = useState<number | null>(null);
+    const [savingSettings, setSavingSettings] = useState(false);
+
+    // Scheduling state (used to find free time in calendars)
+    const [timeZone, setTimeZone] = useState<string | null>(null);
+    const [workingHours, setWorkingHours] = useState<WorkingHours | null>(null);
+    const [savingScheduling, setSavingScheduling] = useState(false);
+    const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
     // Security state
     const [currentPassword, setCurrentPassword] = useState('');
     const [newPassword, setNewPassword] = useState('');
@@ -47,6 +101,16 @@ function ProfileContent() {
 
                 setUser(session.user);
                 setName(session.user.user_metadata?.full_name || session.user.user_metadata?.name || '');
+
+                const settingsResponse = await fetch(`${getBackendUrl()}/account/settings`, {
+                    headers: { 'Authorization': `Bearer ${session.access_token}` },
+                });
+                if (settingsResponse.ok) {
+                    const { settings } = await settingsResponse.json();
+                    setHistoryWindowDays(settings.historyWindowDays);
+                    setTimeZone(settings.timeZone);
+                    setWorkingHours(settings.workingHours);
+                }
             } catch (error) {
                 console.error('Failed to fetch user:', error);
             } finally {
@@ -101,6 +165,99 @@ function ProfileContent() {
         }
     };
 
+    const handleUpdateHistoryWindow = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (historyWindowDays === null) return;
+
+        setSavingSettings(true);
+        setMessage(null);
+
+        try {
+            const backendUrl = getBackendUrl();
+            const supabase = createClient();
+            const { data: { session } } = await supabase.auth.getSession();
+
+            if (!session) throw new Error('Not authenticated');
+
+            const response = await fetch(`${backendUrl}/account/settings`, {
+                method: 'PUT',
+                headers: {
+                    'Authorization': `Bearer ${session.access_token}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ historyWindowDays }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to update search settings');
+            }
+
+            setMessage({ type: 'success', text: 'Search settings updated successfully' });
+            setTimeout(() => setMessage(null), 3000);
+        } catch (error: any) {
+            setMessage({ type: 'error', text: error.message });
+        } finally {
+            setSavingSettings(false);
+        }
+    };
+
+    const handleUpdateScheduling = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (timeZone === null || workingHours === null) return;
+        if (workingHours.start >= workingHours.end) {
+            setMessage({ type: 'error', text: 'Working hours must end after they start' });
+            return;
+        }
+        if (workingHours.days.length === 0) {
+            setMessage({ type: 'error', text: 'Select at least one working day' });
+            return;
+        }
+
+        setSavingScheduling(true);
+        setMessage(null);
+
+        try {
+            const backendUrl = getBackendUrl();
+            const supabase = createClient();
+            const { data: { session } } = await supabase.auth.getSession();
+
+            if (!session) throw new Error('Not authenticated');
+
+            const response = await fetch(`${backendUrl}/account/settings`, {
+                method: 'PUT',
+                headers: {
+                    'Authorization': `Bearer ${session.access_token}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ timeZone, workingHours }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to update scheduling settings');
+            }
+
+            setMessage({ type: 'success', text: 'Scheduling settings updated successfully' });
+            setTimeout(() => setMessage(null), 3000);
+        } catch (error: any) {
+            setMessage({ type: 'error', text: error.message });
+        } finally {
+            setSavingScheduling(false);
+        }
+    };
+
+    const toggleWorkingDay = (day: number) => {
+        if (!workingHours) return;
+        const days = workingHours.days.includes(day)
+            ? workingHours.days.filter(d => d !== day)
+            : [...workingHours.days, day].sort((a, b) => a - b);
+        setWorkingHours({ ...workingHours, days });
+    };
+
+    const timeZoneOptions = [timeZone, browserTimeZone, ...TIME_ZONE_OPTIONS]
+        .filter((zone, index, zones): zone is string => !!zone && zones.indexOf(zone) === index);
+
     const handleUpdatePassword = async (e: React.FormEvent) => {
         e.preventDefault();
         if (newPassword !== confirmPassword) {
@@ -242,6 +399,99 @@ function ProfileContent() {
                     </section>
                 )}
 
+                {activeTab === 'profile' && (
+                    <section className={styles.section}>
+                        <h2 className={styles.sectionTitle}>Search History</h2>
+                        <form onSubmit={handleUpdateHistoryWindow} className={styles.form}>
+                            <div className={styles.formGroup}>
+                                <label className={styles.label}>Search messages from</label>
+                                <select
+                                    className={styles.input}
+                                    value={historyWindowDays ?? ''}
+                                    onChange={(e) => setHistoryWindowDays(Number(e.target.value))}
+                                    disabled={historyWindowDays === null}
+                                >
+                                    {historyWindowDays !== null && !HISTORY_WINDOW_OPTIONS.some(o => o.days === historyWindowDays) && (
+                                        <option value={historyWindowDays}>Last {historyWindowDays} days</option>
+                                    )}
+                                    {HISTORY_WINDOW_OPTIONS.map(option => (
+                                        <option key={option.days} value={option.days}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <p className={styles.hint}>
+                                    Applies to Gmail, Outlook and WhatsApp when a question doesn&apos;t mention a time range.
+                                    Longer windows find older messages but can make answers slower.
+                                </p>
+                            </div>
+                            <button type="submit" className={styles.button} disabled={savingSettings || historyWindowDays === null}>
+                                {savingSettings ? 'Saving...' : 'Save Changes'}
+                            </button>
+                        </form>
+                    </section>
+                )}
+
+                {activeTab === 'profile' && (
+                    <section className={styles.section}>
+                        <h2 className={styles.sectionTitle}>Scheduling</h2>
+                        <form onSubmit={handleUpdateScheduling} className={styles.form}>
+                            <div className={styles.formGroup}>
+                                <label className={styles.label}>Time zone</label>
+                                <select
+                                    className={styles.input}
+                                    value={timeZone ?? ''}
+                                    onChange={(e) => setTimeZone(e.target.value)}
+                                    disabled={timeZone === null}
+                                >
+                                    {timeZoneOptions.map(zone => (
+                                        <option key={zone} value={zone}>
+                                            {zone === browserTimeZone ? `${zone} (this device)` : zone}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label className={styles.label}>Working hours</label>
+                                <div className={styles.timeRange}>
+                                    <input
+                                        type="time"
+                                        className={styles.input}
+                                        value={workingHours?.start ?? ''}
+                                        onChange={(e) => workingHours && setWorkingHours({ ...workingHours, start: e.target.value })}
+                                        disabled={workingHours === null}
+                                    />
+                                    <span className={styles.hint}>to</span>
+                                    <input
+                                        type="time"
+                                        className={styles.input}
+                                        value={workingHours?.end ?? ''}
+                                        onChange={(e) => workingHours && setWorkingHours({ ...workingHours, end: e.target.value })}
+                                        disabled={workingHours === null}
+                                    />
+                                </div>
+                                <div className={styles.weekdays}>
+                                    {WEEKDAY_OPTIONS.map(option => (
+                                        <label key={option.day} className={styles.weekday}>
+                                            <input
+                                                type="checkbox"
+                                                checked={workingHours?.days.includes(option.day) ?? false}
+                                                onChange={() => toggleWorkingDay(option.day)}
+                                                disabled={workingHours === null}
+                                            />
+                                            {option.label}
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className={styles.hint}>
+                                    Used to answer questions like &quot;when am I free this week?&quot; from your Google and Outlook calendars.
+                                </p>
+                            </div>
+                            <button type="submit" className={styles.button} disabled={savingScheduling || timeZone === null || workingHours === null}>
+                                {savingScheduling ? 'Saving...' : 'Save Changes'}
+                            </button>
+                        </form>
+                    </section>
+                )}
+
                 {activeTab === 'security' && (
                     <section className={styles.section}>
                         <h2 className={styles.sectionTitle}>Security Settings</h2>
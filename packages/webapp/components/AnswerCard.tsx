@@ -1,6 +1,7 @@
 'use client';
 
 import { useMemo } from 'react';
+import Link from 'next/link';
 import styles from './AnswerCard.module.css';
 import { SourceBadges } from './SourceBadges';
 
@@ -17,6 +18,8 @@ interface Citation {
   subject?: string;
   date?: string;
   recipients?: string;
+  account?: string;
+  attachment?: string;
 }
 
 interface Answer {
@@ -24,6 +27,54 @@ interface Answer {
   citations: Citation[];
   confidence: number;
   insufficient: boolean;
+  omitted?: Array<{ id: string; source: string; reason: 'duplicate' | 'budget' }>;
+  historyWindow?: { days: number; sources: string[] };
+  availability?: Availability;
+}
+
+interface Availability {
+  timeZone: string;
+  startDate: string;
+  endDate: string;
+  slots: Array<{ start: string; end: string; durationMinutes: number; date: string }>;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  gmail: 'Gmail',
+  outlook: 'Outlook',
+  whatsapp: 'WhatsApp',
+};
+
+function describeWindow(days: number): string {
+  if (days % 365 === 0) return days === 365 ? 'year' : `${days / 365} years`;
+  if (days % 30 === 0 && days < 365) return days === 30 ? 'month' : `${days / 30} months`;
+  return `${days} days`;
+}
+
+// Free slots grouped by local day, times shown in the user's configured time zone
+function groupSlots(availability: Availability): Array<{ day: string; times: string[] }> {
+  const dayFormat = new Intl.DateTimeFormat(undefined, {
+    timeZone: availability.timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  const timeFormat = new Intl.DateTimeFormat(undefined, {
+    timeZone: availability.timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  const days = new Map<string, { day: string; times: string[] }>();
+  for (const slot of availability.slots) {
+    let group = days.get(slot.date);
+    if (!group) {
+      group = { day: dayFormat.format(new Date(slot.start)), times: [] };
+      days.set(slot.date, group);
+    }
+    group.times.push(`${timeFormat.format(new Date(slot.start))} – ${timeFormat.format(new Date(slot.end))}`);
+  }
+  return [...days.values()];
 }
 
 interface AnswerCardProps {
@@ -115,6 +166,11 @@ export function AnswerCard({ answer }: AnswerCardProps) {
     );
   }
 
+  const slotDays = answer.availability ? groupSlots(answer.availability) : [];
+
+  // Duplicates carry no extra information, only results cut for space are worth mentioning
+  const omittedCount = answer.omitted?.filter(hit => hit.reason === 'budget').length ?? 0;
+
   return (
     <div className={styles.card}>
       <div className={styles.content}>
@@ -122,6 +178,33 @@ export function AnswerCard({ answer }: AnswerCardProps) {
           className={styles.answer}
           dangerouslySetInnerHTML={{ __html: formattedAnswer }}
         />
+        {answer.availability && slotDays.length > 0 && (
+          <div className={styles.availability}>
+            <p className={styles.availabilityTitle}>
+              Free slots ({answer.availability.timeZone})
+            </p>
+            <ul className={styles.slotList}>
+              {slotDays.map(group => (
+                <li key={group.day} className={styles.slotDay}>
+                  <span className={styles.slotDate}>{group.day}</span>
+                  <span className={styles.slotTimes}>{group.times.join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {omittedCount > 0 && (
+          <p className={styles.omittedNote}>
+            {omittedCount} lower-ranked {omittedCount === 1 ? 'result was' : 'results were'} left out to keep the answer focused.
+          </p>
+        )}
+        {answer.historyWindow && (
+          <p className={styles.omittedNote}>
+            Searched the last {describeWindow(answer.historyWindow.days)} of{' '}
+            {answer.historyWindow.sources.map(source => SOURCE_LABELS[source] ?? source).join(', ')}.
+            Older messages may exist; change how far back to search in your <Link href="/profile">profile</Link>.
+          </p>
+        )}
       </div>
       {answer.citations.length > 0 && (
         <div className={styles.sourcesWrapper}>
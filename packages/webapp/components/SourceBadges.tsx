@@ -15,6 +15,8 @@ interface Citation {
   subject?: string;
   date?: string;
   recipients?: string;
+  account?: string; // Linked account the source came from
+  attachment?: string; // File name when the citation is an email attachment
 }
 
 interface SourceBadgesProps {
@@ -96,6 +98,9 @@ export function SourceBadges({ citations }: SourceBadgesProps) {
                   <div className={styles.sourceCardHeader}>
                     <span className={styles.sourceIcon}>{sourceIcons[citation.source] ?? '📄'}</span>
                     <span className={styles.sourceNumber}>[{index + 1}]</span>
+                    {citation.account && (
+                      <span className={styles.sourceAccount} title={citation.account}>{citation.account}</span>
+                    )}
                   </div>
 
                   {isEmail && (
@@ -123,6 +128,12 @@ export function SourceBadges({ citations }: SourceBadgesProps) {
                           <span className={styles.emailValue}>{truncate(citation.subject, 50)}</span>
                         </div>
                       )}
+                      {citation.attachment && (
+                        <div className={styles.emailField}>
+                          <span className={styles.emailLabel}>📎</span>
+                          <span className={styles.emailValue}>{truncate(citation.attachment, 50)}</span>
+                        </div>
+                      )}
                       {citation.content && citation.from && (
                         <div className={styles.emailBody}>
                           {truncate(citation.content, 120)}
@@ -0,0 +1,109 @@
+import { getBackendUrl } from './config';
+
+export interface StreamedAnswer {
+  answer: string;
+  citations: Array<{
+    source: string;
+    content: string;
+    id: string;
+    link?: string;
+    account?: string;
+    attachment?: string;
+  }>;
+  confidence: number;
+  insufficient: boolean;
+  omitted?: Array<{ id: string; source: string; reason: 'duplicate' | 'budget' }>;
+  historyWindow?: { days: number; sources: string[] };
+  availability?: {
+    timeZone: string;
+    startDate: string;
+    endDate: string;
+    slots: Array<{ start: string; end: string; durationMinutes: number; date: string }>;
+  };
+}
+
+// Mirrors the events emitted by the backend's POST /ask/stream
+export type AskStreamEvent =
+  | { type: 'plan'; request_id: string; conversationId?: string; sources: string[] }
+  | { type: 'search_started'; source: string }
+  | { type: 'search_finished'; source: string; hits: number; error?: string }
+  | { type: 'answer_delta'; text: string }
+  | {
+    type: 'done';
+    status: 'complete';
+    request_id: string;
+    answer: StreamedAnswer;
+    sources_searched: string[];
+    conversationId?: string;
+  }
+  | { type: 'error'; request_id: string; error: string };
+
+/**
+ * The browser's IANA time zone, sent as X-Time-Zone so "today" and event times
+ * match the user's clock when their profile has no time zone set
+ */
+export function timeZoneHeader(): Record<string, string> {
+  return { 'X-Time-Zone': Intl.DateTimeFormat().resolvedOptions().timeZone };
+}
+
+/**
+ * POST a question to /ask/stream and invoke `onEvent` for every
+ * Server-Sent Event until the stream closes.
+ * EventSource can't send a body or auth header, so the stream is read via fetch.
+ */
+export async function streamAsk(
+  accessToken: string,
+  body: { query: string; conversationId?: string | undefined },
+  onEvent: (event: AskStreamEvent) => void
+): Promise<void> {
+  const res = await fetch(`${getBackendUrl()}/ask/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'Authorization': `Bearer ${accessToken}`,
+      ...timeZoneHeader(),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok || !res.body) {
+    throw new Error(`Ask stream failed: ${res.status}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        let event: AskStreamEvent | null = null;
+        try {
+          event = JSON.parse(data) as AskStreamEvent;
+        } catch (e) {
+          console.warn('[ASK STREAM] Failed to parse event:', e);
+        }
+        if (event) onEvent(event);
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
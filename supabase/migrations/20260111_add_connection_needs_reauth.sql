@@ -0,0 +1,3 @@
+-- Flag set when a provider rejects the stored refresh token (invalid_grant).
+-- Cleared when the user reconnects through the OAuth callback.
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS needs_reauth boolean NOT NULL DEFAULT false;
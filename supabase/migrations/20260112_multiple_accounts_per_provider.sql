@@ -0,0 +1,14 @@
+-- Allow several Google / Microsoft accounts per user.
+-- Accounts are now unique per (user, type, email); WhatsApp rows have no email
+-- and stay one per user thanks to NULLS NOT DISTINCT.
+ALTER TABLE connections DROP CONSTRAINT IF EXISTS connections_user_id_type_key;
+
+DO $$ BEGIN
+  ALTER TABLE connections ADD CONSTRAINT connections_user_id_type_email_key UNIQUE NULLS NOT DISTINCT (user_id, type, email);
+EXCEPTION
+  WHEN duplicate_table OR duplicate_object THEN null;
+END $$;
+
+-- User-facing name for the account (e.g. "Work") and per-account search toggle
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS label text;
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS enabled boolean NOT NULL DEFAULT true;
@@ -0,0 +1,34 @@
+-- Async (extension-mode) searches awaiting DOM results from the extension.
+-- Shared by all backend replicas; rows are short-lived and removed after expires_at.
+CREATE TABLE IF NOT EXISTS pending_searches (
+    request_id uuid PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    query text NOT NULL DEFAULT '',
+    requires_extension boolean NOT NULL DEFAULT false,
+    sources_needed text[] NOT NULL DEFAULT '{}',
+    instructions jsonb NOT NULL DEFAULT '[]'::jsonb,
+    results jsonb NOT NULL DEFAULT '{}'::jsonb, -- source -> SearchHit[]
+    status text NOT NULL DEFAULT 'pending', -- 'pending', 'partial', 'complete', 'failed'
+    answer jsonb,
+    conversation_id uuid,
+    metadata jsonb,
+    created_at timestamptz DEFAULT now(),
+    expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_searches_expires_at ON pending_searches(expires_at);
+
+-- Only the backend (service role) reads and writes pending searches
+ALTER TABLE pending_searches ENABLE ROW LEVEL SECURITY;
+
+-- Atomically merge one source's results into a pending search
+CREATE OR REPLACE FUNCTION add_pending_search_results(p_request_id uuid, p_source text, p_hits jsonb)
+RETURNS SETOF pending_searches
+LANGUAGE sql
+AS $$
+    UPDATE pending_searches
+    SET results = results || jsonb_build_object(p_source, p_hits)
+    WHERE request_id = p_request_id
+      AND expires_at > now()
+    RETURNING *;
+$$;
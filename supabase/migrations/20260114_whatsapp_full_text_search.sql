@@ -0,0 +1,73 @@
+-- Ranked full-text search over synced WhatsApp messages.
+-- Replaces ilike OR-chains (no stemming, no ranking, sequential scans).
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Stemmed search vector, maintained by Postgres
+ALTER TABLE synced_messages
+    ADD COLUMN IF NOT EXISTS content_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_synced_messages_content_tsv ON synced_messages USING GIN (content_tsv);
+
+-- Trigram indexes for fuzzy sender / chat name matches ("Jon" ~ "John")
+CREATE INDEX IF NOT EXISTS idx_synced_messages_sender_trgm ON synced_messages USING GIN (sender gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_synced_conversations_title_trgm ON synced_conversations USING GIN (title gin_trgm_ops);
+
+-- Returns matching messages ranked by ts_rank, plus a small bonus for close sender / chat name matches.
+-- Keywords are OR'ed; without keywords, messages matching the sender are returned newest first.
+-- SECURITY INVOKER: runs with the caller's RLS, so users only ever see their own messages.
+CREATE OR REPLACE FUNCTION search_whatsapp_messages(
+    p_user_id uuid,
+    p_keywords text[] DEFAULT '{}',
+    p_sender text DEFAULT NULL,
+    p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH q AS (
+        SELECT CASE
+            WHEN coalesce(array_length(p_keywords, 1), 0) = 0 THEN NULL
+            ELSE websearch_to_tsquery('english', array_to_string(p_keywords, ' OR '))
+        END AS tsq
+    )
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        (
+            CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank(m.content_tsv, q.tsq) END
+            + CASE WHEN p_sender IS NULL THEN 0
+                   ELSE 0.1 * GREATEST(similarity(m.sender, p_sender), similarity(coalesce(c.title, ''), p_sender)) END
+        )::real AS rank
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    CROSS JOIN q
+    WHERE m.user_id = p_user_id
+      AND (q.tsq IS NULL OR m.content_tsv @@ q.tsq)
+      AND (
+          p_sender IS NULL
+          OR m.sender ILIKE '%' || p_sender || '%'
+          OR m.sender % p_sender
+          OR c.title ILIKE '%' || p_sender || '%'
+          OR c.title % p_sender
+      )
+    ORDER BY rank DESC, m.timestamp DESC
+    LIMIT p_limit;
+$$;
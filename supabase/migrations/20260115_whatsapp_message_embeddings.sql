@@ -0,0 +1,52 @@
+-- Semantic search over synced messages with pgvector.
+-- Vectors are produced by the backend's configured embedding backend (see lib/embeddings.ts);
+-- the dimension must match EMBEDDING_DIMENSIONS there.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE synced_messages ADD COLUMN IF NOT EXISTS embedding vector(384);
+-- Which backend/model produced the vector; only vectors from the same model are compared
+ALTER TABLE synced_messages ADD COLUMN IF NOT EXISTS embedding_model text;
+
+CREATE INDEX IF NOT EXISTS idx_synced_messages_embedding
+    ON synced_messages USING hnsw (embedding vector_cosine_ops);
+
+-- Nearest messages to a query embedding, best first. similarity = cosine similarity (-1..1).
+-- SECURITY INVOKER: runs with the caller's RLS, so users only ever see their own messages.
+CREATE OR REPLACE FUNCTION match_whatsapp_messages(
+    p_user_id uuid,
+    p_query_embedding vector(384),
+    p_embedding_model text,
+    p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    similarity real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        (1 - (m.embedding <=> p_query_embedding))::real AS similarity
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    WHERE m.user_id = p_user_id
+      AND m.embedding IS NOT NULL
+      AND m.embedding_model = p_embedding_model
+    ORDER BY m.embedding <=> p_query_embedding
+    LIMIT p_limit;
+$$;
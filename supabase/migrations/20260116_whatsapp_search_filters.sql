@@ -0,0 +1,136 @@
+-- Enforce WhatsApp query plan filters in the database: date window, chat, direction (is_from_me).
+-- Both retrievers get the same filters so hybrid results stay consistent.
+-- Signatures change, so the old functions are dropped rather than overloaded.
+
+DROP FUNCTION IF EXISTS search_whatsapp_messages(uuid, text[], text, integer);
+DROP FUNCTION IF EXISTS match_whatsapp_messages(uuid, vector, text, integer);
+
+-- p_since:   only messages at or after this time (NULL = no lower bound)
+-- p_chat:    chat title (fuzzy) or exact chat external_id (NULL = all chats)
+-- p_from_me: true = sent by the user, false = received, NULL = both
+CREATE OR REPLACE FUNCTION search_whatsapp_messages(
+    p_user_id uuid,
+    p_keywords text[] DEFAULT '{}',
+    p_sender text DEFAULT NULL,
+    p_limit integer DEFAULT 50,
+    p_since timestamptz DEFAULT NULL,
+    p_chat text DEFAULT NULL,
+    p_from_me boolean DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    is_from_me boolean,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH q AS (
+        SELECT CASE
+            WHEN coalesce(array_length(p_keywords, 1), 0) = 0 THEN NULL
+            ELSE websearch_to_tsquery('english', array_to_string(p_keywords, ' OR '))
+        END AS tsq
+    )
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        m.is_from_me,
+        (
+            CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank(m.content_tsv, q.tsq) END
+            + CASE WHEN p_sender IS NULL THEN 0
+                   ELSE 0.1 * GREATEST(similarity(m.sender, p_sender), similarity(coalesce(c.title, ''), p_sender)) END
+        )::real AS rank
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    CROSS JOIN q
+    WHERE m.user_id = p_user_id
+      AND (q.tsq IS NULL OR m.content_tsv @@ q.tsq)
+      AND (
+          p_sender IS NULL
+          OR m.sender ILIKE '%' || p_sender || '%'
+          OR m.sender % p_sender
+          OR c.title ILIKE '%' || p_sender || '%'
+          OR c.title % p_sender
+      )
+      AND (p_since IS NULL OR m.timestamp >= p_since)
+      AND (
+          p_chat IS NULL
+          OR c.external_id = p_chat
+          OR c.title ILIKE '%' || p_chat || '%'
+          OR c.title % p_chat
+      )
+      AND (p_from_me IS NULL OR m.is_from_me = p_from_me)
+    ORDER BY rank DESC, m.timestamp DESC
+    LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION match_whatsapp_messages(
+    p_user_id uuid,
+    p_query_embedding vector(384),
+    p_embedding_model text,
+    p_limit integer DEFAULT 50,
+    p_sender text DEFAULT NULL,
+    p_since timestamptz DEFAULT NULL,
+    p_chat text DEFAULT NULL,
+    p_from_me boolean DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    is_from_me boolean,
+    similarity real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        m.is_from_me,
+        (1 - (m.embedding <=> p_query_embedding))::real AS similarity
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    WHERE m.user_id = p_user_id
+      AND m.embedding IS NOT NULL
+      AND m.embedding_model = p_embedding_model
+      AND (
+          p_sender IS NULL
+          OR m.sender ILIKE '%' || p_sender || '%'
+          OR m.sender % p_sender
+          OR c.title ILIKE '%' || p_sender || '%'
+          OR c.title % p_sender
+      )
+      AND (p_since IS NULL OR m.timestamp >= p_since)
+      AND (
+          p_chat IS NULL
+          OR c.external_id = p_chat
+          OR c.title ILIKE '%' || p_chat || '%'
+          OR c.title % p_chat
+      )
+      AND (p_from_me IS NULL OR m.is_from_me = p_from_me)
+    ORDER BY m.embedding <=> p_query_embedding
+    LIMIT p_limit;
+$$;
@@ -0,0 +1,7 @@
+-- Per-user retrieval lookback, replacing the hard-coded six-month Gmail cap.
+-- Applied to Gmail, Outlook and WhatsApp searches when the question names no time range.
+-- NULL = inherit (global row, then HISTORY_WINDOW_DAYS, then 180), 0 = no limit.
+
+ALTER TABLE feature_flags
+    ADD COLUMN IF NOT EXISTS history_window_days integer
+    CHECK (history_window_days IS NULL OR history_window_days BETWEEN 0 AND 3650);
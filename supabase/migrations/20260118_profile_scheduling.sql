@@ -0,0 +1,15 @@
+-- Scheduling preferences used to answer "when am I free?" questions.
+-- time_zone:      IANA name (e.g. 'Asia/Kolkata'); NULL = UTC until the user sets it
+-- working_hours:  local start/end of the working day
+-- working_days:   ISO weekdays (1 = Monday ... 7 = Sunday)
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS time_zone text,
+    ADD COLUMN IF NOT EXISTS working_hours_start time NOT NULL DEFAULT '09:00',
+    ADD COLUMN IF NOT EXISTS working_hours_end time NOT NULL DEFAULT '17:00',
+    ADD COLUMN IF NOT EXISTS working_days smallint[] NOT NULL DEFAULT '{1,2,3,4,5}';
+
+ALTER TABLE profiles
+    DROP CONSTRAINT IF EXISTS profiles_working_hours_check;
+ALTER TABLE profiles
+    ADD CONSTRAINT profiles_working_hours_check CHECK (working_hours_start < working_hours_end);
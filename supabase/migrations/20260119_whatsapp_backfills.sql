@@ -0,0 +1,19 @@
+-- WhatsApp history backfill, one row per user (a new backfill replaces the last).
+-- The WA browser server reports a checkpoint after every uploaded batch, so an
+-- interrupted backfill can be resumed without uploading the same history again.
+-- chats: [{ chatId, chatName, status: 'pending'|'done'|'truncated'|'failed', messagesUploaded, oldestUploadedAt }]
+CREATE TABLE IF NOT EXISTS whatsapp_backfills (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'running', -- 'running', 'completed', 'failed', 'cancelled', 'interrupted'
+    since timestamptz NOT NULL,
+    requested_chats text[] NOT NULL DEFAULT '{}',
+    chats jsonb NOT NULL DEFAULT '[]'::jsonb,
+    messages_uploaded integer NOT NULL DEFAULT 0,
+    error text,
+    started_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    finished_at timestamptz
+);
+
+-- Only the backend (service role) reads and writes backfills
+ALTER TABLE whatsapp_backfills ENABLE ROW LEVEL SECURITY;
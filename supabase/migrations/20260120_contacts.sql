@@ -0,0 +1,228 @@
+-- Contacts synced from messaging sources (WhatsApp first), so message senders resolve
+-- to a person and a sender filter matches any of their names or their phone number.
+-- names: every alias the source knows (saved name, short name, push name)
+CREATE TABLE IF NOT EXISTS contacts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    source text NOT NULL, -- 'whatsapp'
+    external_id text NOT NULL, -- e.g. WhatsApp id '919876543210@c.us'
+    display_name text,
+    names text[] NOT NULL DEFAULT '{}',
+    phone text, -- digits only, with country code
+    email text,
+    is_group boolean NOT NULL DEFAULT false,
+    is_business boolean NOT NULL DEFAULT false,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (user_id, source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_display_name_trgm ON contacts USING gin (display_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contacts_phone ON contacts (user_id, phone);
+
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own contacts" ON contacts FOR SELECT USING (auth.uid() = user_id);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- sender keeps the display string; sender_external_id is the source's id for the sender
+ALTER TABLE synced_messages
+    ADD COLUMN IF NOT EXISTS sender_external_id text,
+    ADD COLUMN IF NOT EXISTS sender_contact_id uuid REFERENCES contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_synced_messages_sender_contact ON synced_messages (sender_contact_id);
+CREATE INDEX IF NOT EXISTS idx_synced_messages_sender_external ON synced_messages (user_id, sender_external_id);
+
+-- Messages synced so far stored the raw WhatsApp id as the sender
+UPDATE synced_messages
+SET sender_external_id = sender
+WHERE sender_external_id IS NULL AND sender LIKE '%@%';
+
+-- Point messages at their sender's contact and show its display name. Run after contacts
+-- are upserted, for messages that arrived before their sender's contact did.
+CREATE OR REPLACE FUNCTION resolve_message_senders(p_user_id uuid, p_source text DEFAULT 'whatsapp')
+RETURNS integer
+LANGUAGE sql
+AS $$
+    WITH updated AS (
+        UPDATE synced_messages m
+        SET sender_contact_id = ct.id,
+            sender = coalesce(ct.display_name, m.sender)
+        FROM contacts ct, synced_conversations c
+        WHERE m.user_id = p_user_id
+          AND c.id = m.conversation_id
+          AND c.source = p_source
+          AND ct.user_id = p_user_id
+          AND ct.source = p_source
+          AND ct.external_id = m.sender_external_id
+          AND (m.sender_contact_id IS DISTINCT FROM ct.id
+               OR m.sender IS DISTINCT FROM coalesce(ct.display_name, m.sender))
+        RETURNING 1
+    )
+    SELECT count(*)::integer FROM updated;
+$$;
+
+-- Sender filters also match contacts: any of their names, or their phone number.
+-- A matching contact matches the messages it sent and its 1:1 chat.
+CREATE OR REPLACE FUNCTION search_whatsapp_messages(
+    p_user_id uuid,
+    p_keywords text[] DEFAULT '{}',
+    p_sender text DEFAULT NULL,
+    p_limit integer DEFAULT 50,
+    p_since timestamptz DEFAULT NULL,
+    p_chat text DEFAULT NULL,
+    p_from_me boolean DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    is_from_me boolean,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH q AS (
+        SELECT CASE
+            WHEN coalesce(array_length(p_keywords, 1), 0) = 0 THEN NULL
+            ELSE websearch_to_tsquery('english', array_to_string(p_keywords, ' OR '))
+        END AS tsq
+    ),
+    sender_contacts AS (
+        SELECT ct.id, ct.external_id
+        FROM contacts ct
+        WHERE p_sender IS NOT NULL
+          AND ct.user_id = p_user_id
+          AND ct.source = 'whatsapp'
+          AND (
+              ct.display_name ILIKE '%' || p_sender || '%'
+              OR ct.display_name % p_sender
+              OR EXISTS (SELECT 1 FROM unnest(ct.names) AS alias WHERE alias ILIKE '%' || p_sender || '%' OR alias % p_sender)
+              OR (length(regexp_replace(p_sender, '\D', '', 'g')) >= 6
+                  AND ct.phone LIKE '%' || regexp_replace(p_sender, '\D', '', 'g') || '%')
+          )
+    )
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        m.is_from_me,
+        (
+            CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank(m.content_tsv, q.tsq) END
+            + CASE WHEN p_sender IS NULL THEN 0
+                   WHEN m.sender_contact_id IN (SELECT sc.id FROM sender_contacts sc) THEN 0.1
+                   ELSE 0.1 * GREATEST(similarity(m.sender, p_sender), similarity(coalesce(c.title, ''), p_sender)) END
+        )::real AS rank
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    CROSS JOIN q
+    WHERE m.user_id = p_user_id
+      AND (q.tsq IS NULL OR m.content_tsv @@ q.tsq)
+      AND (
+          p_sender IS NULL
+          OR m.sender ILIKE '%' || p_sender || '%'
+          OR m.sender % p_sender
+          OR c.title ILIKE '%' || p_sender || '%'
+          OR c.title % p_sender
+          OR m.sender_contact_id IN (SELECT sc.id FROM sender_contacts sc)
+          OR c.external_id IN (SELECT sc.external_id FROM sender_contacts sc)
+      )
+      AND (p_since IS NULL OR m.timestamp >= p_since)
+      AND (
+          p_chat IS NULL
+          OR c.external_id = p_chat
+          OR c.title ILIKE '%' || p_chat || '%'
+          OR c.title % p_chat
+      )
+      AND (p_from_me IS NULL OR m.is_from_me = p_from_me)
+    ORDER BY rank DESC, m.timestamp DESC
+    LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION match_whatsapp_messages(
+    p_user_id uuid,
+    p_query_embedding vector(384),
+    p_embedding_model text,
+    p_limit integer DEFAULT 50,
+    p_sender text DEFAULT NULL,
+    p_since timestamptz DEFAULT NULL,
+    p_chat text DEFAULT NULL,
+    p_from_me boolean DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    is_from_me boolean,
+    similarity real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH sender_contacts AS (
+        SELECT ct.id, ct.external_id
+        FROM contacts ct
+        WHERE p_sender IS NOT NULL
+          AND ct.user_id = p_user_id
+          AND ct.source = 'whatsapp'
+          AND (
+              ct.display_name ILIKE '%' || p_sender || '%'
+              OR ct.display_name % p_sender
+              OR EXISTS (SELECT 1 FROM unnest(ct.names) AS alias WHERE alias ILIKE '%' || p_sender || '%' OR alias % p_sender)
+              OR (length(regexp_replace(p_sender, '\D', '', 'g')) >= 6
+                  AND ct.phone LIKE '%' || regexp_replace(p_sender, '\D', '', 'g') || '%')
+          )
+    )
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        m.is_from_me,
+        (1 - (m.embedding <=> p_query_embedding))::real AS similarity
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    WHERE m.user_id = p_user_id
+      AND m.embedding IS NOT NULL
+      AND m.embedding_model = p_embedding_model
+      AND (
+          p_sender IS NULL
+          OR m.sender ILIKE '%' || p_sender || '%'
+          OR m.sender % p_sender
+          OR c.title ILIKE '%' || p_sender || '%'
+          OR c.title % p_sender
+          OR m.sender_contact_id IN (SELECT sc.id FROM sender_contacts sc)
+          OR c.external_id IN (SELECT sc.external_id FROM sender_contacts sc)
+      )
+      AND (p_since IS NULL OR m.timestamp >= p_since)
+      AND (
+          p_chat IS NULL
+          OR c.external_id = p_chat
+          OR c.title ILIKE '%' || p_chat || '%'
+          OR c.title % p_chat
+      )
+      AND (p_from_me IS NULL OR m.is_from_me = p_from_me)
+    ORDER BY m.embedding <=> p_query_embedding
+    LIMIT p_limit;
+$$;
@@ -0,0 +1,214 @@
+-- WhatsApp media messages: images, videos, documents, voice notes and locations are
+-- stored with their type and media details instead of as empty rows.
+-- content:  message text; for locations, the place name and address
+-- caption:  text sent with an image, video or document
+-- metadata: { location: { latitude, longitude, name, address } } for shared locations
+ALTER TABLE synced_messages
+    ADD COLUMN IF NOT EXISTS message_type text NOT NULL DEFAULT 'chat', -- whatsapp-web.js type: 'chat', 'image', 'video', 'document', 'ptt' (voice note), 'audio', 'location', ...
+    ADD COLUMN IF NOT EXISTS caption text,
+    ADD COLUMN IF NOT EXISTS media_filename text,
+    ADD COLUMN IF NOT EXISTS media_mimetype text,
+    ADD COLUMN IF NOT EXISTS media_size bigint, -- bytes
+    ADD COLUMN IF NOT EXISTS media_duration_seconds integer, -- voice notes, audio and video
+    ADD COLUMN IF NOT EXISTS quoted_external_id text; -- key id of the quoted message; its external_id ends with it
+
+-- Full-text search also covers captions and file names ("acme_proposal.pdf" -> "acme proposal pdf").
+-- A generated column's expression can't be altered, so it is recreated.
+DROP INDEX IF EXISTS idx_synced_messages_content_tsv;
+ALTER TABLE synced_messages DROP COLUMN IF EXISTS content_tsv;
+ALTER TABLE synced_messages
+    ADD COLUMN content_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english',
+        coalesce(content, '') || ' ' || coalesce(caption, '') || ' '
+        || coalesce(regexp_replace(media_filename, '[._-]+', ' ', 'g'), '')
+    )) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_synced_messages_content_tsv ON synced_messages USING GIN (content_tsv);
+
+-- Results now carry the media details, so the functions are dropped and recreated
+DROP FUNCTION IF EXISTS search_whatsapp_messages(uuid, text[], text, integer, timestamptz, text, boolean);
+DROP FUNCTION IF EXISTS match_whatsapp_messages(uuid, vector, text, integer, text, timestamptz, text, boolean);
+
+CREATE OR REPLACE FUNCTION search_whatsapp_messages(
+    p_user_id uuid,
+    p_keywords text[] DEFAULT '{}',
+    p_sender text DEFAULT NULL,
+    p_limit integer DEFAULT 50,
+    p_since timestamptz DEFAULT NULL,
+    p_chat text DEFAULT NULL,
+    p_from_me boolean DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    is_from_me boolean,
+    message_type text,
+    caption text,
+    media_filename text,
+    media_mimetype text,
+    media_size bigint,
+    media_duration_seconds integer,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH q AS (
+        SELECT CASE
+            WHEN coalesce(array_length(p_keywords, 1), 0) = 0 THEN NULL
+            ELSE websearch_to_tsquery('english', array_to_string(p_keywords, ' OR '))
+        END AS tsq
+    ),
+    sender_contacts AS (
+        SELECT ct.id, ct.external_id
+        FROM contacts ct
+        WHERE p_sender IS NOT NULL
+          AND ct.user_id = p_user_id
+          AND ct.source = 'whatsapp'
+          AND (
+              ct.display_name ILIKE '%' || p_sender || '%'
+              OR ct.display_name % p_sender
+              OR EXISTS (SELECT 1 FROM unnest(ct.names) AS alias WHERE alias ILIKE '%' || p_sender || '%' OR alias % p_sender)
+              OR (length(regexp_replace(p_sender, '\D', '', 'g')) >= 6
+                  AND ct.phone LIKE '%' || regexp_replace(p_sender, '\D', '', 'g') || '%')
+          )
+    )
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        m.is_from_me,
+        m.message_type,
+        m.caption,
+        m.media_filename,
+        m.media_mimetype,
+        m.media_size,
+        m.media_duration_seconds,
+        (
+            CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank(m.content_tsv, q.tsq) END
+            + CASE WHEN p_sender IS NULL THEN 0
+                   WHEN m.sender_contact_id IN (SELECT sc.id FROM sender_contacts sc) THEN 0.1
+                   ELSE 0.1 * GREATEST(similarity(m.sender, p_sender), similarity(coalesce(c.title, ''), p_sender)) END
+        )::real AS rank
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    CROSS JOIN q
+    WHERE m.user_id = p_user_id
+      AND (q.tsq IS NULL OR m.content_tsv @@ q.tsq)
+      AND (
+          p_sender IS NULL
+          OR m.sender ILIKE '%' || p_sender || '%'
+          OR m.sender % p_sender
+          OR c.title ILIKE '%' || p_sender || '%'
+          OR c.title % p_sender
+          OR m.sender_contact_id IN (SELECT sc.id FROM sender_contacts sc)
+          OR c.external_id IN (SELECT sc.external_id FROM sender_contacts sc)
+      )
+      AND (p_since IS NULL OR m.timestamp >= p_since)
+      AND (
+          p_chat IS NULL
+          OR c.external_id = p_chat
+          OR c.title ILIKE '%' || p_chat || '%'
+          OR c.title % p_chat
+      )
+      AND (p_from_me IS NULL OR m.is_from_me = p_from_me)
+    ORDER BY rank DESC, m.timestamp DESC
+    LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION match_whatsapp_messages(
+    p_user_id uuid,
+    p_query_embedding vector(384),
+    p_embedding_model text,
+    p_limit integer DEFAULT 50,
+    p_sender text DEFAULT NULL,
+    p_since timestamptz DEFAULT NULL,
+    p_chat text DEFAULT NULL,
+    p_from_me boolean DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    is_from_me boolean,
+    message_type text,
+    caption text,
+    media_filename text,
+    media_mimetype text,
+    media_size bigint,
+    media_duration_seconds integer,
+    similarity real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH sender_contacts AS (
+        SELECT ct.id, ct.external_id
+        FROM contacts ct
+        WHERE p_sender IS NOT NULL
+          AND ct.user_id = p_user_id
+          AND ct.source = 'whatsapp'
+          AND (
+              ct.display_name ILIKE '%' || p_sender || '%'
+              OR ct.display_name % p_sender
+              OR EXISTS (SELECT 1 FROM unnest(ct.names) AS alias WHERE alias ILIKE '%' || p_sender || '%' OR alias % p_sender)
+              OR (length(regexp_replace(p_sender, '\D', '', 'g')) >= 6
+                  AND ct.phone LIKE '%' || regexp_replace(p_sender, '\D', '', 'g') || '%')
+          )
+    )
+    SELECT
+        m.id,
+        m.conversation_id,
+        m.sender,
+        m.content,
+        m.timestamp,
+        c.title,
+        c.external_id,
+        m.is_from_me,
+        m.message_type,
+        m.caption,
+        m.media_filename,
+        m.media_mimetype,
+        m.media_size,
+        m.media_duration_seconds,
+        (1 - (m.embedding <=> p_query_embedding))::real AS similarity
+    FROM synced_messages m
+    JOIN synced_conversations c ON c.id = m.conversation_id
+    WHERE m.user_id = p_user_id
+      AND m.embedding IS NOT NULL
+      AND m.embedding_model = p_embedding_model
+      AND (
+          p_sender IS NULL
+          OR m.sender ILIKE '%' || p_sender || '%'
+          OR m.sender % p_sender
+          OR c.title ILIKE '%' || p_sender || '%'
+          OR c.title % p_sender
+          OR m.sender_contact_id IN (SELECT sc.id FROM sender_contacts sc)
+          OR c.external_id IN (SELECT sc.external_id FROM sender_contacts sc)
+      )
+      AND (p_since IS NULL OR m.timestamp >= p_since)
+      AND (
+          p_chat IS NULL
+          OR c.external_id = p_chat
+          OR c.title ILIKE '%' || p_chat || '%'
+          OR c.title % p_chat
+      )
+      AND (p_from_me IS NULL OR m.is_from_me = p_from_me)
+    ORDER BY m.embedding <=> p_query_embedding
+    LIMIT p_limit;
+$$;
@@ -0,0 +1,20 @@
+-- Submitting results keeps a pending search alive: the merge also moves expires_at forward.
+-- The signature changes, so the old function is dropped rather than overloaded.
+DROP FUNCTION IF EXISTS add_pending_search_results(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION add_pending_search_results(
+    p_request_id uuid,
+    p_source text,
+    p_hits jsonb,
+    p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS SETOF pending_searches
+LANGUAGE sql
+AS $$
+    UPDATE pending_searches
+    SET results = results || jsonb_build_object(p_source, p_hits),
+        expires_at = coalesce(p_expires_at, expires_at)
+    WHERE request_id = p_request_id
+      AND expires_at > now()
+    RETURNING *;
+$$;
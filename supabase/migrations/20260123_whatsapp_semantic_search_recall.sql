@@ -0,0 +1,115 @@
+-- Semantic WhatsApp search returned too few rows under filters: the HNSW scan yields at
+-- most hnsw.ef_search (default 40) rows, across all users, before the user, sender, chat
+-- and date filters run. Now the index is scanned with a larger ef_search (and iterative
+-- scans where pgvector >= 0.8 supports them) for an over-fetched candidate set, which is
+-- filtered afterwards. p_min_similarity drops unrelated messages before they reach fusion.
+-- The signature changes, so the old function is dropped rather than overloaded.
+DROP FUNCTION IF EXISTS match_whatsapp_messages(uuid, vector, text, integer, text, timestamptz, text, boolean);
+
+CREATE OR REPLACE FUNCTION match_whatsapp_messages(
+    p_user_id uuid,
+    p_query_embedding vector(384),
+    p_embedding_model text,
+    p_limit integer DEFAULT 50,
+    p_sender text DEFAULT NULL,
+    p_since timestamptz DEFAULT NULL,
+    p_chat text DEFAULT NULL,
+    p_from_me boolean DEFAULT NULL,
+    p_min_similarity real DEFAULT 0
+)
+RETURNS TABLE (
+    id uuid,
+    conversation_id uuid,
+    sender text,
+    content text,
+    "timestamp" timestamptz,
+    conversation_title text,
+    conversation_external_id text,
+    is_from_me boolean,
+    message_type text,
+    caption text,
+    media_filename text,
+    media_mimetype text,
+    media_size bigint,
+    media_duration_seconds integer,
+    similarity real
+)
+LANGUAGE plpgsql
+VOLATILE -- sets transaction-local index scan options
+SECURITY INVOKER
+AS $$
+#variable_conflict use_column
+BEGIN
+    PERFORM set_config('hnsw.ef_search', '1000', true);
+    BEGIN
+        PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    EXCEPTION WHEN OTHERS THEN
+        NULL; -- pgvector < 0.8: ef_search alone bounds the candidates
+    END;
+
+    RETURN QUERY
+        WITH sender_contacts AS (
+            SELECT ct.id, ct.external_id
+            FROM contacts ct
+            WHERE p_sender IS NOT NULL
+              AND ct.user_id = p_user_id
+              AND ct.source = 'whatsapp'
+              AND (
+                  ct.display_name ILIKE '%' || p_sender || '%'
+                  OR ct.display_name % p_sender
+                  OR EXISTS (SELECT 1 FROM unnest(ct.names) AS alias WHERE alias ILIKE '%' || p_sender || '%' OR alias % p_sender)
+                  OR (length(regexp_replace(p_sender, '\D', '', 'g')) >= 6
+                      AND ct.phone LIKE '%' || regexp_replace(p_sender, '\D', '', 'g') || '%')
+              )
+        ),
+        -- Nearest messages of this user and model; the filters below run on these
+        candidates AS (
+            SELECT m.id, m.embedding <=> p_query_embedding AS distance
+            FROM synced_messages m
+            WHERE m.user_id = p_user_id
+              AND m.embedding IS NOT NULL
+              AND m.embedding_model = p_embedding_model
+            ORDER BY m.embedding <=> p_query_embedding
+            LIMIT least(greatest(p_limit * 20, 200), 1000)
+        )
+        SELECT
+            m.id,
+            m.conversation_id,
+            m.sender,
+            m.content,
+            m.timestamp,
+            c.title,
+            c.external_id,
+            m.is_from_me,
+            m.message_type,
+            m.caption,
+            m.media_filename,
+            m.media_mimetype,
+            m.media_size,
+            m.media_duration_seconds,
+            (1 - k.distance)::real AS similarity
+        FROM candidates k
+        JOIN synced_messages m ON m.id = k.id
+        JOIN synced_conversations c ON c.id = m.conversation_id
+        WHERE (1 - k.distance) >= p_min_similarity
+          AND (
+              p_sender IS NULL
+              OR m.sender ILIKE '%' || p_sender || '%'
+              OR m.sender % p_sender
+              OR c.title ILIKE '%' || p_sender || '%'
+              OR c.title % p_sender
+              OR m.sender_contact_id IN (SELECT sc.id FROM sender_contacts sc)
+              OR c.external_id IN (SELECT sc.external_id FROM sender_contacts sc)
+          )
+          AND (p_since IS NULL OR m.timestamp >= p_since)
+          AND (
+              p_chat IS NULL
+              OR c.external_id = p_chat
+              OR c.title ILIKE '%' || p_chat || '%'
+              OR c.title % p_chat
+          )
+          AND (p_from_me IS NULL OR m.is_from_me = p_from_me)
+        ORDER BY k.distance
+        LIMIT p_limit;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- High-water marks of the browser server's scheduled WhatsApp syncs: chat id -> timestamp
+-- (epoch ms) of the newest message the backend has from that chat. Saved after each sync
+-- and handed back when the session links again, so a restart only fetches what it missed.
+ALTER TABLE browser_instances
+    ADD COLUMN IF NOT EXISTS sync_marks jsonb NOT NULL DEFAULT '{}'::jsonb;